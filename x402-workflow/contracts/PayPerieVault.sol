@@ -4,7 +4,10 @@ pragma solidity ^0.8.20;
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IERC3009} from "./interfaces/IERC3009.sol";
 
 /**
  * @title PayPerieVault
@@ -14,6 +17,9 @@ contract PayPerieVault is AccessControl, ReentrancyGuard {
     using SafeERC20 for IERC20;
 
     bytes32 public constant FACILITATOR_ROLE = keccak256("FACILITATOR_ROLE");
+    bytes32 private constant PERMIT_TYPEHASH = keccak256(
+        "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+    );
 
     enum AuthorTier {
         Level0,
@@ -34,6 +40,9 @@ contract PayPerieVault is AccessControl, ReentrancyGuard {
 
     mapping(address => AuthorProfile) public authors;
 
+    /// @notice EIP-2612 permit digests already settled through `settleWithPermit`
+    mapping(bytes32 => bool) public permitSettled;
+
     uint256 private constant BPS_DENOMINATOR = 10_000;
 
     event PaymentSettled(address indexed author, uint256 amount, uint256 fee, uint256 lockedAmount);
@@ -76,27 +85,95 @@ contract PayPerieVault is AccessControl, ReentrancyGuard {
         require(amount > 0, "Amount must be > 0");
 
         usdcToken.safeTransferFrom(msg.sender, address(this), amount);
+        _distribute(author, amount);
+    }
 
-        uint256 fee = (amount * protocolFeeBps) / BPS_DENOMINATOR;
-        if (fee > 0) {
-            usdcToken.safeTransfer(treasuryWallet, fee);
-        }
-
-        uint256 netIncome = amount - fee;
+    /**
+     * @notice Settles a payment in one transaction by pulling the payer's funds with their
+     * EIP-3009 ReceiveWithAuthorization signature (the authorization must name this vault as `to`).
+     */
+    function settleWithAuthorization(
+        address author,
+        address from,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant onlyRole(FACILITATOR_ROLE) {
+        require(author != address(0), "Invalid author");
+        require(value > 0, "Amount must be > 0");
 
-        (uint256 immediateBps, uint256 lockPeriod) = _tierConfig(authors[author].tier);
-        uint256 toRelease = (netIncome * immediateBps) / BPS_DENOMINATOR;
-        uint256 toLock = netIncome - toRelease;
+        uint256 balanceBefore = usdcToken.balanceOf(address(this));
+        IERC3009(address(usdcToken)).receiveWithAuthorization(
+            from, address(this), value, validAfter, validBefore, nonce, v, r, s
+        );
+        require(usdcToken.balanceOf(address(this)) - balanceBefore == value, "Authorization transfer mismatch");
 
-        AuthorProfile storage profile = authors[author];
-        profile.availableBalance += toRelease;
-        profile.lockedBalance += toLock;
+        _distribute(author, value);
+    }
 
-        if (toLock > 0) {
-            profile.unlockTime = block.timestamp + lockPeriod;
+    /**
+     * @notice Settles a metered ("upto") payment: redeems the payer's EIP-2612 permit for up to
+     * `maxValue` (the permit must name this vault as spender) and pulls only the consumed `amount`.
+     * @dev Every pull redeems a fresh permit, which overwrites the allowance, so allowance left
+     * over from an earlier permit is never drawn. Anyone can submit a signed permit to the token
+     * first (e.g. from the mempool); the settlement then still goes through as long as that permit
+     * is the owner's latest one and has not been settled here before.
+     *
+     * Permit nonces are sequential per owner: any later permit the owner signs for this token
+     * invalidates an unredeemed one, so a wallet can keep only one metered session open at a time.
+     */
+    function settleWithPermit(
+        address author,
+        address owner,
+        uint256 maxValue,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant onlyRole(FACILITATOR_ROLE) {
+        require(author != address(0), "Invalid author");
+        require(amount > 0, "Amount must be > 0");
+        require(amount <= maxValue, "Amount exceeds permit");
+
+        IERC20Permit token = IERC20Permit(address(usdcToken));
+        try token.permit(owner, address(this), maxValue, deadline, v, r, s) {
+            permitSettled[_permitDigest(token, owner, maxValue, deadline)] = true;
+        } catch (bytes memory reason) {
+            bytes32 digest = _permitDigest(token, owner, maxValue, deadline);
+            (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, v, r, s);
+            if (error != ECDSA.RecoverError.NoError || signer != owner || permitSettled[digest]) {
+                assembly {
+                    revert(add(reason, 32), mload(reason))
+                }
+            }
+            permitSettled[digest] = true;
         }
+        require(usdcToken.allowance(owner, address(this)) >= amount, "Permit allowance too low");
+        usdcToken.safeTransferFrom(owner, address(this), amount);
 
-        emit PaymentSettled(author, amount, fee, toLock);
+        _distribute(author, amount);
+    }
+
+    /**
+     * @dev Digest of a permit for these terms under the owner's last used nonce (zero if none was used)
+     */
+    function _permitDigest(
+        IERC20Permit token,
+        address owner,
+        uint256 maxValue,
+        uint256 deadline
+    ) internal view returns (bytes32) {
+        uint256 nonce = token.nonces(owner);
+        if (nonce == 0) {
+            return bytes32(0);
+        }
+        bytes32 structHash = keccak256(abi.encode(PERMIT_TYPEHASH, owner, address(this), maxValue, nonce - 1, deadline));
+        return keccak256(abi.encodePacked("\x19\x01", token.DOMAIN_SEPARATOR(), structHash));
     }
 
     function claimRevenue() external nonReentrant {
@@ -116,6 +193,29 @@ contract PayPerieVault is AccessControl, ReentrancyGuard {
         emit RevenueClaimed(msg.sender, payout);
     }
 
+    function _distribute(address author, uint256 amount) internal {
+        uint256 fee = (amount * protocolFeeBps) / BPS_DENOMINATOR;
+        if (fee > 0) {
+            usdcToken.safeTransfer(treasuryWallet, fee);
+        }
+
+        uint256 netIncome = amount - fee;
+
+        (uint256 immediateBps, uint256 lockPeriod) = _tierConfig(authors[author].tier);
+        uint256 toRelease = (netIncome * immediateBps) / BPS_DENOMINATOR;
+        uint256 toLock = netIncome - toRelease;
+
+        AuthorProfile storage profile = authors[author];
+        profile.availableBalance += toRelease;
+        profile.lockedBalance += toLock;
+
+        if (toLock > 0) {
+            profile.unlockTime = block.timestamp + lockPeriod;
+        }
+
+        emit PaymentSettled(author, amount, fee, toLock);
+    }
+
     function _tierConfig(AuthorTier tier) internal pure returns (uint256 immediateBps, uint256 lockPeriod) {
         if (tier == AuthorTier.Level0) {
             return (1000, 15 days);
@@ -0,0 +1,49 @@
+import { expect } from "chai";
+
+// The facilitator reads its network config on import (local Hardhat addresses stand in)
+process.env.VAULT_CONTRACT_ADDRESS ??= "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+process.env.FACILITATOR_PRIVATE_KEY ??= "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+process.env.STORE_BACKEND = "memory";
+
+const { MemoryStoreBackend, setStore } = await import("../x402-facilitator/src/store/backend.js");
+const { addMerchant } = await import("../x402-facilitator/src/store/merchantWhitelist.js");
+const { recordSpending, setBudget } = await import("../x402-facilitator/src/store/userPolicy.js");
+const { budgetMerchantOf, checkBudgets, getBudgetStatuses } = await import("../x402-facilitator/src/services/spendingBudgets.js");
+
+const USDC = 1_000_000n;
+
+// Every merchant is paid through the facilitator's signer, so they share one payTo
+const PAY_TO = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+const AUTHOR_A = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+const AUTHOR_B = "0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc";
+const USER = "0x45dE4ff9D934EDDdBd8b22607745D15b6248371D";
+
+describe("Spending budgets", function () {
+  beforeEach(function () {
+    setStore(new MemoryStoreBackend());
+  });
+
+  it("keeps merchant budgets apart for merchants sharing one payTo", function () {
+    const merchantA = budgetMerchantOf({ merchantAddress: PAY_TO, authorAddress: AUTHOR_A });
+    const merchantB = budgetMerchantOf({ merchantAddress: PAY_TO, authorAddress: AUTHOR_B });
+    setBudget(USER, { scope: "merchant", target: merchantA, period: "day", limit: 2n * USDC });
+    recordSpending(USER, PAY_TO, AUTHOR_A, 2n * USDC, "payment-a");
+
+    expect(checkBudgets(USER, merchantA, USDC)).to.match(/daily merchant budget/);
+    expect(checkBudgets(USER, merchantB, USDC)).to.equal(null);
+    expect(getBudgetStatuses(USER)[0].spent).to.equal(2n * USDC);
+  });
+
+  it("takes a merchant's category from its own registration, not the shared payTo", function () {
+    addMerchant({ address: AUTHOR_A, name: "Book Author", domain: "books.example", verified: true, category: "books" });
+    addMerchant({ address: PAY_TO, name: "Facilitator", domain: "facilitator.example", verified: true, category: "books" });
+    setBudget(USER, { scope: "category", target: "books", period: "day", limit: 3n * USDC });
+    recordSpending(USER, PAY_TO, AUTHOR_A, 2n * USDC, "payment-a");
+    recordSpending(USER, PAY_TO, AUTHOR_B, 2n * USDC, "payment-b");
+
+    const merchantA = budgetMerchantOf({ merchantAddress: PAY_TO, authorAddress: AUTHOR_A });
+    expect(getBudgetStatuses(USER)[0].spent).to.equal(2n * USDC);
+    expect(checkBudgets(USER, merchantA, USDC)).to.equal(null);
+    expect(checkBudgets(USER, merchantA, 2n * USDC)).to.match(/daily category budget/);
+  });
+});
@@ -4,6 +4,27 @@ import { time, loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 
 const ONE_DAY = 24 * 60 * 60;
 
+const RECEIVE_WITH_AUTHORIZATION_TYPES = {
+  ReceiveWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
 describe("PayPerieVault", function () {
   async function deployFixture() {
     const [admin, facilitator, author, treasury, stranger] = await ethers.getSigners();
@@ -25,6 +46,54 @@ describe("PayPerieVault", function () {
     return { admin, facilitator, author, treasury, stranger, usdc, vault };
   }
 
+  async function signReceiveAuthorization(
+    payer: Awaited<ReturnType<typeof ethers.getSigners>>[number],
+    usdc: Awaited<ReturnType<typeof deployFixture>>["usdc"],
+    to: string,
+    value: bigint
+  ) {
+    const now = await time.latest();
+    const authorization = {
+      from: payer.address,
+      to,
+      value,
+      validAfter: BigInt(now - 60),
+      validBefore: BigInt(now + 3600),
+      nonce: ethers.hexlify(ethers.randomBytes(32)),
+    };
+    const domain = {
+      name: "Mock USDC",
+      version: "2",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await usdc.getAddress(),
+    };
+    const { v, r, s } = ethers.Signature.from(await payer.signTypedData(domain, RECEIVE_WITH_AUTHORIZATION_TYPES, authorization));
+    return [authorization.from, authorization.value, authorization.validAfter, authorization.validBefore, authorization.nonce, v, r, s] as const;
+  }
+
+  async function signPermit(
+    payer: Awaited<ReturnType<typeof ethers.getSigners>>[number],
+    usdc: Awaited<ReturnType<typeof deployFixture>>["usdc"],
+    spender: string,
+    maxValue: bigint
+  ) {
+    const permit = {
+      owner: payer.address,
+      spender,
+      value: maxValue,
+      nonce: await usdc.nonces(payer.address),
+      deadline: BigInt((await time.latest()) + 3600),
+    };
+    const domain = {
+      name: "Mock USDC",
+      version: "2",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await usdc.getAddress(),
+    };
+    const { v, r, s } = ethers.Signature.from(await payer.signTypedData(domain, PERMIT_TYPES, permit));
+    return { owner: permit.owner, maxValue, deadline: permit.deadline, v, r, s };
+  }
+
   it("settles payment and updates balances", async function () {
     const { facilitator, author, treasury, usdc, vault } = await loadFixture(deployFixture);
 
@@ -100,4 +169,134 @@ describe("PayPerieVault", function () {
       `AccessControl: account ${stranger.address.toLowerCase()} is missing role ${await vault.FACILITATOR_ROLE()}`
     );
   });
+
+  it("settles in one transaction with a receive authorization", async function () {
+    const { facilitator, author, treasury, stranger: payer, usdc, vault } = await loadFixture(deployFixture);
+
+    const amount = ethers.parseUnits("100", 6);
+    await usdc.mint(payer.address, amount);
+    const facilitatorBalance = await usdc.balanceOf(facilitator.address);
+
+    const args = await signReceiveAuthorization(payer, usdc, await vault.getAddress(), amount);
+    const expectedFee = amount / 100n;
+    const expectedNet = amount - expectedFee;
+    const expectedLock = expectedNet - expectedNet / 10n; // Level0
+
+    await expect(vault.connect(facilitator).settleWithAuthorization(author.address, ...args))
+      .to.emit(vault, "PaymentSettled").withArgs(author.address, amount, expectedFee, expectedLock);
+
+    expect(await usdc.balanceOf(payer.address)).to.equal(0n);
+    expect(await usdc.balanceOf(treasury.address)).to.equal(expectedFee);
+    expect(await usdc.balanceOf(await vault.getAddress())).to.equal(expectedNet);
+    expect(await usdc.balanceOf(facilitator.address)).to.equal(facilitatorBalance);
+    expect(await usdc.authorizationState(payer.address, args[4])).to.equal(true);
+  });
+
+  it("rejects a replayed authorization", async function () {
+    const { facilitator, author, stranger: payer, usdc, vault } = await loadFixture(deployFixture);
+
+    const amount = ethers.parseUnits("10", 6);
+    await usdc.mint(payer.address, amount * 2n);
+
+    const args = await signReceiveAuthorization(payer, usdc, await vault.getAddress(), amount);
+    await vault.connect(facilitator).settleWithAuthorization(author.address, ...args);
+
+    await expect(vault.connect(facilitator).settleWithAuthorization(author.address, ...args)).to.be.revertedWith(
+      "Authorization is used"
+    );
+  });
+
+  it("rejects an authorization that names another recipient", async function () {
+    const { facilitator, author, stranger: payer, usdc, vault } = await loadFixture(deployFixture);
+
+    const amount = ethers.parseUnits("10", 6);
+    await usdc.mint(payer.address, amount);
+
+    const args = await signReceiveAuthorization(payer, usdc, facilitator.address, amount);
+
+    await expect(vault.connect(facilitator).settleWithAuthorization(author.address, ...args)).to.be.revertedWith(
+      "Invalid signature"
+    );
+  });
+
+  it("blocks non-facilitator from settling with an authorization", async function () {
+    const { author, stranger: payer, usdc, vault } = await loadFixture(deployFixture);
+
+    const amount = ethers.parseUnits("10", 6);
+    await usdc.mint(payer.address, amount);
+
+    const args = await signReceiveAuthorization(payer, usdc, await vault.getAddress(), amount);
+
+    await expect(vault.connect(payer).settleWithAuthorization(author.address, ...args))
+      .to.be.revertedWithCustomError(vault, "AccessControlUnauthorizedAccount")
+      .withArgs(payer.address, await vault.FACILITATOR_ROLE());
+  });
+
+  it("settles only the consumed amount of a permit", async function () {
+    const { facilitator, author, treasury, stranger: payer, usdc, vault } = await loadFixture(deployFixture);
+
+    const maxValue = ethers.parseUnits("10", 6);
+    const consumed = ethers.parseUnits("4", 6);
+    await usdc.mint(payer.address, maxValue);
+
+    const { owner, deadline, v, r, s } = await signPermit(payer, usdc, await vault.getAddress(), maxValue);
+    const expectedFee = consumed / 100n;
+    const expectedNet = consumed - expectedFee;
+    const expectedLock = expectedNet - expectedNet / 10n; // Level0
+
+    await expect(vault.connect(facilitator).settleWithPermit(author.address, owner, maxValue, consumed, deadline, v, r, s))
+      .to.emit(vault, "PaymentSettled").withArgs(author.address, consumed, expectedFee, expectedLock);
+
+    expect(await usdc.balanceOf(payer.address)).to.equal(maxValue - consumed);
+    expect(await usdc.balanceOf(treasury.address)).to.equal(expectedFee);
+    expect(await usdc.nonces(payer.address)).to.equal(1n);
+  });
+
+  it("never draws allowance left over from a settled permit", async function () {
+    const { facilitator, author, stranger: payer, usdc, vault } = await loadFixture(deployFixture);
+
+    const maxValue = ethers.parseUnits("10", 6);
+    const consumed = ethers.parseUnits("4", 6);
+    await usdc.mint(payer.address, maxValue);
+
+    const { owner, deadline, v, r, s } = await signPermit(payer, usdc, await vault.getAddress(), maxValue);
+    await vault.connect(facilitator).settleWithPermit(author.address, owner, maxValue, consumed, deadline, v, r, s);
+
+    await expect(
+      vault.connect(facilitator).settleWithPermit(author.address, owner, maxValue, consumed, deadline, v, r, s)
+    ).to.be.revertedWith("Invalid signature");
+    expect(await usdc.balanceOf(payer.address)).to.equal(maxValue - consumed);
+  });
+
+  it("settles a permit that someone else submitted first", async function () {
+    const { facilitator, author, stranger: payer, usdc, vault } = await loadFixture(deployFixture);
+
+    const maxValue = ethers.parseUnits("10", 6);
+    const consumed = ethers.parseUnits("4", 6);
+    await usdc.mint(payer.address, maxValue);
+
+    const { owner, deadline, v, r, s } = await signPermit(payer, usdc, await vault.getAddress(), maxValue);
+    await usdc.connect(author).permit(owner, await vault.getAddress(), maxValue, deadline, v, r, s);
+
+    await expect(vault.connect(facilitator).settleWithPermit(author.address, owner, maxValue, consumed, deadline, v, r, s))
+      .to.emit(vault, "PaymentSettled");
+    expect(await usdc.balanceOf(payer.address)).to.equal(maxValue - consumed);
+
+    await expect(
+      vault.connect(facilitator).settleWithPermit(author.address, owner, maxValue, consumed, deadline, v, r, s)
+    ).to.be.revertedWith("Invalid signature");
+  });
+
+  it("rejects an amount above the permit", async function () {
+    const { facilitator, author, stranger: payer, usdc, vault } = await loadFixture(deployFixture);
+
+    const maxValue = ethers.parseUnits("10", 6);
+    await usdc.mint(payer.address, maxValue * 2n);
+
+    const { owner, deadline, v, r, s } = await signPermit(payer, usdc, await vault.getAddress(), maxValue);
+
+    await expect(
+      vault.connect(facilitator).settleWithPermit(author.address, owner, maxValue, maxValue + 1n, deadline, v, r, s)
+    ).to.be.revertedWith("Amount exceeds permit");
+  });
 });
@@ -13,8 +13,7 @@
 import { GoogleGenerativeAI, SchemaType, type FunctionDeclarationsTool, type Part } from '@google/generative-ai';
 import * as readline from 'readline';
 import { config } from './config/index.js';
-import { executeTool } from './client/index.js';
-import { getWalletAddress } from './signer/index.js';
+import { executeTool, getPayer } from './client/index.js';
 
 const genAI = new GoogleGenerativeAI(config.google.apiKey);
 
@@ -28,6 +27,9 @@ Your capabilities:
 3. Purchase products using USDC cryptocurrency
 4. Check the user's spending policy and limits
 5. Authorize merchants for automatic payments
+6. Check on a payment that is waiting for the user's approval
+
+Some payments are held until the user approves them. Tell the user the reason and the payment ID, and do not retry the purchase.
 
 When a user wants to buy something:
 1. First, list the products or get product details to confirm availability
@@ -77,6 +79,20 @@ const tools: FunctionDeclarationsTool[] = [
           required: ['productId'],
         },
       },
+      {
+        name: 'get_payment_status',
+        description: 'Check a payment that is waiting for the user\'s approval, or being settled',
+        parameters: {
+          type: SchemaType.OBJECT,
+          properties: {
+            paymentId: {
+              type: SchemaType.STRING,
+              description: 'The payment ID returned by purchase_product',
+            },
+          },
+          required: ['paymentId'],
+        },
+      },
       {
         name: 'get_spending_policy',
         description: 'Get the current spending policy and limits for the user wallet',
@@ -143,7 +159,7 @@ async function processMessage(userMessage: string): Promise<string> {
 }
 
 async function main(): Promise<void> {
-  const walletAddress = getWalletAddress(config.user.privateKey);
+  const walletAddress = getPayer().userAddress;
 
   console.log('');
   console.log('╔══════════════════════════════════════════════════════════════╗');
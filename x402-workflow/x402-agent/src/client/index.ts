@@ -5,8 +5,22 @@
  */
 
 import { config } from '../config/index.js';
-import { signPayment, getWalletAddress } from '../signer/index.js';
+import {
+  signPayment,
+  signAuthorizeMerchant,
+  signGrantSessionKey,
+  signAcceptSessionKey,
+  signRevokeSessionKey,
+  signPaymentDecision,
+  signSetBudget,
+  signSetSpendingWindows,
+  getWalletAddress,
+} from '../signer/index.js';
 import type {
+  PolicyDomain,
+  SessionKeyGrant,
+  SpendingBudget,
+  SpendingWindow,
   Product,
   PaymentRequiredResponse,
   PaymentChallenge,
@@ -16,6 +30,46 @@ import type {
   ToolResult,
 } from '../types/index.js';
 
+/**
+ * The wallet the agent pays for, and the key it signs payments with:
+ * the session key when one is configured, otherwise the user's own key
+ */
+export function getPayer(): { userAddress: `0x${string}`; signingKey: `0x${string}`; sessionKey?: `0x${string}` } {
+  if (config.sessionKey.privateKey) {
+    return {
+      userAddress: config.user.address!,
+      signingKey: config.sessionKey.privateKey,
+      sessionKey: getWalletAddress(config.sessionKey.privateKey),
+    };
+  }
+  return { userAddress: getWalletAddress(config.user.privateKey!), signingKey: config.user.privateKey! };
+}
+
+/**
+ * The user's own key, needed to sign policy changes (a session key cannot)
+ */
+function requireUserKey(): `0x${string}` {
+  if (!config.user.privateKey) {
+    throw new Error('Policy changes must be signed by the user wallet (USER_PRIVATE_KEY is not set)');
+  }
+  return config.user.privateKey;
+}
+
+let policyDomain: PolicyDomain | null = null;
+
+/**
+ * The facilitator deployment policy changes are signed for (fetched once)
+ */
+async function getPolicyDomain(): Promise<PolicyDomain> {
+  if (!policyDomain) {
+    const response = await fetch(`${config.services.facilitatorUrl}/api/policy-domain`);
+    if (!response.ok) throw new Error(`Could not get the policy signing domain: ${response.status}`);
+    const { chainId, verifyingContract, salt } = await response.json() as PolicyDomain;
+    policyDomain = { chainId, verifyingContract, ...(salt ? { salt } : {}) };
+  }
+  return policyDomain;
+}
+
 /**
  * List available products from merchant
  */
@@ -54,10 +108,10 @@ export async function getProduct(productId: string): Promise<ToolResult> {
  * 4. Return result
  */
 export async function purchaseProduct(productId: string): Promise<PurchaseResult> {
-  const userAddress = getWalletAddress(config.user.privateKey);
+  const { userAddress, signingKey, sessionKey } = getPayer();
   
   console.log(`\n🛒 AI Agent: Purchasing ${productId}`);
-  console.log(`👛 Using wallet: ${userAddress}`);
+  console.log(`👛 Using wallet: ${userAddress}${sessionKey ? ` (session key ${sessionKey})` : ''}`);
 
   // Step 1: Get 402 challenge from merchant
   console.log('\n📤 Step 1: Requesting payment challenge from merchant...');
@@ -83,13 +137,14 @@ export async function purchaseProduct(productId: string): Promise<PurchaseResult
 
   // Step 2: Sign payment authorization
   console.log('\n🔐 Step 2: Creating signed payment authorization...');
-  const signedPayload = await signPayment(config.user.privateKey, challenge);
+  const signedPayload = await signPayment(signingKey, challenge);
   console.log(`   Signature: ${signedPayload.signature.slice(0, 20)}...`);
 
   // Step 3: Send to Facilitator for validation and execution
   console.log('\n📤 Step 3: Sending to Facilitator for validation...');
   const facilitatorRequest: FacilitatorRequest = {
     userAddress,
+    sessionKey,
     challenge: {
       merchantAddress: challenge.payTo,
       amount: challenge.maxAmountRequired,
@@ -98,6 +153,7 @@ export async function purchaseProduct(productId: string): Promise<PurchaseResult
       resource: challenge.resource,
       description: challenge.description,
       timeoutSeconds: challenge.maxTimeoutSeconds,
+      extra: challenge.extra,
     },
     signedPayload,
   };
@@ -113,6 +169,17 @@ export async function purchaseProduct(productId: string): Promise<PurchaseResult
 
   const result = await facilitatorResponse.json() as FacilitatorResponse;
 
+  if (result.status === 'awaiting-approval' && result.paymentId) {
+    const reason = result.approval?.reason ?? 'Needs approval';
+    console.log(`\n⏳ Awaiting the user's approval: ${reason}`);
+    console.log(`   Payment: ${result.paymentId}`);
+    return {
+      success: false,
+      pendingApproval: { paymentId: result.paymentId, reason },
+      message: `Payment for ${productId} is waiting for the user's approval (${reason}). Check it later with get_payment_status.`,
+    };
+  }
+
   if (result.success) {
     console.log('\n✅ Purchase successful!');
     console.log(`   Transaction: ${result.transactionHash}`);
@@ -130,12 +197,28 @@ export async function purchaseProduct(productId: string): Promise<PurchaseResult
   }
 }
 
+/**
+ * Poll a payment (e.g. one held for approval) at the Facilitator
+ */
+export async function getPaymentStatus(paymentId: string): Promise<ToolResult> {
+  try {
+    const response = await fetch(`${config.services.facilitatorUrl}/api/payments/${encodeURIComponent(paymentId)}`);
+    const status = await response.json() as { error?: string };
+    if (!response.ok) {
+      return { success: false, error: status.error || `Status check failed: ${response.status}` };
+    }
+    return { success: true, data: status };
+  } catch (error) {
+    return { success: false, error: `Failed to get payment status: ${error}` };
+  }
+}
+
 /**
  * Get user's spending policy from Facilitator
  */
 export async function getUserPolicy(): Promise<ToolResult> {
   try {
-    const userAddress = getWalletAddress(config.user.privateKey);
+    const { userAddress } = getPayer();
     const response = await fetch(
       `${config.services.facilitatorUrl}/api/policy/${userAddress}`
     );
@@ -147,26 +230,179 @@ export async function getUserPolicy(): Promise<ToolResult> {
 }
 
 /**
- * Authorize a merchant for automatic payments
+ * Authorize a merchant for automatic payments (signed by the user's wallet)
  */
 export async function authorizeMerchant(merchantAddress: string): Promise<ToolResult> {
   try {
-    const userAddress = getWalletAddress(config.user.privateKey);
+    const userKey = requireUserKey();
+    const userAddress = getWalletAddress(userKey);
+    const signed = await signAuthorizeMerchant(userKey, await getPolicyDomain(), merchantAddress as `0x${string}`);
     const response = await fetch(
       `${config.services.facilitatorUrl}/api/policy/${userAddress}/authorize-merchant`,
       {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ merchantAddress }),
+        body: JSON.stringify({ merchantAddress, ...signed }),
       }
     );
-    const result = await response.json();
+    const result = await response.json() as { error?: string };
+    if (!response.ok) {
+      return { success: false, error: result.error || `Authorization failed: ${response.status}` };
+    }
     return { success: true, data: result };
   } catch (error) {
     return { success: false, error: `Failed to authorize merchant: ${error}` };
   }
 }
 
+/**
+ * Set (or with limit "0" remove) a per-merchant or per-category budget (signed by the user's wallet)
+ */
+export async function setBudget(budget: SpendingBudget): Promise<ToolResult> {
+  try {
+    const userKey = requireUserKey();
+    const signed = await signSetBudget(userKey, await getPolicyDomain(), budget);
+    const response = await fetch(
+      `${config.services.facilitatorUrl}/api/policy/${getWalletAddress(userKey)}/budgets`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...budget, ...signed }),
+      }
+    );
+    const result = await response.json() as { error?: string };
+    if (!response.ok) {
+      return { success: false, error: result.error || `Budget update failed: ${response.status}` };
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    return { success: false, error: `Failed to set budget: ${error}` };
+  }
+}
+
+/**
+ * Replace the user's spending windows (an empty list restores the default rolling 24h window)
+ */
+export async function setSpendingWindows(windows: SpendingWindow[], timezone = 'UTC'): Promise<ToolResult> {
+  try {
+    const userKey = requireUserKey();
+    const signed = await signSetSpendingWindows(userKey, await getPolicyDomain(), timezone, windows);
+    const response = await fetch(
+      `${config.services.facilitatorUrl}/api/policy/${getWalletAddress(userKey)}/spending-windows`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone, windows, ...signed }),
+      }
+    );
+    const result = await response.json() as { error?: string };
+    if (!response.ok) {
+      return { success: false, error: result.error || `Spending window update failed: ${response.status}` };
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    return { success: false, error: `Failed to set spending windows: ${error}` };
+  }
+}
+
+/**
+ * Delegate a session key to an agent (signed by the user's wallet and co-signed
+ * by the key, SESSION_KEY_PRIVATE_KEY unless given)
+ */
+export async function grantSessionKey(
+  grant: SessionKeyGrant,
+  sessionKeyPrivateKey = config.sessionKey.privateKey
+): Promise<ToolResult> {
+  try {
+    const userKey = requireUserKey();
+    if (!sessionKeyPrivateKey || getWalletAddress(sessionKeyPrivateKey).toLowerCase() !== grant.sessionKey.toLowerCase()) {
+      return { success: false, error: `The private key of session key ${grant.sessionKey} is needed to accept the grant` };
+    }
+    const policyDomain = await getPolicyDomain();
+    const signed = await signGrantSessionKey(userKey, policyDomain, grant);
+    const sessionKeySignature = await signAcceptSessionKey(
+      sessionKeyPrivateKey, policyDomain, getWalletAddress(userKey), grant.validUntil, signed
+    );
+    const response = await fetch(
+      `${config.services.facilitatorUrl}/api/policy/${getWalletAddress(userKey)}/session-keys`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...grant, merchants: grant.merchants ?? [], domains: grant.domains ?? [], ...signed, sessionKeySignature }),
+      }
+    );
+    const result = await response.json() as { error?: string };
+    if (!response.ok) {
+      return { success: false, error: result.error || `Grant failed: ${response.status}` };
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    return { success: false, error: `Failed to grant session key: ${error}` };
+  }
+}
+
+/**
+ * Revoke a session key; the facilitator refuses its payments from then on
+ */
+export async function revokeSessionKey(sessionKey: `0x${string}`): Promise<ToolResult> {
+  try {
+    const userKey = requireUserKey();
+    const signed = await signRevokeSessionKey(userKey, await getPolicyDomain(), sessionKey);
+    const response = await fetch(
+      `${config.services.facilitatorUrl}/api/policy/${getWalletAddress(userKey)}/session-keys/${sessionKey}`,
+      {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(signed),
+      }
+    );
+    const result = await response.json() as { error?: string };
+    if (!response.ok) {
+      return { success: false, error: result.error || `Revocation failed: ${response.status}` };
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    return { success: false, error: `Failed to revoke session key: ${error}` };
+  }
+}
+
+/**
+ * List payments held for the user's approval
+ */
+export async function listPendingApprovals(): Promise<ToolResult> {
+  try {
+    const { userAddress } = getPayer();
+    const response = await fetch(`${config.services.facilitatorUrl}/api/approvals/${userAddress}`);
+    return { success: true, data: await response.json() };
+  } catch (error) {
+    return { success: false, error: `Failed to list approvals: ${error}` };
+  }
+}
+
+/**
+ * Approve or deny a held payment (signed by the user's wallet)
+ */
+export async function decidePayment(paymentId: string, approved: boolean): Promise<ToolResult> {
+  try {
+    const signed = await signPaymentDecision(requireUserKey(), await getPolicyDomain(), paymentId, approved);
+    const response = await fetch(
+      `${config.services.facilitatorUrl}/api/approvals/${encodeURIComponent(paymentId)}/${approved ? 'approve' : 'deny'}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(signed),
+      }
+    );
+    const result = await response.json() as { error?: string };
+    if (!response.ok) {
+      return { success: false, error: result.error || `Decision failed: ${response.status}` };
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    return { success: false, error: `Failed to ${approved ? 'approve' : 'deny'} payment: ${error}` };
+  }
+}
+
 // Tool definitions for Claude
 export const toolDefinitions = [
   {
@@ -206,6 +442,20 @@ export const toolDefinitions = [
       required: ['productId'],
     },
   },
+  {
+    name: 'get_payment_status',
+    description: 'Check a payment that is waiting for the user\'s approval, or being settled',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        paymentId: {
+          type: 'string',
+          description: 'The payment ID returned by purchase_product',
+        },
+      },
+      required: ['paymentId'],
+    },
+  },
   {
     name: 'get_spending_policy',
     description: 'Get the current spending policy and limits for the user wallet',
@@ -245,6 +495,8 @@ export async function executeTool(
       return getProduct(input.productId as string);
     case 'purchase_product':
       return purchaseProduct(input.productId as string);
+    case 'get_payment_status':
+      return getPaymentStatus(input.paymentId as string);
     case 'get_spending_policy':
       return getUserPolicy();
     case 'authorize_merchant':
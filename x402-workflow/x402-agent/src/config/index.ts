@@ -17,12 +17,21 @@ function getOptionalEnv(key: string, defaultValue: string): string {
   return process.env[key] || defaultValue;
 }
 
+// With a session key the agent pays as the key and never needs the user's private key
+const sessionKey = process.env.SESSION_KEY_PRIVATE_KEY as `0x${string}` | undefined;
+
 export const config = {
   google: {
     apiKey: getRequiredEnv('GOOGLE_AI_API_KEY'),
   },
   user: {
-    privateKey: getRequiredEnv('USER_PRIVATE_KEY') as `0x${string}`,
+    /** Signs payments without a session key, and policy changes */
+    privateKey: (sessionKey ? process.env.USER_PRIVATE_KEY : getRequiredEnv('USER_PRIVATE_KEY')) as `0x${string}` | undefined,
+    /** Wallet the session key was delegated by */
+    address: (sessionKey ? getRequiredEnv('USER_ADDRESS') : undefined) as `0x${string}` | undefined,
+  },
+  sessionKey: {
+    privateKey: sessionKey,
   },
   services: {
     merchantUrl: getOptionalEnv('MERCHANT_URL', 'http://localhost:3000'),
@@ -4,19 +4,36 @@
 
 export const NETWORKS = {
   AVALANCHE_FUJI: 'avalanche-fuji',
+  AVALANCHE_MAINNET: 'avalanche-mainnet',
+  BASE_SEPOLIA: 'base-sepolia',
+  BASE_MAINNET: 'base-mainnet',
 } as const;
 
 export const CHAIN_IDS: Record<string, number> = {
   [NETWORKS.AVALANCHE_FUJI]: 43113,
+  [NETWORKS.AVALANCHE_MAINNET]: 43114,
+  [NETWORKS.BASE_SEPOLIA]: 84532,
+  [NETWORKS.BASE_MAINNET]: 8453,
 };
 
 export const USDC_ADDRESSES: Record<string, `0x${string}`> = {
   [NETWORKS.AVALANCHE_FUJI]: '0x5425890298aed601595a70AB815c96711a31Bc65',
+  [NETWORKS.AVALANCHE_MAINNET]: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+  [NETWORKS.BASE_SEPOLIA]: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  [NETWORKS.BASE_MAINNET]: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+};
+
+// USDC EIP-712 domain name per network (version is "2" everywhere)
+export const USDC_DOMAIN_NAMES: Record<string, string> = {
+  [NETWORKS.AVALANCHE_FUJI]: 'USD Coin',
+  [NETWORKS.AVALANCHE_MAINNET]: 'USD Coin',
+  [NETWORKS.BASE_SEPOLIA]: 'USDC',
+  [NETWORKS.BASE_MAINNET]: 'USD Coin',
 };
 
 // EIP-712 domain for USDC
-export const getEIP712Domain = (chainId: number, usdcAddress: `0x${string}`) => ({
-  name: 'USD Coin',
+export const getEIP712Domain = (chainId: number, usdcAddress: `0x${string}`, name = 'USD Coin') => ({
+  name,
   version: '2',
   chainId: BigInt(chainId),
   verifyingContract: usdcAddress,
@@ -32,3 +49,115 @@ export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
     { name: 'nonce', type: 'bytes32' },
   ],
 } as const;
+
+// Signed when a challenge pays the vault directly (extra.authorizationType)
+export const RECEIVE_WITH_AUTHORIZATION_TYPES = {
+  ReceiveWithAuthorization: TRANSFER_WITH_AUTHORIZATION_TYPES.TransferWithAuthorization,
+} as const;
+
+export const AUTHORIZATION_TYPES = {
+  TRANSFER: 'transferWithAuthorization',
+  RECEIVE: 'receiveWithAuthorization',
+} as const;
+
+// EIP-712 domain and types for policy changes the facilitator accepts from the user's wallet
+// (the facilitator's /api/policy-domain adds its chainId, verifyingContract and salt)
+export const POLICY_EIP712_DOMAIN = {
+  name: 'x402 Facilitator',
+  version: '1',
+} as const;
+
+export const POLICY_UPDATE_TYPES = {
+  PolicyUpdate: [
+    { name: 'user', type: 'address' },
+    { name: 'maxTransactionAmount', type: 'uint256' },
+    { name: 'dailySpendingLimit', type: 'uint256' },
+    { name: 'autoPayEnabled', type: 'bool' },
+    { name: 'approvalThreshold', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+export const AUTHORIZE_MERCHANT_TYPES = {
+  AuthorizeMerchant: [
+    { name: 'user', type: 'address' },
+    { name: 'merchant', type: 'address' },
+    { name: 'domain', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+export const GRANT_SESSION_KEY_TYPES = {
+  GrantSessionKey: [
+    { name: 'user', type: 'address' },
+    { name: 'sessionKey', type: 'address' },
+    { name: 'budget', type: 'uint256' },
+    { name: 'merchants', type: 'address[]' },
+    { name: 'domains', type: 'string[]' },
+    { name: 'validUntil', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+/** Co-signed by the session key with the grant's nonce and expiry */
+export const ACCEPT_SESSION_KEY_TYPES = {
+  AcceptSessionKey: [
+    { name: 'user', type: 'address' },
+    { name: 'sessionKey', type: 'address' },
+    { name: 'validUntil', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+export const REVOKE_SESSION_KEY_TYPES = {
+  RevokeSessionKey: [
+    { name: 'user', type: 'address' },
+    { name: 'sessionKey', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+export const SET_BUDGET_TYPES = {
+  SetBudget: [
+    { name: 'user', type: 'address' },
+    { name: 'scope', type: 'string' },
+    { name: 'target', type: 'string' },
+    { name: 'period', type: 'string' },
+    { name: 'limit', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+export const SET_SPENDING_WINDOWS_TYPES = {
+  SpendingWindow: [
+    { name: 'kind', type: 'string' },
+    { name: 'durationSeconds', type: 'uint256' },
+    { name: 'limit', type: 'uint256' },
+  ],
+  SetSpendingWindows: [
+    { name: 'user', type: 'address' },
+    { name: 'timezone', type: 'string' },
+    { name: 'windows', type: 'SpendingWindow[]' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+export const PAYMENT_DECISION_TYPES = {
+  PaymentDecision: [
+    { name: 'user', type: 'address' },
+    { name: 'paymentId', type: 'string' },
+    { name: 'approved', type: 'bool' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+// Policy change signatures are sent right away, so they expire quickly
+export const POLICY_SIGNATURE_TTL_SECONDS = 300;
@@ -2,6 +2,9 @@
  * Payment Signer
  * 
  * Creates EIP-712 signed payment authorizations.
+ *
+ * Policy changes are signed in the facilitator deployment's domain
+ * (`policyDomain`, from its GET /api/policy-domain).
  */
 
 import { privateKeyToAccount, signTypedData } from 'viem/accounts';
@@ -9,10 +12,25 @@ import {
   CHAIN_IDS,
   USDC_ADDRESSES,
   NETWORKS,
+  USDC_DOMAIN_NAMES,
   getEIP712Domain,
   TRANSFER_WITH_AUTHORIZATION_TYPES,
+  RECEIVE_WITH_AUTHORIZATION_TYPES,
+  AUTHORIZATION_TYPES,
+  POLICY_EIP712_DOMAIN,
+  POLICY_UPDATE_TYPES,
+  AUTHORIZE_MERCHANT_TYPES,
+  GRANT_SESSION_KEY_TYPES,
+  ACCEPT_SESSION_KEY_TYPES,
+  REVOKE_SESSION_KEY_TYPES,
+  PAYMENT_DECISION_TYPES,
+  SET_BUDGET_TYPES,
+  SET_SPENDING_WINDOWS_TYPES,
+  POLICY_SIGNATURE_TTL_SECONDS,
 } from '../constants/index.js';
-import type { PaymentChallenge, SignedPayload } from '../types/index.js';
+import type {
+  PaymentChallenge, SignedPayload, PolicySettings, PolicyDomain, SignedPolicyChange, SessionKeyGrant, SpendingBudget, SpendingWindow,
+} from '../types/index.js';
 
 /**
  * Generate random bytes32 nonce
@@ -25,6 +43,9 @@ function generateNonce(): `0x${string}` {
 
 /**
  * Create signed payment authorization
+ *
+ * Signs a ReceiveWithAuthorization when the challenge asks for one
+ * (`extra.authorizationType`), so the vault can redeem it in one transaction.
  */
 export async function signPayment(
   privateKey: `0x${string}`,
@@ -49,15 +70,23 @@ export async function signPayment(
     nonce,
   };
 
-  const domain = getEIP712Domain(chainId, usdcAddress);
+  const domain = getEIP712Domain(chainId, usdcAddress, USDC_DOMAIN_NAMES[challenge.network]);
 
-  const signature = await signTypedData({
-    privateKey,
-    domain,
-    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
-    primaryType: 'TransferWithAuthorization',
-    message: authorization,
-  });
+  const signature = challenge.extra?.authorizationType === AUTHORIZATION_TYPES.RECEIVE
+    ? await signTypedData({
+      privateKey,
+      domain,
+      types: RECEIVE_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'ReceiveWithAuthorization',
+      message: authorization,
+    })
+    : await signTypedData({
+      privateKey,
+      domain,
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: authorization,
+    });
 
   return {
     signature,
@@ -72,6 +101,220 @@ export async function signPayment(
   };
 }
 
+/**
+ * Nonce (random uint256) and expiry for a policy change signature
+ */
+function policyChangeFields(): { nonce: bigint; expiry: bigint } {
+  return {
+    nonce: BigInt(generateNonce()),
+    expiry: BigInt(Math.floor(Date.now() / 1000) + POLICY_SIGNATURE_TTL_SECONDS),
+  };
+}
+
+/**
+ * Sign new spending policy settings for POST /api/policy/:userAddress
+ */
+export async function signPolicyUpdate(
+  privateKey: `0x${string}`,
+  policyDomain: PolicyDomain,
+  settings: PolicySettings
+): Promise<SignedPolicyChange> {
+  const { nonce, expiry } = policyChangeFields();
+  const signature = await signTypedData({
+    privateKey,
+    domain: { ...POLICY_EIP712_DOMAIN, ...policyDomain },
+    types: POLICY_UPDATE_TYPES,
+    primaryType: 'PolicyUpdate',
+    message: {
+      user: privateKeyToAccount(privateKey).address,
+      maxTransactionAmount: BigInt(settings.maxTransactionAmount),
+      dailySpendingLimit: BigInt(settings.dailySpendingLimit),
+      autoPayEnabled: settings.autoPayEnabled,
+      approvalThreshold: BigInt(settings.approvalThreshold ?? '0'),
+      nonce,
+      expiry,
+    },
+  });
+  return { nonce: nonce.toString(), expiry: Number(expiry), signature };
+}
+
+/**
+ * Sign a merchant (and/or domain) authorization for POST /api/policy/:userAddress/authorize-merchant
+ */
+export async function signAuthorizeMerchant(
+  privateKey: `0x${string}`,
+  policyDomain: PolicyDomain,
+  merchantAddress?: `0x${string}`,
+  domain?: string
+): Promise<SignedPolicyChange> {
+  const { nonce, expiry } = policyChangeFields();
+  const signature = await signTypedData({
+    privateKey,
+    domain: { ...POLICY_EIP712_DOMAIN, ...policyDomain },
+    types: AUTHORIZE_MERCHANT_TYPES,
+    primaryType: 'AuthorizeMerchant',
+    message: {
+      user: privateKeyToAccount(privateKey).address,
+      merchant: merchantAddress ?? '0x0000000000000000000000000000000000000000',
+      domain: domain ?? '',
+      nonce,
+      expiry,
+    },
+  });
+  return { nonce: nonce.toString(), expiry: Number(expiry), signature };
+}
+
+/**
+ * Sign a budget for POST /api/policy/:userAddress/budgets
+ */
+export async function signSetBudget(
+  privateKey: `0x${string}`,
+  policyDomain: PolicyDomain,
+  budget: SpendingBudget
+): Promise<SignedPolicyChange> {
+  const { nonce, expiry } = policyChangeFields();
+  const signature = await signTypedData({
+    privateKey,
+    domain: { ...POLICY_EIP712_DOMAIN, ...policyDomain },
+    types: SET_BUDGET_TYPES,
+    primaryType: 'SetBudget',
+    message: {
+      user: privateKeyToAccount(privateKey).address,
+      scope: budget.scope,
+      target: budget.target,
+      period: budget.period,
+      limit: BigInt(budget.limit),
+      nonce,
+      expiry,
+    },
+  });
+  return { nonce: nonce.toString(), expiry: Number(expiry), signature };
+}
+
+/**
+ * Sign spending windows for POST /api/policy/:userAddress/spending-windows
+ * (calendar windows are signed with durationSeconds 0)
+ */
+export async function signSetSpendingWindows(
+  privateKey: `0x${string}`,
+  policyDomain: PolicyDomain,
+  timezone: string,
+  windows: SpendingWindow[]
+): Promise<SignedPolicyChange> {
+  const { nonce, expiry } = policyChangeFields();
+  const signature = await signTypedData({
+    privateKey,
+    domain: { ...POLICY_EIP712_DOMAIN, ...policyDomain },
+    types: SET_SPENDING_WINDOWS_TYPES,
+    primaryType: 'SetSpendingWindows',
+    message: {
+      user: privateKeyToAccount(privateKey).address,
+      timezone,
+      windows: windows.map(window => ({
+        kind: window.kind,
+        durationSeconds: BigInt(window.durationSeconds ?? 0),
+        limit: BigInt(window.limit),
+      })),
+      nonce,
+      expiry,
+    },
+  });
+  return { nonce: nonce.toString(), expiry: Number(expiry), signature };
+}
+
+/**
+ * Sign a session key delegation for POST /api/policy/:userAddress/session-keys
+ */
+export async function signGrantSessionKey(
+  privateKey: `0x${string}`,
+  policyDomain: PolicyDomain,
+  grant: SessionKeyGrant
+): Promise<SignedPolicyChange> {
+  const { nonce, expiry } = policyChangeFields();
+  const signature = await signTypedData({
+    privateKey,
+    domain: { ...POLICY_EIP712_DOMAIN, ...policyDomain },
+    types: GRANT_SESSION_KEY_TYPES,
+    primaryType: 'GrantSessionKey',
+    message: {
+      user: privateKeyToAccount(privateKey).address,
+      sessionKey: grant.sessionKey,
+      budget: BigInt(grant.budget),
+      merchants: grant.merchants ?? [],
+      domains: grant.domains ?? [],
+      validUntil: BigInt(grant.validUntil),
+      nonce,
+      expiry,
+    },
+  });
+  return { nonce: nonce.toString(), expiry: Number(expiry), signature };
+}
+
+/**
+ * Sign the session key's consent to a grant (sessionKeySignature), with the
+ * nonce and expiry of the user's GrantSessionKey signature
+ */
+export async function signAcceptSessionKey(
+  sessionKeyPrivateKey: `0x${string}`,
+  policyDomain: PolicyDomain,
+  userAddress: `0x${string}`,
+  validUntil: number,
+  grant: SignedPolicyChange
+): Promise<`0x${string}`> {
+  return signTypedData({
+    privateKey: sessionKeyPrivateKey,
+    domain: { ...POLICY_EIP712_DOMAIN, ...policyDomain },
+    types: ACCEPT_SESSION_KEY_TYPES,
+    primaryType: 'AcceptSessionKey',
+    message: {
+      user: userAddress,
+      sessionKey: privateKeyToAccount(sessionKeyPrivateKey).address,
+      validUntil: BigInt(validUntil),
+      nonce: BigInt(grant.nonce),
+      expiry: BigInt(grant.expiry),
+    },
+  });
+}
+
+/**
+ * Sign a session key revocation for DELETE /api/policy/:userAddress/session-keys/:sessionKey
+ */
+export async function signRevokeSessionKey(
+  privateKey: `0x${string}`,
+  policyDomain: PolicyDomain,
+  sessionKey: `0x${string}`
+): Promise<SignedPolicyChange> {
+  const { nonce, expiry } = policyChangeFields();
+  const signature = await signTypedData({
+    privateKey,
+    domain: { ...POLICY_EIP712_DOMAIN, ...policyDomain },
+    types: REVOKE_SESSION_KEY_TYPES,
+    primaryType: 'RevokeSessionKey',
+    message: { user: privateKeyToAccount(privateKey).address, sessionKey, nonce, expiry },
+  });
+  return { nonce: nonce.toString(), expiry: Number(expiry), signature };
+}
+
+/**
+ * Sign an approval or denial for POST /api/approvals/:paymentId/approve (or /deny)
+ */
+export async function signPaymentDecision(
+  privateKey: `0x${string}`,
+  policyDomain: PolicyDomain,
+  paymentId: string,
+  approved: boolean
+): Promise<SignedPolicyChange> {
+  const { nonce, expiry } = policyChangeFields();
+  const signature = await signTypedData({
+    privateKey,
+    domain: { ...POLICY_EIP712_DOMAIN, ...policyDomain },
+    types: PAYMENT_DECISION_TYPES,
+    primaryType: 'PaymentDecision',
+    message: { user: privateKeyToAccount(privateKey).address, paymentId, approved, nonce, expiry },
+  });
+  return { nonce: nonce.toString(), expiry: Number(expiry), signature };
+}
+
 /**
  * Get wallet address from private key
  */
@@ -34,6 +34,8 @@ export interface SignedPayload {
 
 export interface FacilitatorRequest {
   userAddress: `0x${string}`;
+  // Set when the agent signs with a session key (the authorization's `from`)
+  sessionKey?: `0x${string}`;
   challenge: {
     merchantAddress: `0x${string}`;
     merchantDomain?: string;
@@ -43,15 +45,68 @@ export interface FacilitatorRequest {
     resource: string;
     description: string;
     timeoutSeconds: number;
+    extra?: Record<string, unknown>;
   };
   signedPayload: SignedPayload;
 }
 
+// Spending policy settings, signed as a whole for POST /api/policy/:userAddress
+export interface PolicySettings {
+  maxTransactionAmount: string;
+  dailySpendingLimit: string;
+  autoPayEnabled: boolean;
+  // Payments above this are held for approval ("0" or omitted: none)
+  approvalThreshold?: string;
+}
+
+// Daily or monthly budget for a merchant (by author address) or a merchant category (limit "0" removes it)
+export interface SpendingBudget {
+  scope: 'merchant' | 'category';
+  target: string;
+  period: 'day' | 'month';
+  limit: string;
+}
+
+// Spending limit over a rolling duration or the calendar day, week or month in the user's timezone
+export interface SpendingWindow {
+  kind: 'rolling' | 'day' | 'week' | 'month';
+  durationSeconds?: number;
+  limit: string;
+}
+
+// Limits of a session key delegated to an agent (budget in base units, validUntil in Unix seconds)
+export interface SessionKeyGrant {
+  sessionKey: `0x${string}`;
+  budget: string;
+  merchants?: `0x${string}`[];
+  domains?: string[];
+  validUntil: number;
+}
+
+// The deployment a policy change is signed for (GET /api/policy-domain on the facilitator)
+export interface PolicyDomain {
+  chainId: number;
+  verifyingContract: `0x${string}`;
+  salt?: `0x${string}`;
+}
+
+// Sent with every policy change; the facilitator rejects reused nonces and expired signatures
+export interface SignedPolicyChange {
+  nonce: string;
+  expiry: number;
+  signature: `0x${string}`;
+}
+
 export interface FacilitatorResponse {
   success: boolean;
   transactionHash?: `0x${string}`;
   error?: string;
   errorCode?: string;
+  paymentId?: string;
+  // "awaiting-approval" when the payment is held for the user's decision (HTTP 202)
+  status?: string;
+  approval?: { reason: string };
+  statusUrl?: string;
 }
 
 export interface Product {
@@ -64,6 +119,8 @@ export interface Product {
 
 export interface PurchaseResult {
   success: boolean;
+  // Set when the payment is waiting for the user's approval
+  pendingApproval?: { paymentId: string; reason: string };
   message?: string;
   transactionHash?: string;
   product?: Product;
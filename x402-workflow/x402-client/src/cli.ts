@@ -10,6 +10,7 @@
 
 import { env } from './config/index.js';
 import { X402Client } from './client/index.js';
+import { createPaymentSelector } from './selector/index.js';
 
 async function main(): Promise<void> {
   // Get product ID from command line
@@ -35,6 +36,7 @@ async function main(): Promise<void> {
   const client = new X402Client({
     merchantUrl: env.merchantUrl,
     privateKey: env.privateKey,
+    selector: createPaymentSelector({ prefer: env.paymentPreference }),
   });
 
   console.log('═══════════════════════════════════════════════════════════════');
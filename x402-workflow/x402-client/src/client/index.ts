@@ -1,8 +1,8 @@
 /**
  * x402 Client
  * 
- * HTTP client for interacting with x402-enabled merchants.
- * Handles the full payment flow:
+ * HTTP client for interacting with x402-enabled merchants and any other
+ * x402-paywalled resource. Handles the full payment flow:
  * 1. Send initial request
  * 2. Parse 402 Payment Required response
  * 3. Create signed payment authorization
@@ -10,12 +10,15 @@
  */
 
 import { HTTP_HEADERS, HTTP_STATUS } from '../constants/index.js';
-import { createPaymentAuthorization, encodePaymentHeader, getSignerAddress } from '../signer/index.js';
+import { createPaymentAuthorization, encodePaymentHeader, decodePaymentResponse, getSignerAddress } from '../signer/index.js';
+import { createPaymentSelector, formatRejections } from '../selector/index.js';
 import type { 
   ClientConfig, 
   PaymentRequiredResponse, 
   PurchaseResult,
-  PaymentRequirement,
+  PaymentSelector,
+  FetchOptions,
+  FetchResult,
 } from '../types/index.js';
 
 /**
@@ -26,9 +29,11 @@ import type {
  */
 export class X402Client {
   private config: ClientConfig;
+  private selector: PaymentSelector;
 
   constructor(config: ClientConfig) {
     this.config = config;
+    this.selector = config.selector ?? createPaymentSelector();
   }
 
   /**
@@ -39,61 +44,70 @@ export class X402Client {
   }
 
   /**
-   * Purchase a product from the merchant
-   * 
+   * Fetch any HTTP resource, paying for it when the server answers 402
+   *
    * This method handles the complete x402 flow:
-   * 1. Sends POST request to the purchase endpoint
-   * 2. If 402 received, parses payment requirements
-   * 3. Creates EIP-712 signed payment authorization
-   * 4. Resends request with X-PAYMENT header
-   * 
-   * @param productId - The product ID to purchase
-   * @returns Purchase result with success status and data
+   * 1. Sends the request as given (any method and body)
+   * 2. If 402 received, selects a payment option
+   * 3. Asks the approval hook, if any, whether to pay it
+   * 4. Creates EIP-712 signed payment authorization
+   * 5. Resends the request with X-PAYMENT header
+   *
+   * The final response is returned unread, so binary bodies (e.g. PDF pages)
+   * can be read with `arrayBuffer()`. A declined charge returns the 402
+   * response itself. Request bodies are sent twice, so streams are rejected.
+   *
+   * @param url - Resource URL
+   * @param init - Standard fetch options
+   * @param options - Per-request approval hook (overrides the client's)
+   * @returns The response, the option paid and the decoded X-PAYMENT-RESPONSE
    */
-  async purchase(productId: string): Promise<PurchaseResult> {
-    const url = `${this.config.merchantUrl}/api/buy/${productId}`;
-    
-    console.log(`\n🛒 Initiating purchase for: ${productId}`);
-    console.log(`📍 URL: ${url}`);
-    console.log(`👛 Wallet: ${this.getAddress()}`);
+  async fetch(url: string, init: RequestInit = {}, options: FetchOptions = {}): Promise<FetchResult> {
+    if (init.body instanceof ReadableStream) {
+      throw new Error('Streaming request bodies cannot be re-sent after a 402; pass the body as a string or bytes');
+    }
 
-    // Step 1: Send initial request (will get 402)
-    console.log('\n📤 Sending initial request...');
-    const initialResponse = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-    });
+    // Step 1: Send initial request
+    console.log(`\n📤 ${init.method ?? 'GET'} ${url}`);
+    const initialResponse = await globalThis.fetch(url, init);
 
     // If not 402, return the response as-is
     if (initialResponse.status !== HTTP_STATUS.PAYMENT_REQUIRED) {
-      const data = await initialResponse.json();
-      console.log(`⚠️ Unexpected status: ${initialResponse.status}`);
-      return {
-        success: initialResponse.ok,
-        statusCode: initialResponse.status,
-        data,
-      };
+      return { response: initialResponse, requirement: null, paymentResponse: null, declined: false };
     }
 
-    // Step 2: Parse 402 response
+    // Step 2: Parse 402 response and select an option
     console.log('💰 Received 402 Payment Required');
-    const paymentRequired = await initialResponse.json() as PaymentRequiredResponse;
-    
+    const paymentRequired = await initialResponse.clone().json() as PaymentRequiredResponse;
+
     console.log(`📋 x402 Version: ${paymentRequired.x402Version}`);
-    console.log(`📋 Payment Options: ${paymentRequired.accepts.length}`);
+    console.log(`📋 Payment Options: ${paymentRequired.accepts?.length ?? 0}`);
 
-    if (paymentRequired.accepts.length === 0) {
+    if (!paymentRequired.accepts?.length) {
       throw new Error('No payment options available');
     }
 
-    // Step 3: Select first payment option and create authorization
-    const requirement = paymentRequired.accepts[0] as PaymentRequirement;
+    const { requirement, rejected } = await this.selector(paymentRequired.accepts, this.getAddress());
+    if (!requirement) {
+      throw new Error(`No usable payment option:\n${formatRejections(rejected)}`);
+    }
+    if (rejected.length > 0) {
+      console.log(`\n⏭️  Skipped ${rejected.length} option(s):\n${formatRejections(rejected)}`);
+    }
     console.log('\n📝 Payment Requirement:');
     console.log(`   Network: ${requirement.network}`);
     console.log(`   Amount: ${formatUSDC(requirement.maxAmountRequired)} USDC`);
     console.log(`   Pay To: ${requirement.payTo}`);
     console.log(`   Timeout: ${requirement.maxTimeoutSeconds}s`);
 
+    // Step 3: Let the caller approve or decline the charge before anything is signed
+    const approvePayment = options.approvePayment ?? this.config.approvePayment;
+    if (approvePayment && !(await approvePayment(requirement, { url, method: init.method ?? 'GET' }))) {
+      console.log('\n🚫 Payment declined');
+      return { response: initialResponse, requirement, paymentResponse: null, declined: true };
+    }
+
+    // Step 4: Create authorization
     console.log('\n🔐 Creating EIP-712 signed authorization...');
     const paymentPayload = await createPaymentAuthorization(
       this.config.privateKey,
@@ -105,35 +119,70 @@ export class X402Client {
     console.log(`   Value: ${paymentPayload.payload.authorization.value}`);
     console.log(`   Nonce: ${paymentPayload.payload.authorization.nonce.slice(0, 18)}...`);
 
-    // Step 4: Encode and send payment
+    // Step 5: Encode and send payment
     const paymentHeader = encodePaymentHeader(paymentPayload);
     console.log('\n📤 Sending payment authorization...');
     console.log(`   Header length: ${paymentHeader.length} chars`);
 
-    const paymentResponse = await fetch(url, {
+    const headers = new Headers(init.headers);
+    headers.set(HTTP_HEADERS.X_PAYMENT, paymentHeader);
+    const response = await globalThis.fetch(url, { ...init, headers });
+
+    const responseHeader = response.headers.get(HTTP_HEADERS.X_PAYMENT_RESPONSE);
+    return {
+      response,
+      requirement,
+      paymentResponse: responseHeader ? decodePaymentResponse(responseHeader) : null,
+      declined: false,
+    };
+  }
+
+  /**
+   * Purchase a product from the merchant
+   * 
+   * Sends POST to the purchase endpoint through `fetch`, paying the 402.
+   * 
+   * @param productId - The product ID to purchase
+   * @returns Purchase result with success status and data
+   */
+  async purchase(productId: string): Promise<PurchaseResult> {
+    const url = `${this.config.merchantUrl}/api/buy/${productId}`;
+    
+    console.log(`\n🛒 Initiating purchase for: ${productId}`);
+    console.log(`📍 URL: ${url}`);
+    console.log(`👛 Wallet: ${this.getAddress()}`);
+
+    const { response, requirement, paymentResponse, declined } = await this.fetch(url, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        [HTTP_HEADERS.X_PAYMENT]: paymentHeader,
-      },
+      headers: { 'Content-Type': 'application/json' },
     });
+    const data = await response.json();
 
-    const responseData = await paymentResponse.json();
+    if (declined) {
+      return { success: false, statusCode: response.status, data };
+    }
+
+    // No payment was asked for: return the response as-is
+    if (!requirement) {
+      console.log(`⚠️ Unexpected status: ${response.status}`);
+      return { success: response.ok, statusCode: response.status, data };
+    }
 
-    if (paymentResponse.ok) {
+    if (response.ok) {
       console.log('\n✅ Payment successful!');
       return {
         success: true,
-        statusCode: paymentResponse.status,
-        data: responseData,
-        receipt: responseData as PurchaseResult['receipt'],
+        statusCode: response.status,
+        data,
+        receipt: data as PurchaseResult['receipt'],
+        paymentResponse: paymentResponse ?? undefined,
       };
     } else {
-      console.log(`\n❌ Payment failed: ${paymentResponse.status}`);
+      console.log(`\n❌ Payment failed: ${response.status}`);
       return {
         success: false,
-        statusCode: paymentResponse.status,
-        data: responseData,
+        statusCode: response.status,
+        data,
       };
     }
   }
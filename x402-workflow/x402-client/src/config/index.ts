@@ -59,4 +59,15 @@ export const env = {
   get merchantUrl(): string {
     return getOptionalEnv('MERCHANT_URL', 'http://localhost:3000');
   },
+
+  /**
+   * How to choose among payment options: "cost" (cheapest) or "balance" (cheapest affordable)
+   */
+  get paymentPreference(): 'cost' | 'balance' {
+    const preference = getOptionalEnv('PAYMENT_PREFERENCE', 'cost');
+    if (preference !== 'cost' && preference !== 'balance') {
+      throw new Error(`Invalid PAYMENT_PREFERENCE: ${preference}. Must be "cost" or "balance".`);
+    }
+    return preference;
+  },
 };
@@ -49,6 +49,16 @@ export const RPC_URLS: Record<string, string> = {
  */
 export const X402_VERSION = 1;
 
+/**
+ * Payment schemes
+ * - "exact": EIP-3009 authorization for the full amount
+ * - "upto": EIP-2612 permit for a maximum; only the amount used is settled
+ */
+export const PAYMENT_SCHEMES = {
+  EXACT: 'exact',
+  UPTO: 'upto',
+} as const;
+
 /**
  * HTTP headers used in x402 protocol
  */
@@ -97,6 +107,57 @@ export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
   ],
 } as const;
 
+/**
+ * Signed instead when the requirement pays the vault directly (extra.authorizationType)
+ */
+export const RECEIVE_WITH_AUTHORIZATION_TYPES = {
+  ReceiveWithAuthorization: TRANSFER_WITH_AUTHORIZATION_TYPES.TransferWithAuthorization,
+} as const;
+
+export const AUTHORIZATION_TYPES = {
+  TRANSFER: 'transferWithAuthorization',
+  RECEIVE: 'receiveWithAuthorization',
+} as const;
+
+/**
+ * EIP-2612 Permit types for "upto" payments
+ */
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * Minimal ABI to read a token's permit nonce
+ */
+export const PERMIT_NONCES_ABI = [
+  {
+    name: 'nonces',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+/**
+ * Minimal ERC-20 ABI to read a payer's balance
+ */
+export const ERC20_BALANCE_ABI = [
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
 // =============================================================================
 // DEFAULTS
 // =============================================================================
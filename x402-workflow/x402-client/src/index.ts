@@ -5,6 +5,7 @@
  */
 
 export { X402Client } from './client/index.js';
-export { createPaymentAuthorization, encodePaymentHeader, getSignerAddress } from './signer/index.js';
+export { createPaymentAuthorization, encodePaymentHeader, decodePaymentResponse, getSignerAddress } from './signer/index.js';
+export { createPaymentSelector, formatRejections } from './selector/index.js';
 export * from './types/index.js';
 export * from './constants/index.js';
@@ -0,0 +1,105 @@
+/**
+ * x402 Payment Option Selection
+ *
+ * Picks which of a merchant's 402 payment options to pay with.
+ * Options the wallet cannot pay (unknown network, token or scheme, or not
+ * enough balance) are rejected with a reason; the rest are ranked by the
+ * selector's preference.
+ */
+
+import { createPublicClient, http } from 'viem';
+import { CHAIN_IDS, USDC_ADDRESSES, RPC_URLS, PAYMENT_SCHEMES, ERC20_BALANCE_ABI } from '../constants/index.js';
+import type { PaymentRequirement, PaymentSelector, SelectorOptions, OptionRejection } from '../types/index.js';
+
+/**
+ * Why the wallet cannot pay an option (null if it can, balance aside)
+ */
+function unsupportedReason(requirement: PaymentRequirement, options: SelectorOptions): string | null {
+  const networks = options.networks ?? Object.keys(CHAIN_IDS);
+  if (!networks.includes(requirement.network) || !CHAIN_IDS[requirement.network]) {
+    return `Network ${requirement.network} is not supported by this wallet`;
+  }
+
+  const schemes: string[] = Object.values(PAYMENT_SCHEMES);
+  if (!schemes.includes(requirement.scheme)) {
+    return `Scheme ${requirement.scheme} is not supported`;
+  }
+
+  // The signer signs for the network's USDC, so any other token cannot be paid
+  const token = options.assets?.[requirement.network] ?? USDC_ADDRESSES[requirement.network];
+  if (!token || token.toLowerCase() !== requirement.asset.toLowerCase()) {
+    return `Token ${requirement.asset} is not supported on ${requirement.network}`;
+  }
+
+  return null;
+}
+
+/**
+ * Read the payer's token balance for an option
+ */
+async function balanceOf(requirement: PaymentRequirement, payer: `0x${string}`): Promise<bigint> {
+  const publicClient = createPublicClient({ transport: http(RPC_URLS[requirement.network]) });
+  return publicClient.readContract({
+    address: requirement.asset,
+    abi: ERC20_BALANCE_ABI,
+    functionName: 'balanceOf',
+    args: [payer],
+  });
+}
+
+const byCost = (a: PaymentRequirement, b: PaymentRequirement) => {
+  const diff = BigInt(a.maxAmountRequired) - BigInt(b.maxAmountRequired);
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+};
+
+/**
+ * Create a payment option selector
+ *
+ * - `prefer: 'cost'` (default) picks the cheapest supported option
+ * - `prefer: 'balance'` also rejects options the payer cannot afford (one
+ *   balance read per option), then picks the cheapest of the rest
+ *
+ * @param options - Supported networks and tokens, and the preference
+ * @returns A selector for X402Client
+ */
+export function createPaymentSelector(options: SelectorOptions = {}): PaymentSelector {
+  return async (accepts, payer) => {
+    const rejected: OptionRejection[] = [];
+    let candidates: PaymentRequirement[] = [];
+
+    for (const requirement of accepts) {
+      const reason = unsupportedReason(requirement, options);
+      if (reason) rejected.push({ requirement, reason });
+      else candidates.push(requirement);
+    }
+
+    if (options.prefer === 'balance') {
+      const affordable: PaymentRequirement[] = [];
+      for (const requirement of candidates) {
+        try {
+          const balance = await balanceOf(requirement, payer);
+          if (balance >= BigInt(requirement.maxAmountRequired)) {
+            affordable.push(requirement);
+          } else {
+            rejected.push({ requirement, reason: `Insufficient balance on ${requirement.network}: ${balance} < ${requirement.maxAmountRequired}` });
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'unknown error';
+          rejected.push({ requirement, reason: `Could not read balance on ${requirement.network}: ${message}` });
+        }
+      }
+      candidates = affordable;
+    }
+
+    return { requirement: [...candidates].sort(byCost)[0] ?? null, rejected };
+  };
+}
+
+/**
+ * Describe rejected options, one per line
+ */
+export function formatRejections(rejected: OptionRejection[]): string {
+  return rejected
+    .map(({ requirement, reason }) => `   - ${requirement.network} ${requirement.maxAmountRequired} (${requirement.resource}): ${reason}`)
+    .join('\n');
+}
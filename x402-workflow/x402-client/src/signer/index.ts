@@ -2,19 +2,29 @@
  * x402 Payment Signer
  * 
  * Creates EIP-712 signed payment authorizations for x402 protocol.
- * Uses EIP-3009 TransferWithAuthorization for gasless USDC transfers.
+ * Uses EIP-3009 TransferWithAuthorization for gasless USDC transfers
+ * (ReceiveWithAuthorization when the requirement's extra.authorizationType asks
+ * for it), and an EIP-2612 permit for metered ("upto") payments.
  */
 
+import { createPublicClient, http, toHex } from 'viem';
 import { privateKeyToAccount, signTypedData } from 'viem/accounts';
 import { 
   CHAIN_IDS, 
   USDC_ADDRESSES, 
+  RPC_URLS,
+  PAYMENT_SCHEMES,
   getEIP712Domain, 
-  TRANSFER_WITH_AUTHORIZATION_TYPES 
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  RECEIVE_WITH_AUTHORIZATION_TYPES,
+  AUTHORIZATION_TYPES,
+  PERMIT_TYPES,
+  PERMIT_NONCES_ABI,
 } from '../constants/index.js';
 import type { 
   PaymentRequirement, 
   PaymentPayload, 
+  PaymentResponse,
   EIP3009Authorization 
 } from '../types/index.js';
 
@@ -27,6 +37,70 @@ function generateNonce(): `0x${string}` {
   return `0x${Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')}` as `0x${string}`;
 }
 
+/**
+ * Sign an EIP-2612 permit letting the spender (payTo) pull up to maxAmountRequired
+ *
+ * The permit is carried in the authorization fields: `to` is the spender,
+ * `value` the maximum, `validBefore` the deadline and `nonce` the token's
+ * current permit nonce.
+ */
+async function createPermitAuthorization(
+  privateKey: `0x${string}`,
+  requirement: PaymentRequirement,
+  chainId: number,
+  usdcAddress: `0x${string}`
+): Promise<PaymentPayload> {
+  const account = privateKeyToAccount(privateKey);
+
+  const publicClient = createPublicClient({ transport: http(RPC_URLS[requirement.network]) });
+  const nonce = await publicClient.readContract({
+    address: usdcAddress,
+    abi: PERMIT_NONCES_ABI,
+    functionName: 'nonces',
+    args: [account.address],
+  });
+
+  const value = BigInt(requirement.maxAmountRequired);
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + requirement.maxTimeoutSeconds);
+
+  const signature = await signTypedData({
+    privateKey,
+    domain: getEIP712Domain(chainId, usdcAddress),
+    types: PERMIT_TYPES,
+    primaryType: 'Permit',
+    message: {
+      owner: account.address,
+      spender: requirement.payTo,
+      value,
+      nonce,
+      deadline,
+    },
+  });
+
+  const paymentPayload: PaymentPayload = {
+    x402Version: 1,
+    scheme: requirement.scheme,
+    network: requirement.network,
+    payload: {
+      signature,
+      authorization: {
+        from: account.address,
+        to: requirement.payTo,
+        value: value.toString(),
+        validAfter: '0',
+        validBefore: deadline.toString(),
+        nonce: toHex(nonce, { size: 32 }),
+      },
+    },
+  };
+
+  if (typeof requirement.extra?.quote === 'string') {
+    paymentPayload.quote = requirement.extra.quote;
+  }
+
+  return paymentPayload;
+}
+
 /**
  * Create a signed payment authorization for a 402 payment requirement
  * 
@@ -52,6 +126,11 @@ export async function createPaymentAuthorization(
     throw new Error(`No USDC address for network: ${requirement.network}`);
   }
 
+  // Metered payments permit a maximum instead of transferring an exact amount
+  if (requirement.scheme === PAYMENT_SCHEMES.UPTO) {
+    return createPermitAuthorization(privateKey, requirement, chainId, usdcAddress);
+  }
+
   // Calculate validity window
   const now = Math.floor(Date.now() / 1000);
   const validAfter = BigInt(now - 60); // Valid from 1 minute ago (clock skew tolerance)
@@ -72,21 +151,19 @@ export async function createPaymentAuthorization(
 
   // Sign the authorization using EIP-712
   const domain = getEIP712Domain(chainId, usdcAddress);
-  
-  const signature = await signTypedData({
-    privateKey,
-    domain,
-    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
-    primaryType: 'TransferWithAuthorization',
-    message: {
-      from: authorization.from,
-      to: authorization.to,
-      value: authorization.value,
-      validAfter: authorization.validAfter,
-      validBefore: authorization.validBefore,
-      nonce: authorization.nonce,
-    },
-  });
+  const message = {
+    from: authorization.from,
+    to: authorization.to,
+    value: authorization.value,
+    validAfter: authorization.validAfter,
+    validBefore: authorization.validBefore,
+    nonce: authorization.nonce,
+  };
+
+  // The vault redeems a ReceiveWithAuthorization itself, settling in one transaction
+  const signature = requirement.extra?.authorizationType === AUTHORIZATION_TYPES.RECEIVE
+    ? await signTypedData({ privateKey, domain, types: RECEIVE_WITH_AUTHORIZATION_TYPES, primaryType: 'ReceiveWithAuthorization', message })
+    : await signTypedData({ privateKey, domain, types: TRANSFER_WITH_AUTHORIZATION_TYPES, primaryType: 'TransferWithAuthorization', message });
 
   // Build the payment payload
   const paymentPayload: PaymentPayload = {
@@ -106,6 +183,11 @@ export async function createPaymentAuthorization(
     },
   };
 
+  // Echo the merchant's signed quote so the payment is bound to this resource
+  if (typeof requirement.extra?.quote === 'string') {
+    paymentPayload.quote = requirement.extra.quote;
+  }
+
   return paymentPayload;
 }
 
@@ -118,6 +200,17 @@ export function encodePaymentHeader(payload: PaymentPayload): string {
   return Buffer.from(json).toString('base64');
 }
 
+/**
+ * Decode an X-PAYMENT-RESPONSE header (null if malformed)
+ */
+export function decodePaymentResponse(header: string): PaymentResponse | null {
+  try {
+    return JSON.parse(Buffer.from(header, 'base64').toString('utf-8')) as PaymentResponse;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get the signer address from a private key
  */
@@ -12,7 +12,7 @@
  * A single payment option from the merchant's 402 response
  */
 export interface PaymentRequirement {
-  /** Payment scheme (e.g., "exact") */
+  /** Payment scheme: "exact", or "upto" (maxAmountRequired is a cap; only usage is settled) */
   scheme: string;
   /** Network identifier (e.g., "avalanche-fuji") */
   network: string;
@@ -90,6 +90,63 @@ export interface PaymentPayload {
       nonce: `0x${string}`;
     };
   };
+  /** Merchant quote echoed from the requirement's extra.quote */
+  quote?: string;
+}
+
+/**
+ * Settlement result from the X-PAYMENT-RESPONSE header (decoded)
+ */
+export interface PaymentResponse {
+  /** Whether payment was successful */
+  success: boolean;
+  /** Blockchain transaction hash (null if failed) */
+  transaction: string | null;
+  /** Network where the transaction was submitted */
+  network: string;
+  /** Payer wallet address */
+  payer: string | null;
+  /** Error reason if payment failed */
+  errorReason: string | null;
+}
+
+// =============================================================================
+// OPTION SELECTION TYPES
+// =============================================================================
+
+/**
+ * A payment option the selector did not pick, and why
+ */
+export interface OptionRejection {
+  requirement: PaymentRequirement;
+  reason: string;
+}
+
+/**
+ * Outcome of choosing among a 402 response's payment options
+ */
+export interface SelectionResult {
+  /** Option to pay (null when none is usable) */
+  requirement: PaymentRequirement | null;
+  /** Options that cannot be paid, with reasons */
+  rejected: OptionRejection[];
+}
+
+/**
+ * Chooses which payment option to pay for a payer
+ */
+export type PaymentSelector = (accepts: PaymentRequirement[], payer: `0x${string}`) => Promise<SelectionResult>;
+
+/**
+ * Settings for the built-in selector
+ */
+export interface SelectorOptions {
+  /** Networks the wallet can pay on (default: every network in CHAIN_IDS) */
+  networks?: string[];
+  /** Token accepted per network (default: USDC_ADDRESSES) */
+  assets?: Record<string, `0x${string}`>;
+  /** "cost": cheapest option; "balance": cheapest option the payer can afford */
+  prefer?: 'cost' | 'balance';
 }
 
 // =============================================================================
@@ -104,6 +161,40 @@ export interface ClientConfig {
   merchantUrl: string;
   /** Private key for signing (hex string with 0x prefix) */
   privateKey: `0x${string}`;
+  /** Picks the payment option to pay (default: cheapest supported option) */
+  selector?: PaymentSelector;
+  /** Called before each charge is signed; return false to decline it */
+  approvePayment?: PaymentApprover;
+}
+
+/**
+ * Approves (true) or declines (false) paying an option for a request
+ */
+export type PaymentApprover = (
+  requirement: PaymentRequirement,
+  request: { url: string; method: string }
+) => boolean | Promise<boolean>;
+
+/**
+ * Per-request options for X402Client.fetch
+ */
+export interface FetchOptions {
+  /** Overrides the client's approvePayment for this request */
+  approvePayment?: PaymentApprover;
+}
+
+/**
+ * Result of X402Client.fetch
+ */
+export interface FetchResult {
+  /** Final response, body unread (the 402 itself when the charge was declined) */
+  response: Response;
+  /** Option selected for payment (null when no payment was asked for) */
+  requirement: PaymentRequirement | null;
+  /** Decoded X-PAYMENT-RESPONSE, when the server sent one */
+  paymentResponse: PaymentResponse | null;
+  /** The approval hook declined the charge */
+  declined: boolean;
 }
 
 /**
@@ -118,6 +209,8 @@ export interface PurchaseResult {
   data: unknown;
   /** Payment receipt if successful */
   receipt?: PaymentReceipt;
+  /** Decoded X-PAYMENT-RESPONSE if successful */
+  paymentResponse?: PaymentResponse;
 }
 
 /**
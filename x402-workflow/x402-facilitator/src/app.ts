@@ -5,6 +5,7 @@
 import express from 'express';
 import cors from 'cors';
 import routes from './routes/index.js';
+import x402Routes from './routes/x402Routes.js';
 
 const app = express();
 
@@ -17,6 +18,7 @@ app.use((req, _res, next) => {
 
 app.get('/health', (_req, res) => res.json({ status: 'ok', service: 'x402-facilitator' }));
 app.use('/api', routes);
+app.use('/', x402Routes);
 app.use((_req, res) => res.status(404).json({ error: 'Not Found' }));
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
   console.error('[Error]', err.message);
@@ -3,16 +3,12 @@
  */
 
 import { config as dotenvConfig } from 'dotenv';
+import type { NetworkConfig, PolicyDomain } from '../types/index.js';
+import {
+  NETWORKS, DEFAULT_NETWORK, CHAIN_IDS, USDC_ADDRESSES, USDC_DOMAIN_NAMES, RPC_URLS, POLICY_EIP712_DOMAIN,
+} from '../constants/index.js';
 dotenvConfig();
 
-function getRequiredEnv(key: string): string {
-  const value = process.env[key];
-  if (!value) {
-    throw new Error(`Missing required environment variable: ${key}`);
-  }
-  return value;
-}
-
 function getOptionalEnv(key: string, defaultValue: string): string {
   return process.env[key] || defaultValue;
 }
@@ -22,18 +18,83 @@ function getIntEnv(key: string, defaultValue: number): number {
   return value ? parseInt(value, 10) : defaultValue;
 }
 
+/**
+ * Build the network registry from env vars prefixed with the network key
+ * (e.g. BASE_SEPOLIA_VAULT_CONTRACT_ADDRESS). A network is served only when it
+ * has a vault address and a facilitator key; the default network also reads
+ * the unprefixed VAULT_CONTRACT_ADDRESS / RPC_URL, and FACILITATOR_PRIVATE_KEY
+ * is the fallback key everywhere.
+ */
+function loadNetworks(): Record<string, NetworkConfig> {
+  const networks: Record<string, NetworkConfig> = {};
+
+  for (const network of Object.values(NETWORKS)) {
+    const prefix = `${network.toUpperCase().replace(/-/g, '_')}_`;
+    const legacy = (key: string) => (network === DEFAULT_NETWORK ? process.env[key] : undefined);
+
+    const vaultAddress = process.env[`${prefix}VAULT_CONTRACT_ADDRESS`] || legacy('VAULT_CONTRACT_ADDRESS');
+    const privateKey = process.env[`${prefix}FACILITATOR_PRIVATE_KEY`] || process.env.FACILITATOR_PRIVATE_KEY;
+    if (!vaultAddress || !privateKey) continue;
+
+    networks[network] = {
+      network,
+      chainId: CHAIN_IDS[network],
+      rpcUrl: process.env[`${prefix}RPC_URL`] || legacy('RPC_URL') || RPC_URLS[network],
+      usdcAddress: (process.env[`${prefix}USDC_ADDRESS`] || USDC_ADDRESSES[network]) as `0x${string}`,
+      usdcDomainName: process.env[`${prefix}USDC_DOMAIN_NAME`] || USDC_DOMAIN_NAMES[network],
+      vaultAddress: vaultAddress as `0x${string}`,
+      privateKey: privateKey as `0x${string}`,
+    };
+  }
+
+  if (Object.keys(networks).length === 0) {
+    throw new Error('No network configured: set VAULT_CONTRACT_ADDRESS and FACILITATOR_PRIVATE_KEY (or <NETWORK>_VAULT_CONTRACT_ADDRESS)');
+  }
+  return networks;
+}
+
+/**
+ * The policy signing domain: the default network (else the first served one)
+ * supplies chainId and verifyingContract (its vault); POLICY_DOMAIN_SALT
+ * separates deployments that share a vault
+ */
+function loadPolicyDomain(networks: Record<string, NetworkConfig>): PolicyDomain {
+  const primary = networks[DEFAULT_NETWORK] ?? Object.values(networks)[0];
+  const salt = process.env.POLICY_DOMAIN_SALT;
+  if (salt && !/^0x[a-fA-F0-9]{64}$/.test(salt)) {
+    throw new Error('POLICY_DOMAIN_SALT must be 32 bytes of hex (0x followed by 64 hex characters)');
+  }
+  return {
+    ...POLICY_EIP712_DOMAIN,
+    chainId: primary.chainId,
+    verifyingContract: primary.vaultAddress,
+    ...(salt ? { salt: salt as `0x${string}` } : {}),
+  };
+}
+
+const networks = loadNetworks();
+
 export const config = {
   server: {
     port: getIntEnv('PORT', 3001),
   },
   facilitator: {
-    privateKey: getRequiredEnv('FACILITATOR_PRIVATE_KEY') as `0x${string}`,
     defaultSpendingLimit: BigInt(getOptionalEnv('DEFAULT_SPENDING_LIMIT', '100000000')),
   },
-  rpc: {
-    url: getOptionalEnv('RPC_URL', 'https://api.avax-test.network/ext/bc/C/rpc'),
+  networks,
+  policy: {
+    domain: loadPolicyDomain(networks),
+  },
+  store: {
+    backend: getOptionalEnv('STORE_BACKEND', 'file'),
+    path: getOptionalEnv('STORE_PATH', 'data/facilitator-store.json'),
+    flushDelayMs: getIntEnv('STORE_FLUSH_DELAY_MS', 200),
+  },
+  reconciler: {
+    intervalMs: getIntEnv('RECONCILE_INTERVAL_MS', 60_000),
+    maxSettleAttempts: getIntEnv('RECONCILE_MAX_SETTLE_ATTEMPTS', 3),
   },
-  contracts: {
-    vaultAddress: getRequiredEnv('VAULT_CONTRACT_ADDRESS') as `0x${string}`,
+  admin: {
+    apiKey: process.env.ADMIN_API_KEY,
   },
 };
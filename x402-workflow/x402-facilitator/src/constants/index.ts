@@ -5,34 +5,228 @@
 export const NETWORKS = {
   AVALANCHE_FUJI: 'avalanche-fuji',
   AVALANCHE_MAINNET: 'avalanche-mainnet',
+  BASE_SEPOLIA: 'base-sepolia',
+  BASE_MAINNET: 'base-mainnet',
 } as const;
 
+// Network served by the legacy single-network env vars (VAULT_CONTRACT_ADDRESS, RPC_URL)
+export const DEFAULT_NETWORK = NETWORKS.AVALANCHE_FUJI;
+
 export const CHAIN_IDS: Record<string, number> = {
   [NETWORKS.AVALANCHE_FUJI]: 43113,
   [NETWORKS.AVALANCHE_MAINNET]: 43114,
+  [NETWORKS.BASE_SEPOLIA]: 84532,
+  [NETWORKS.BASE_MAINNET]: 8453,
 };
 
 export const USDC_ADDRESSES: Record<string, `0x${string}`> = {
   [NETWORKS.AVALANCHE_FUJI]: '0x5425890298aed601595a70AB815c96711a31Bc65',
   [NETWORKS.AVALANCHE_MAINNET]: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+  [NETWORKS.BASE_SEPOLIA]: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+  [NETWORKS.BASE_MAINNET]: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+};
+
+// EIP-712 domain name of each USDC deployment (all use version "2")
+export const USDC_DOMAIN_NAMES: Record<string, string> = {
+  [NETWORKS.AVALANCHE_FUJI]: 'USD Coin',
+  [NETWORKS.AVALANCHE_MAINNET]: 'USD Coin',
+  [NETWORKS.BASE_SEPOLIA]: 'USDC',
+  [NETWORKS.BASE_MAINNET]: 'USD Coin',
 };
 
 export const RPC_URLS: Record<string, string> = {
   [NETWORKS.AVALANCHE_FUJI]: 'https://api.avax-test.network/ext/bc/C/rpc',
   [NETWORKS.AVALANCHE_MAINNET]: 'https://api.avax.network/ext/bc/C/rpc',
+  [NETWORKS.BASE_SEPOLIA]: 'https://sepolia.base.org',
+  [NETWORKS.BASE_MAINNET]: 'https://mainnet.base.org',
 };
 
+export const X402_VERSION = 1;
+
+export const PAYMENT_SCHEMES = {
+  EXACT: 'exact',
+  // Metered: the payer signs an EIP-2612 permit for a maximum, the merchant settles actual usage
+  UPTO: 'upto',
+} as const;
+
+// How an "exact" payer signs, named by the requirements' extra.authorizationType
+export const AUTHORIZATION_TYPES = {
+  TRANSFER: 'transferWithAuthorization',
+  // Pays the vault directly, which redeems it in one transaction
+  RECEIVE: 'receiveWithAuthorization',
+} as const;
+
+// x402 invalidReason / errorReason values reported by /verify and /settle
+export const X402_ERROR_REASONS = {
+  INVALID_X402_VERSION: 'invalid_x402_version',
+  INVALID_SCHEME: 'invalid_scheme',
+  INVALID_NETWORK: 'invalid_network',
+  INVALID_PAYLOAD: 'invalid_payload',
+  INVALID_PAYMENT_REQUIREMENTS: 'invalid_payment_requirements',
+  INVALID_SIGNATURE: 'invalid_exact_evm_payload_signature',
+  INVALID_VALID_BEFORE: 'invalid_exact_evm_payload_authorization_valid_before',
+  INSUFFICIENT_FUNDS: 'insufficient_funds',
+  POLICY_VIOLATION: 'policy_violation',
+  // Held for the user's decision; retry the same payment to get the outcome
+  APPROVAL_REQUIRED: 'approval_required',
+  NONCE_USED: 'invalid_transaction_state',
+  SETTLEMENT_FAILED: 'unexpected_settle_error',
+} as const;
+
+export const HTTP_HEADERS = {
+  IDEMPOTENCY_KEY: 'idempotency-key',
+  IDEMPOTENT_REPLAYED: 'Idempotent-Replayed',
+  ADMIN_KEY: 'x-admin-key',
+} as const;
+
 export const HTTP_STATUS = {
   OK: 200,
+  CREATED: 201,
+  ACCEPTED: 202,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  CONFLICT: 409,
+  UNPROCESSABLE_ENTITY: 422,
   INTERNAL_SERVER_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503,
 } as const;
 
+// Store collection names
+export const COLLECTIONS = {
+  USER_POLICIES: 'userPolicies',
+  MERCHANTS: 'merchants',
+  PAYMENTS: 'payments',
+  IDEMPOTENCY_KEYS: 'idempotencyKeys',
+  POLICY_NONCES: 'policyNonces',
+  SPEND_RECORDS: 'spendRecords',
+} as const;
+
+// EIP-712 domain and types for policy changes signed by the user's wallet
+// (config adds the deployment's chainId, verifyingContract and optional salt)
+export const POLICY_EIP712_DOMAIN = {
+  name: 'x402 Facilitator',
+  version: '1',
+} as const;
+
+export const POLICY_UPDATE_TYPES = {
+  PolicyUpdate: [
+    { name: 'user', type: 'address' },
+    { name: 'maxTransactionAmount', type: 'uint256' },
+    { name: 'dailySpendingLimit', type: 'uint256' },
+    { name: 'autoPayEnabled', type: 'bool' },
+    { name: 'approvalThreshold', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+/** `merchant` is the zero address when only a domain is authorized, `domain` empty when only a merchant is */
+export const AUTHORIZE_MERCHANT_TYPES = {
+  AuthorizeMerchant: [
+    { name: 'user', type: 'address' },
+    { name: 'merchant', type: 'address' },
+    { name: 'domain', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+/** Delegates a session key to an agent; empty `merchants` and `domains` leave the user's own authorizations in charge */
+export const GRANT_SESSION_KEY_TYPES = {
+  GrantSessionKey: [
+    { name: 'user', type: 'address' },
+    { name: 'sessionKey', type: 'address' },
+    { name: 'budget', type: 'uint256' },
+    { name: 'merchants', type: 'address[]' },
+    { name: 'domains', type: 'string[]' },
+    { name: 'validUntil', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+/** Signed by the session key itself, with the grant's nonce and expiry, so no wallet is made a key without its consent */
+export const ACCEPT_SESSION_KEY_TYPES = {
+  AcceptSessionKey: [
+    { name: 'user', type: 'address' },
+    { name: 'sessionKey', type: 'address' },
+    { name: 'validUntil', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+export const REVOKE_SESSION_KEY_TYPES = {
+  RevokeSessionKey: [
+    { name: 'user', type: 'address' },
+    { name: 'sessionKey', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+/** `limit` 0 removes the budget */
+export const SET_BUDGET_TYPES = {
+  SetBudget: [
+    { name: 'user', type: 'address' },
+    { name: 'scope', type: 'string' },
+    { name: 'target', type: 'string' },
+    { name: 'period', type: 'string' },
+    { name: 'limit', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+/** An empty `windows` list restores the default rolling 24h window; `durationSeconds` is 0 for calendar windows */
+export const SET_SPENDING_WINDOWS_TYPES = {
+  SpendingWindow: [
+    { name: 'kind', type: 'string' },
+    { name: 'durationSeconds', type: 'uint256' },
+    { name: 'limit', type: 'uint256' },
+  ],
+  SetSpendingWindows: [
+    { name: 'user', type: 'address' },
+    { name: 'timezone', type: 'string' },
+    { name: 'windows', type: 'SpendingWindow[]' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+/** The user's decision on a payment held for approval */
+export const PAYMENT_DECISION_TYPES = {
+  PaymentDecision: [
+    { name: 'user', type: 'address' },
+    { name: 'paymentId', type: 'string' },
+    { name: 'approved', type: 'bool' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+/** Furthest a policy signature's expiry may be in the future (bounds the replay store) */
+export const POLICY_SIGNATURE_MAX_TTL_SECONDS = 3600;
+
+/** Longest a synchronous /api/pay waits for an approval decision before answering 202 */
+export const APPROVAL_WAIT_MAX_MS = 120_000;
+
+/** Longest rolling window; spend records are kept a day longer than this (covers calendar months too) */
+export const MAX_ROLLING_WINDOW_SECONDS = 31 * 24 * 60 * 60;
+export const SPEND_RECORD_RETENTION_MS = (MAX_ROLLING_WINDOW_SECONDS + 24 * 60 * 60) * 1000;
+
+/** Finished payments are dropped from the ledger after this (collections awaiting recovery are kept) */
+export const PAYMENT_RECORD_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+/** Idempotency keys of finished payments are dropped after this (shorter than the ledger, so a kept key finds its payment) */
+export const IDEMPOTENCY_KEY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
 // Default limits
 export const DEFAULTS = {
   MAX_TRANSACTION_AMOUNT: BigInt(100_000_000), // 100 USDC
   DAILY_SPENDING_LIMIT: BigInt(500_000_000),   // 500 USDC per day
+  PAGE_SIZE: 50,
+  MAX_PAGE_SIZE: 200,
 } as const;
@@ -0,0 +1,38 @@
+/**
+ * Admin Controller
+ *
+ * Operator view of the reconciler: what it did last, which payments still
+ * hold user funds, and a way to trigger a pass on demand.
+ */
+
+import type { Request, Response } from 'express';
+import { getLastReconciliationRun, reconcileOnce } from '../services/reconciler.js';
+import { listOrphanedPaymentRecords } from '../store/paymentLedger.js';
+import { serializePaymentRecord } from './ledgerController.js';
+import { HTTP_STATUS } from '../constants/index.js';
+
+/**
+ * GET /api/admin/reconciliation
+ * Last reconciliation run and the payments still awaiting recovery
+ */
+export function getReconciliationStatus(_req: Request, res: Response): void {
+  res.json({
+    lastRun: getLastReconciliationRun(),
+    orphaned: listOrphanedPaymentRecords().map(serializePaymentRecord),
+  });
+}
+
+/**
+ * POST /api/admin/reconciliation/run
+ * Run a reconciliation pass now and return what it did
+ */
+export async function runReconciliation(_req: Request, res: Response): Promise<void> {
+  try {
+    const run = await reconcileOnce();
+    res.json(run);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Reconciliation failed';
+    console.error('[Admin] Reconciliation error:', message);
+    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({ error: message });
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Approval Controller
+ *
+ * Lists payments held for the user's approval and applies the user's
+ * decision. Decisions must be signed by the user's wallet as an EIP-712
+ * PaymentDecision (see services/policyAuth.ts).
+ */
+
+import type { Request, Response } from 'express';
+import type { SignedPolicyChange } from '../types/index.js';
+import { getPaymentRecord } from '../store/paymentLedger.js';
+import { listPendingApprovals, decideApproval, approvalDeadline } from '../services/approvalQueue.js';
+import { verifyPolicyChange } from '../services/policyAuth.js';
+import { serializePaymentRecord } from './ledgerController.js';
+import { HTTP_STATUS } from '../constants/index.js';
+
+/**
+ * GET /api/approvals/:userAddress
+ * List the user's payments awaiting a decision, oldest first
+ */
+export function listApprovals(
+  req: Request<{ userAddress: string }>,
+  res: Response
+): void {
+  const { userAddress } = req.params;
+
+  if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid user address' });
+    return;
+  }
+
+  const approvals = listPendingApprovals(userAddress as `0x${string}`).map(record => ({
+    ...serializePaymentRecord(record),
+    validBefore: new Date(approvalDeadline(record)).toISOString(),
+  }));
+  res.json({ approvals });
+}
+
+/**
+ * Apply a signed decision to a held payment
+ */
+async function decide(req: Request<{ paymentId: string }>, res: Response, approved: boolean): Promise<void> {
+  const record = getPaymentRecord(req.params.paymentId);
+  if (!record || !record.approval) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Held payment not found' });
+    return;
+  }
+
+  const auth = await verifyPolicyChange(
+    record.userAddress,
+    { primaryType: 'PaymentDecision', message: { paymentId: record.id, approved } },
+    (req.body ?? {}) as Partial<SignedPolicyChange>
+  );
+  if (!auth.valid) {
+    res.status(auth.status).json({ error: auth.error });
+    return;
+  }
+
+  // Re-read after the await: another decision may have landed meanwhile
+  const current = getPaymentRecord(record.id)!;
+  if (current.status !== 'awaiting-approval') {
+    res.status(HTTP_STATUS.CONFLICT).json({ error: `Payment is no longer awaiting approval (${current.status})` });
+    return;
+  }
+
+  const decided = decideApproval(current, approved);
+  res.json({ success: true, payment: serializePaymentRecord(decided), statusUrl: `/api/payments/${decided.id}` });
+}
+
+/**
+ * POST /api/approvals/:paymentId/approve
+ * Approve a held payment; it is executed only if its validBefore has not passed
+ * Body: { nonce, expiry, signature }
+ */
+export function approvePayment(req: Request<{ paymentId: string }>, res: Response): Promise<void> {
+  return decide(req, res, true);
+}
+
+/**
+ * POST /api/approvals/:paymentId/deny
+ * Deny a held payment
+ * Body: { nonce, expiry, signature }
+ */
+export function denyPayment(req: Request<{ paymentId: string }>, res: Response): Promise<void> {
+  return decide(req, res, false);
+}
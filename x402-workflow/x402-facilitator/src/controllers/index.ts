@@ -2,12 +2,21 @@
  * Controllers Module Exports
  */
 
-export { executePayment } from './paymentController.js';
+export { executePayment, getPaymentStatus } from './paymentController.js';
 export {
+  getPolicyDomain,
   getPolicy,
   updatePolicy,
   authorizeMerchantEndpoint,
+  setBudgetEndpoint,
+  setSpendingWindowsEndpoint,
+  grantSessionKeyEndpoint,
+  revokeSessionKeyEndpoint,
   listMerchants,
   getMerchant,
   addMerchantEndpoint,
 } from './policyController.js';
+export { listUserPayments } from './ledgerController.js';
+export { listApprovals, approvePayment, denyPayment } from './approvalController.js';
+export { getReconciliationStatus, runReconciliation } from './adminController.js';
+export { verifyPayment, settlePayment, getSupportedKinds } from './x402Controller.js';
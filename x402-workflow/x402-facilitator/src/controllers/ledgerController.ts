@@ -0,0 +1,82 @@
+/**
+ * Ledger Controller
+ *
+ * Exposes recorded payment attempts for reconciliation.
+ */
+
+import type { Request, Response } from 'express';
+import type { PaymentRecord, PaymentStatus } from '../types/index.js';
+import { listPaymentRecords } from '../store/paymentLedger.js';
+import { HTTP_STATUS, DEFAULTS } from '../constants/index.js';
+
+const PAYMENT_STATUSES: PaymentStatus[] = ['checking', 'awaiting-approval', 'pending', 'succeeded', 'failed', 'rejected', 'refunded'];
+
+/**
+ * Convert BigInt record fields to strings for JSON
+ */
+export function serializePaymentRecord(record: PaymentRecord) {
+  const { request: _request, ...rest } = record;
+  return {
+    ...rest,
+    amount: record.amount.toString(),
+    createdAt: new Date(record.createdAt).toISOString(),
+    updatedAt: new Date(record.updatedAt).toISOString(),
+  };
+}
+
+/**
+ * Parse a date filter given as ISO 8601 or Unix milliseconds
+ */
+function parseDate(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+/**
+ * GET /api/policy/:userAddress/payments
+ * List a user's payment attempts, newest first
+ *
+ * Query: limit, offset, from, to (ISO 8601 or Unix ms), status
+ */
+export function listUserPayments(
+  req: Request<{ userAddress: string }>,
+  res: Response
+): void {
+  const { userAddress } = req.params;
+
+  if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid user address' });
+    return;
+  }
+
+  const limit = Math.min(Number(req.query.limit ?? DEFAULTS.PAGE_SIZE), DEFAULTS.MAX_PAGE_SIZE);
+  const offset = Number(req.query.offset ?? 0);
+  if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset) || offset < 0) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid paging parameters' });
+    return;
+  }
+
+  const from = parseDate(req.query.from);
+  const to = parseDate(req.query.to);
+  if (from === null || to === null) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid date filter' });
+    return;
+  }
+
+  const status = req.query.status as PaymentStatus | undefined;
+  if (status && !PAYMENT_STATUSES.includes(status)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: `Invalid status (expected one of ${PAYMENT_STATUSES.join(', ')})` });
+    return;
+  }
+
+  const { records, total } = listPaymentRecords(userAddress as `0x${string}`, { from, to, status, limit, offset });
+
+  res.json({
+    payments: records.map(serializePaymentRecord),
+    total,
+    limit,
+    offset,
+  });
+}
@@ -1,41 +1,181 @@
 /**
  * Payment Controller - handles payment execution requests
+ *
+ * /api/pay is idempotent: retries carrying the same Idempotency-Key header or
+ * the same (from, nonce) authorization return the stored outcome instead of
+ * re-running the on-chain pipeline. The keys are bound before the first
+ * await, so a concurrent retry gets 409 while the payment is checked; they
+ * are released again if the payment is refused.
+ *
+ * By default the request waits for settlement. With `?mode=async` or a
+ * `Prefer: respond-async` header it returns 202 once the policy and signature
+ * checks pass, and the job can be polled at GET /api/payments/:id.
+ *
+ * Payments that need the user's approval are held after the same checks. A
+ * synchronous request waits for the decision (at most APPROVAL_WAIT_MAX_MS,
+ * and never past the authorization's validBefore) and then settles; otherwise
+ * it gets 202 with the held status to poll.
  */
 
 import type { Request, Response } from 'express';
-import type { PaymentRequest, PaymentResult } from '../types/index.js';
-import { validatePaymentRequest } from '../services/policyValidator.js';
-import { getExecutor } from '../services/executor.js';
-import { recordSpending } from '../store/userPolicy.js';
-import { HTTP_STATUS } from '../constants/index.js';
+import type { PaymentRequest, PaymentResult, PaymentRecord, SettlementStatus } from '../types/index.js';
+import { validatePaymentRequest, attributeSessionKey } from '../services/policyValidator.js';
+import { getExecutor, isNetworkSupported, getSupportedNetworks } from '../services/executor.js';
+import { startSettlement } from '../services/settlementWorker.js';
+import { holdForApproval, waitForDecision, approvalDeadline } from '../services/approvalQueue.js';
+import { createPaymentRecord, getPaymentRecord, updatePaymentRecord } from '../store/paymentLedger.js';
+import { authorizationFingerprint, getIdempotencyEntry, registerIdempotencyKeys, releaseIdempotencyKeys } from '../store/idempotency.js';
+import { HTTP_STATUS, HTTP_HEADERS, APPROVAL_WAIT_MAX_MS } from '../constants/index.js';
 
+type PaymentResponseBody = PaymentResult | SettlementStatus;
+
+/**
+ * Build the pollable job status for a ledger record
+ */
+function toSettlementStatus(record: PaymentRecord): SettlementStatus {
+  return {
+    paymentId: record.id,
+    status: record.status,
+    stage: ['checking', 'awaiting-approval', 'pending', 'succeeded'].includes(record.status) ? record.stage : 'failed',
+    completedStage: record.stage,
+    transactions: record.transactions,
+    error: record.error,
+    errorCode: record.errorCode,
+    result: record.result,
+    approval: record.approval,
+    statusUrl: `/api/payments/${record.id}`,
+    updatedAt: new Date(record.updatedAt).toISOString(),
+  };
+}
+
+/**
+ * Reply to a retried request from the ledger instead of executing it again
+ */
+function replayPayment(record: PaymentRecord, res: Response<PaymentResponseBody>): void {
+  console.log(`[Facilitator] Idempotent replay: ${record.id} (${record.status})`);
+  res.setHeader(HTTP_HEADERS.IDEMPOTENT_REPLAYED, 'true');
+
+  if (record.status === 'awaiting-approval') {
+    res.status(HTTP_STATUS.ACCEPTED).location(`/api/payments/${record.id}`).json(toSettlementStatus(record));
+    return;
+  }
+
+  if (record.status === 'pending' || !record.result) {
+    res.status(HTTP_STATUS.CONFLICT).json({ ...toSettlementStatus(record), error: 'Payment is already in progress' });
+    return;
+  }
+
+  res.status(record.result.success ? HTTP_STATUS.OK : HTTP_STATUS.BAD_REQUEST)
+    .json({ ...record.result, paymentId: record.id, status: record.status });
+}
+
+/**
+ * POST /api/pay
+ */
 export async function executePayment(
-  req: Request<object, PaymentResult, PaymentRequest>,
-  res: Response<PaymentResult>
+  req: Request<object, PaymentResponseBody, PaymentRequest>,
+  res: Response<PaymentResponseBody>
 ): Promise<void> {
+  let paymentId: string | undefined;
+  let idempotencyKeys: string[] = [];
   try {
-    const paymentRequest = req.body;
-    console.log('\n[Facilitator] Payment request received');
+    const asyncMode = req.query.mode === 'async' || /respond-async/i.test(req.get('prefer') ?? '');
+    console.log(`\n[Facilitator] Payment request received${asyncMode ? ' (async)' : ''}`);
 
-    if (!paymentRequest.userAddress || !paymentRequest.challenge || !paymentRequest.signedPayload) {
+    if (!req.body.userAddress || !req.body.challenge || !req.body.signedPayload?.authorization) {
       res.status(HTTP_STATUS.BAD_REQUEST).json({ success: false, error: 'Invalid request', errorCode: 'POLICY_VIOLATION' });
       return;
     }
+    const paymentRequest = attributeSessionKey(req.body);
+
+    // Idempotency: header key first, then the authorization itself
+    const { from, nonce } = paymentRequest.signedPayload.authorization;
+    const fingerprint = authorizationFingerprint(from, nonce);
+    const headerKey = req.get(HTTP_HEADERS.IDEMPOTENCY_KEY);
+    idempotencyKeys = headerKey ? [headerKey, fingerprint] : [fingerprint];
+
+    const existing = idempotencyKeys.map(getIdempotencyEntry).find(entry => entry !== undefined);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        res.status(HTTP_STATUS.UNPROCESSABLE_ENTITY).json({
+          success: false, error: 'Idempotency-Key was already used for a different authorization', errorCode: 'IDEMPOTENCY_CONFLICT'
+        });
+        return;
+      }
+      const record = getPaymentRecord(existing.paymentId);
+      if (record) {
+        replayPayment(record, res);
+        return;
+      }
+    }
+
+    paymentId = createPaymentRecord(paymentRequest).id;
+    registerIdempotencyKeys(idempotencyKeys, fingerprint, paymentId);
+
+    // Route by challenge network; only configured networks can settle
+    const { network } = paymentRequest.challenge;
+    if (!isNetworkSupported(network)) {
+      const error = `Unsupported network: ${network} (supported: ${getSupportedNetworks().join(', ')})`;
+      updatePaymentRecord(paymentId, { status: 'rejected', error, errorCode: 'UNSUPPORTED_NETWORK' });
+      releaseIdempotencyKeys(idempotencyKeys, paymentId);
+      res.status(HTTP_STATUS.BAD_REQUEST).json({ success: false, error, errorCode: 'UNSUPPORTED_NETWORK', paymentId });
+      return;
+    }
 
-    // Policy validation
-    const policyCheck = validatePaymentRequest(paymentRequest);
-    if (!policyCheck.allowed) {
+    // Policy validation (rejections release the keys so a retry is re-evaluated)
+    const policyCheck = validatePaymentRequest(paymentRequest, paymentId);
+    if (!policyCheck.allowed && !policyCheck.needsApproval) {
       console.log(`[Facilitator] Policy failed: ${policyCheck.reason}`);
-      res.status(HTTP_STATUS.FORBIDDEN).json({ success: false, error: policyCheck.reason, errorCode: 'POLICY_VIOLATION' });
+      updatePaymentRecord(paymentId, { status: 'rejected', error: policyCheck.reason, errorCode: 'POLICY_VIOLATION' });
+      releaseIdempotencyKeys(idempotencyKeys, paymentId);
+      res.status(HTTP_STATUS.FORBIDDEN).json({ success: false, error: policyCheck.reason, errorCode: 'POLICY_VIOLATION', paymentId });
       return;
     }
 
-    // On-chain execution
-    const executor = getExecutor();
-    const result = await executor.executePayment(paymentRequest);
+    // Signature, validity window, balance and nonce checks
+    const preflight = await getExecutor(network).preflight(paymentRequest);
+    if (preflight) {
+      console.log(`[Facilitator] Preflight failed: ${preflight.error}`);
+      const result: PaymentResult = { ...preflight, paymentId };
+      updatePaymentRecord(paymentId, { status: 'failed', error: result.error, errorCode: result.errorCode, result });
+      releaseIdempotencyKeys(idempotencyKeys, paymentId);
+      res.status(HTTP_STATUS.BAD_REQUEST).json(result);
+      return;
+    }
 
+    // Held for the user's decision: wait for it, or hand back the status to poll
+    if (policyCheck.needsApproval) {
+      let record = holdForApproval(paymentId, policyCheck.reason ?? 'Needs approval');
+      if (!asyncMode) {
+        record = await waitForDecision(paymentId, Math.min(APPROVAL_WAIT_MAX_MS, approvalDeadline(record) - Date.now()));
+      }
+      if (record.status === 'awaiting-approval') {
+        console.log(`[Facilitator] Awaiting approval: ${paymentId}`);
+        res.status(HTTP_STATUS.ACCEPTED).location(`/api/payments/${paymentId}`).json(toSettlementStatus(record));
+        return;
+      }
+      if (record.status !== 'pending') {
+        res.status(record.status === 'rejected' ? HTTP_STATUS.FORBIDDEN : HTTP_STATUS.BAD_REQUEST)
+          .json(record.result ?? toSettlementStatus(record));
+        return;
+      }
+      // Approved: the settlement below joins the job the approval started
+    }
+
+    // Checked: only now can the settlement worker pick it up
+    if (getPaymentRecord(paymentId)!.status === 'checking') updatePaymentRecord(paymentId, { status: 'pending' });
+
+    if (asyncMode) {
+      startSettlement(paymentId).catch(error => console.error('[Facilitator] Settlement job error:', error));
+      const record = getPaymentRecord(paymentId)!;
+      console.log(`[Facilitator] Queued: ${paymentId}`);
+      res.status(HTTP_STATUS.ACCEPTED).location(`/api/payments/${paymentId}`).json(toSettlementStatus(record));
+      return;
+    }
+
+    // On-chain execution
+    const result = await startSettlement(paymentId);
     if (result.success) {
-      recordSpending(paymentRequest.userAddress, BigInt(paymentRequest.challenge.amount));
       console.log(`[Facilitator] Success: ${result.transactionHash}`);
       res.status(HTTP_STATUS.OK).json(result);
     } else {
@@ -43,9 +183,32 @@ export async function executePayment(
       res.status(HTTP_STATUS.BAD_REQUEST).json(result);
     }
   } catch (error) {
-    console.error('[Facilitator] Error:', error instanceof Error ? error.message : error);
-    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
-      success: false, error: error instanceof Error ? error.message : 'Internal error', errorCode: 'TRANSACTION_FAILED'
-    });
+    const message = error instanceof Error ? error.message : 'Internal error';
+    console.error('[Facilitator] Error:', message);
+    const result: PaymentResult = { success: false, error: message, errorCode: 'TRANSACTION_FAILED', paymentId };
+    const status = paymentId ? getPaymentRecord(paymentId)?.status : undefined;
+    if (paymentId && (status === 'checking' || status === 'pending')) {
+      updatePaymentRecord(paymentId, { status: 'failed', error: message, errorCode: 'TRANSACTION_FAILED', result });
+    }
+    if (paymentId && status === 'checking') releaseIdempotencyKeys(idempotencyKeys, paymentId);
+    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json(result);
+  }
+}
+
+/**
+ * GET /api/payments/:id
+ * Poll the settlement status of a payment
+ */
+export function getPaymentStatus(
+  req: Request<{ id: string }>,
+  res: Response
+): void {
+  const record = getPaymentRecord(req.params.id);
+
+  if (!record) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Payment not found' });
+    return;
   }
+
+  res.json(toSettlementStatus(record));
 }
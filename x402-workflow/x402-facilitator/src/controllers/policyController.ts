@@ -1,17 +1,26 @@
 /**
  * Policy Controller
  * 
- * Manages user policies, merchant authorizations, and spending limits.
+ * Manages user policies, merchant authorizations, session keys, spending windows and budgets.
+ * Changes must be signed by the user's wallet (see services/policyAuth.ts).
  */
 
 import type { Request, Response } from 'express';
-import type { UserPolicy, MerchantInfo } from '../types/index.js';
+import { isAddress, zeroAddress } from 'viem';
+import type {
+  UserPolicy, MerchantInfo, SignedPolicyChange, SessionKey, BudgetStatus, BudgetScope, BudgetPeriod,
+  SpendingWindow, SpendingWindowKind, SpendingWindowStatus,
+} from '../types/index.js';
 import {
   getUserPolicy,
   updateUserPolicy,
   authorizeMerchant,
   authorizeDomain,
-  getRemainingDailyAllowance,
+  grantSessionKey,
+  revokeSessionKey,
+  findSessionKeyOwner,
+  hasUserPolicy,
+  setBudget,
 } from '../store/userPolicy.js';
 import {
   getAllMerchants,
@@ -19,12 +28,85 @@ import {
   addMerchant,
   isMerchantWhitelisted,
 } from '../store/merchantWhitelist.js';
-import { HTTP_STATUS } from '../constants/index.js';
+import { verifyPolicyChange, verifySessionKeyConsent } from '../services/policyAuth.js';
+import { getBudgetStatuses } from '../services/spendingBudgets.js';
+import { getSpendingWindowStatuses, isValidTimeZone, remainingAllowance } from '../services/spendingWindows.js';
+import { HTTP_STATUS, MAX_ROLLING_WINDOW_SECONDS } from '../constants/index.js';
+import { config } from '../config/index.js';
 
 // =============================================================================
 // USER POLICY ENDPOINTS
 // =============================================================================
 
+const BUDGET_SCOPES: BudgetScope[] = ['merchant', 'category'];
+const BUDGET_PERIODS: BudgetPeriod[] = ['day', 'month'];
+const WINDOW_KINDS: SpendingWindowKind[] = ['rolling', 'day', 'week', 'month'];
+const MIN_ROLLING_WINDOW_SECONDS = 60;
+
+/**
+ * Convert BigInt spending window fields to strings for JSON
+ */
+function serializeSpendingWindows(windows: SpendingWindowStatus[]) {
+  return windows.map(window => ({
+    ...window,
+    limit: window.limit.toString(),
+    spent: window.spent.toString(),
+    reserved: window.reserved.toString(),
+    remaining: window.remaining.toString(),
+    since: new Date(window.since).toISOString(),
+    resetsAt: window.resetsAt !== undefined ? new Date(window.resetsAt).toISOString() : undefined,
+  }));
+}
+
+/**
+ * A user's policy as returned by the API, with window and budget status
+ */
+function serializePolicy(userAddress: `0x${string}`, policy: UserPolicy) {
+  const windows = getSpendingWindowStatuses(userAddress);
+  return {
+    ...policy,
+    // Convert BigInt to string for JSON
+    maxTransactionAmount: policy.maxTransactionAmount.toString(),
+    dailySpendingLimit: policy.dailySpendingLimit.toString(),
+    timezone: policy.timezone ?? 'UTC',
+    spendingWindows: serializeSpendingWindows(windows),
+    remainingAllowance: remainingAllowance(windows).toString(),
+    fundedBalance: policy.fundedBalance?.toString(),
+    approvalThreshold: policy.approvalThreshold?.toString(),
+    budgets: serializeBudgets(getBudgetStatuses(userAddress)),
+    sessionKeys: serializeSessionKeys(policy.sessionKeys),
+  };
+}
+
+/**
+ * Convert BigInt budget fields to strings for JSON
+ */
+function serializeBudgets(budgets: BudgetStatus[]) {
+  return budgets.map(budget => ({
+    ...budget,
+    limit: budget.limit.toString(),
+    spent: budget.spent.toString(),
+    reserved: budget.reserved.toString(),
+    remaining: budget.remaining.toString(),
+    resetsAt: new Date(budget.resetsAt).toISOString(),
+  }));
+}
+
+/**
+ * Convert BigInt session key fields to strings for JSON
+ */
+function serializeSessionKeys(sessionKeys: SessionKey[] = []) {
+  return sessionKeys.map(key => ({ ...key, budget: key.budget.toString(), spent: key.spent.toString() }));
+}
+
+/**
+ * GET /api/policy-domain
+ * The EIP-712 domain policy changes and approval decisions must be signed in
+ */
+export function getPolicyDomain(_req: Request, res: Response): void {
+  res.json(config.policy.domain);
+}
+
 /**
  * GET /api/policy/:userAddress
  * Get user's policy and spending status
@@ -41,77 +123,105 @@ export function getPolicy(
   }
 
   const policy = getUserPolicy(userAddress as `0x${string}`);
-  const remainingDaily = getRemainingDailyAllowance(userAddress as `0x${string}`);
+  res.json(serializePolicy(userAddress as `0x${string}`, policy));
+}
 
-  res.json({
-    ...policy,
-    // Convert BigInt to string for JSON
-    maxTransactionAmount: policy.maxTransactionAmount.toString(),
-    dailySpendingLimit: policy.dailySpendingLimit.toString(),
-    spentToday: policy.spentToday.toString(),
-    remainingDailyAllowance: remainingDaily.toString(),
-    fundedBalance: policy.fundedBalance?.toString(),
-  });
+/** Parse a base-unit amount sent as a decimal string or integer (null if invalid) */
+function parseAmount(value: unknown): bigint | null {
+  const text = typeof value === 'number' && Number.isSafeInteger(value) ? String(value) : value;
+  return typeof text === 'string' && /^\d{1,78}$/.test(text) ? BigInt(text) : null;
 }
 
 /**
  * POST /api/policy/:userAddress
- * Update user's policy settings
+ * Replace user's policy settings; signed by the user as an EIP-712 PolicyUpdate
+ * Body: { maxTransactionAmount, dailySpendingLimit, autoPayEnabled, approvalThreshold?, nonce, expiry, signature }
  */
-export function updatePolicy(
+export async function updatePolicy(
   req: Request<{ userAddress: string }>,
   res: Response
-): void {
+): Promise<void> {
   const { userAddress } = req.params;
-  const updates = req.body;
+  const body = (req.body ?? {}) as Record<string, unknown>;
 
   if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
     res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid user address' });
     return;
   }
 
-  // Convert string amounts to BigInt
-  const policyUpdates: Partial<UserPolicy> = {};
-  
-  if (updates.maxTransactionAmount) {
-    policyUpdates.maxTransactionAmount = BigInt(updates.maxTransactionAmount);
+  // The signature covers the complete new settings (an omitted approvalThreshold is signed as 0: none)
+  const maxTransactionAmount = parseAmount(body.maxTransactionAmount);
+  const dailySpendingLimit = parseAmount(body.dailySpendingLimit);
+  const approvalThreshold = body.approvalThreshold === undefined ? 0n : parseAmount(body.approvalThreshold);
+  if (maxTransactionAmount === null || dailySpendingLimit === null || typeof body.autoPayEnabled !== 'boolean') {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      error: 'Required: maxTransactionAmount and dailySpendingLimit (base units) and autoPayEnabled (boolean)',
+    });
+    return;
   }
-  if (updates.dailySpendingLimit) {
-    policyUpdates.dailySpendingLimit = BigInt(updates.dailySpendingLimit);
+  if (approvalThreshold === null) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'approvalThreshold must be an amount in base units' });
+    return;
   }
-  if (typeof updates.autoPayEnabled === 'boolean') {
-    policyUpdates.autoPayEnabled = updates.autoPayEnabled;
+
+  const policyUpdates: Partial<UserPolicy> = {
+    maxTransactionAmount, dailySpendingLimit, autoPayEnabled: body.autoPayEnabled, approvalThreshold,
+  };
+  const auth = await verifyPolicyChange(
+    userAddress as `0x${string}`,
+    { primaryType: 'PolicyUpdate', message: { maxTransactionAmount, dailySpendingLimit, autoPayEnabled: body.autoPayEnabled, approvalThreshold } },
+    body as Partial<SignedPolicyChange>
+  );
+  if (!auth.valid) {
+    res.status(auth.status).json({ error: auth.error });
+    return;
   }
 
   const updated = updateUserPolicy(userAddress as `0x${string}`, policyUpdates);
 
-  res.json({
-    success: true,
-    policy: {
-      ...updated,
-      maxTransactionAmount: updated.maxTransactionAmount.toString(),
-      dailySpendingLimit: updated.dailySpendingLimit.toString(),
-      spentToday: updated.spentToday.toString(),
-    },
-  });
+  res.json({ success: true, policy: serializePolicy(userAddress as `0x${string}`, updated) });
 }
 
 /**
  * POST /api/policy/:userAddress/authorize-merchant
- * Authorize a merchant for automatic payments
+ * Authorize a merchant for automatic payments; signed by the user as an EIP-712 AuthorizeMerchant
+ * Body: { merchantAddress?, domain?, nonce, expiry, signature }
  */
-export function authorizeMerchantEndpoint(
+export async function authorizeMerchantEndpoint(
   req: Request<{ userAddress: string }>,
   res: Response
-): void {
+): Promise<void> {
   const { userAddress } = req.params;
-  const { merchantAddress, domain } = req.body;
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const { merchantAddress, domain } = body as { merchantAddress?: string; domain?: string };
 
   if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
     res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid user address' });
     return;
   }
 
+  if (merchantAddress !== undefined && !/^0x[a-fA-F0-9]{40}$/.test(merchantAddress)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid merchant address' });
+    return;
+  }
+  if (!merchantAddress && !domain) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Required: merchantAddress or domain' });
+    return;
+  }
+
+  const auth = await verifyPolicyChange(
+    userAddress as `0x${string}`,
+    {
+      primaryType: 'AuthorizeMerchant',
+      message: { merchant: (merchantAddress ?? zeroAddress) as `0x${string}`, domain: domain ?? '' },
+    },
+    body as Partial<SignedPolicyChange>
+  );
+  if (!auth.valid) {
+    res.status(auth.status).json({ error: auth.error });
+    return;
+  }
+
   if (merchantAddress) {
     authorizeMerchant(userAddress as `0x${string}`, merchantAddress as `0x${string}`);
   }
@@ -129,17 +239,294 @@ export function authorizeMerchantEndpoint(
   });
 }
 
+/**
+ * POST /api/policy/:userAddress/spending-windows
+ * Replace the user's spending windows and timezone (an empty list restores the
+ * default rolling 24h window of dailySpendingLimit); signed by the user as an
+ * EIP-712 SetSpendingWindows
+ * Body: { timezone?, windows: [{ kind, durationSeconds?, limit }], nonce, expiry, signature }
+ */
+export async function setSpendingWindowsEndpoint(
+  req: Request<{ userAddress: string }>,
+  res: Response
+): Promise<void> {
+  const { userAddress } = req.params;
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const { timezone = 'UTC', windows: requested } = body as { timezone?: unknown; windows?: unknown };
+
+  if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid user address' });
+    return;
+  }
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'timezone must be an IANA timezone name (e.g. "Europe/Berlin")' });
+    return;
+  }
+  if (!Array.isArray(requested)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'windows must be a list (empty restores the default)' });
+    return;
+  }
+
+  const windows: SpendingWindow[] = [];
+  for (const entry of requested as Record<string, unknown>[]) {
+    const kind = entry?.kind as SpendingWindowKind;
+    if (!WINDOW_KINDS.includes(kind)) {
+      res.status(HTTP_STATUS.BAD_REQUEST).json({ error: `kind must be one of ${WINDOW_KINDS.join(', ')}` });
+      return;
+    }
+    const limit = parseAmount(entry.limit);
+    if (limit === null) {
+      res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'limit must be an amount in base units' });
+      return;
+    }
+    if (kind !== 'rolling') {
+      windows.push({ kind, limit });
+      continue;
+    }
+    const durationSeconds = Number(entry.durationSeconds);
+    if (!Number.isInteger(durationSeconds)
+      || durationSeconds < MIN_ROLLING_WINDOW_SECONDS || durationSeconds > MAX_ROLLING_WINDOW_SECONDS) {
+      res.status(HTTP_STATUS.BAD_REQUEST).json({
+        error: `Rolling windows need durationSeconds between ${MIN_ROLLING_WINDOW_SECONDS} and ${MAX_ROLLING_WINDOW_SECONDS}`,
+      });
+      return;
+    }
+    windows.push({ kind, durationSeconds, limit });
+  }
+
+  // Calendar windows are signed with durationSeconds 0
+  const auth = await verifyPolicyChange(
+    userAddress as `0x${string}`,
+    {
+      primaryType: 'SetSpendingWindows',
+      message: {
+        timezone,
+        windows: windows.map(window => ({ kind: window.kind, durationSeconds: BigInt(window.durationSeconds ?? 0), limit: window.limit })),
+      },
+    },
+    body as Partial<SignedPolicyChange>
+  );
+  if (!auth.valid) {
+    res.status(auth.status).json({ error: auth.error });
+    return;
+  }
+
+  updateUserPolicy(userAddress as `0x${string}`, { timezone, spendingWindows: windows.length > 0 ? windows : undefined });
+  console.log(`[Policy] ${userAddress} set ${windows.length || 'default'} spending window(s) in ${timezone}`);
+
+  res.json({ success: true, timezone, spendingWindows: serializeSpendingWindows(getSpendingWindowStatuses(userAddress as `0x${string}`)) });
+}
+
+/**
+ * POST /api/policy/:userAddress/budgets
+ * Set a daily or monthly budget for a merchant or category (limit 0 removes it);
+ * signed by the user as an EIP-712 SetBudget
+ * Body: { scope: "merchant" | "category", target, period: "day" | "month", limit, nonce, expiry, signature }
+ */
+export async function setBudgetEndpoint(
+  req: Request<{ userAddress: string }>,
+  res: Response
+): Promise<void> {
+  const { userAddress } = req.params;
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const { scope, target, period } = body as { scope?: BudgetScope; target?: string; period?: BudgetPeriod };
+
+  if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid user address' });
+    return;
+  }
+  if (!scope || !BUDGET_SCOPES.includes(scope)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: `scope must be one of ${BUDGET_SCOPES.join(', ')}` });
+    return;
+  }
+  if (!period || !BUDGET_PERIODS.includes(period)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: `period must be one of ${BUDGET_PERIODS.join(', ')}` });
+    return;
+  }
+  if (typeof target !== 'string' || !target
+    || (scope === 'merchant' && !/^0x[a-fA-F0-9]{40}$/.test(target))) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: scope === 'merchant' ? 'target must be a merchant address' : 'target must be a category name' });
+    return;
+  }
+  const limit = parseAmount(body.limit);
+  if (limit === null) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'limit must be an amount in base units (0 removes the budget)' });
+    return;
+  }
+
+  // The signed target is exactly what was sent; it is stored lowercase
+  const auth = await verifyPolicyChange(
+    userAddress as `0x${string}`,
+    { primaryType: 'SetBudget', message: { scope, target, period, limit } },
+    body as Partial<SignedPolicyChange>
+  );
+  if (!auth.valid) {
+    res.status(auth.status).json({ error: auth.error });
+    return;
+  }
+
+  setBudget(userAddress as `0x${string}`, { scope, target: target.toLowerCase(), period, limit });
+  console.log(`[Policy] ${userAddress} set ${period} ${scope} budget for ${target}: ${limit}`);
+
+  res.json({ success: true, budgets: serializeBudgets(getBudgetStatuses(userAddress as `0x${string}`)) });
+}
+
+/**
+ * POST /api/policy/:userAddress/session-keys
+ * Delegate a session key to an agent; signed by the user as an EIP-712 GrantSessionKey
+ * and co-signed by the key as an AcceptSessionKey with the same nonce and expiry
+ * Body: { sessionKey, budget, merchants?, domains?, validUntil, nonce, expiry, signature, sessionKeySignature }
+ */
+export async function grantSessionKeyEndpoint(
+  req: Request<{ userAddress: string }>,
+  res: Response
+): Promise<void> {
+  const { userAddress } = req.params;
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const { sessionKey, merchants = [], domains = [] } = body as { sessionKey?: string; merchants?: unknown; domains?: unknown };
+
+  if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid user address' });
+    return;
+  }
+  if (!sessionKey || !/^0x[a-fA-F0-9]{40}$/.test(sessionKey)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid session key address' });
+    return;
+  }
+  if (sessionKey.toLowerCase() === userAddress.toLowerCase()) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Session key must differ from the user wallet' });
+    return;
+  }
+  // A key pays on behalf of exactly one user, and a wallet with its own policy is never a key
+  const owner = findSessionKeyOwner(sessionKey as `0x${string}`);
+  if (owner && owner.toLowerCase() !== userAddress.toLowerCase()) {
+    res.status(HTTP_STATUS.CONFLICT).json({ error: 'Session key is already granted by another wallet' });
+    return;
+  }
+  if (hasUserPolicy(sessionKey as `0x${string}`)) {
+    res.status(HTTP_STATUS.CONFLICT).json({ error: 'Session key wallet has its own policy' });
+    return;
+  }
+
+  const budget = parseAmount(body.budget);
+  if (budget === null || budget === 0n) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'budget must be a positive amount in base units' });
+    return;
+  }
+  const validUntil = Number(body.validUntil);
+  if (!Number.isInteger(validUntil) || validUntil <= Math.floor(Date.now() / 1000)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'validUntil must be a future Unix timestamp in seconds' });
+    return;
+  }
+  if (!Array.isArray(merchants) || !merchants.every(m => typeof m === 'string' && /^0x[a-fA-F0-9]{40}$/.test(m))) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'merchants must be a list of addresses' });
+    return;
+  }
+  if (!Array.isArray(domains) || !domains.every(d => typeof d === 'string' && d.length > 0)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'domains must be a list of domain names' });
+    return;
+  }
+
+  const consent = await verifySessionKeyConsent(userAddress as `0x${string}`, sessionKey as `0x${string}`, validUntil, body);
+  if (!consent.valid) {
+    res.status(consent.status).json({ error: consent.error });
+    return;
+  }
+
+  const auth = await verifyPolicyChange(
+    userAddress as `0x${string}`,
+    {
+      primaryType: 'GrantSessionKey',
+      message: {
+        sessionKey: sessionKey as `0x${string}`,
+        budget,
+        merchants: merchants as `0x${string}`[],
+        domains: domains as string[],
+        validUntil: BigInt(validUntil),
+      },
+    },
+    body as Partial<SignedPolicyChange>
+  );
+  if (!auth.valid) {
+    res.status(auth.status).json({ error: auth.error });
+    return;
+  }
+
+  const sessionKeys = grantSessionKey(userAddress as `0x${string}`, {
+    address: sessionKey.toLowerCase() as `0x${string}`,
+    budget,
+    spent: 0n,
+    merchants: (merchants as string[]).map(m => m.toLowerCase() as `0x${string}`),
+    domains: (domains as string[]).map(d => d.toLowerCase()),
+    validUntil,
+    grantedAt: Date.now(),
+  });
+  console.log(`[Policy] ${userAddress} granted session key ${sessionKey} (budget ${budget})`);
+
+  res.status(HTTP_STATUS.CREATED).json({ success: true, sessionKeys: serializeSessionKeys(sessionKeys) });
+}
+
+/**
+ * DELETE /api/policy/:userAddress/session-keys/:sessionKey
+ * Revoke a session key (its facilitator payments are refused from then on); signed by the user as an EIP-712 RevokeSessionKey
+ * Body: { nonce, expiry, signature }
+ */
+export async function revokeSessionKeyEndpoint(
+  req: Request<{ userAddress: string; sessionKey: string }>,
+  res: Response
+): Promise<void> {
+  const { userAddress, sessionKey } = req.params;
+
+  if (!userAddress || !/^0x[a-fA-F0-9]{40}$/.test(userAddress)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid user address' });
+    return;
+  }
+  if (!/^0x[a-fA-F0-9]{40}$/.test(sessionKey)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid session key address' });
+    return;
+  }
+
+  const auth = await verifyPolicyChange(
+    userAddress as `0x${string}`,
+    { primaryType: 'RevokeSessionKey', message: { sessionKey: sessionKey as `0x${string}` } },
+    (req.body ?? {}) as Partial<SignedPolicyChange>
+  );
+  if (!auth.valid) {
+    res.status(auth.status).json({ error: auth.error });
+    return;
+  }
+
+  const revoked = revokeSessionKey(userAddress as `0x${string}`, sessionKey as `0x${string}`);
+  if (!revoked) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Session key not found' });
+    return;
+  }
+  console.log(`[Policy] ${userAddress} revoked session key ${sessionKey}`);
+
+  res.json({ success: true, sessionKey: serializeSessionKeys([revoked])[0] });
+}
+
 // =============================================================================
 // MERCHANT WHITELIST ENDPOINTS
 // =============================================================================
 
+/**
+ * Convert BigInt merchant fields to strings for JSON
+ */
+function serializeMerchant(merchant: MerchantInfo) {
+  return {
+    ...merchant,
+    maxTransactionLimit: merchant.maxTransactionLimit?.toString(),
+  };
+}
+
 /**
  * GET /api/merchants
  * Get all whitelisted merchants
  */
 export function listMerchants(_req: Request, res: Response): void {
   const merchants = getAllMerchants();
-  res.json({ merchants });
+  res.json({ merchants: merchants.map(serializeMerchant) });
 }
 
 /**
@@ -164,12 +551,12 @@ export function getMerchant(
     return;
   }
 
-  res.json({ merchant });
+  res.json({ merchant: serializeMerchant(merchant) });
 }
 
 /**
  * POST /api/merchants
- * Add a merchant to whitelist (admin only in production)
+ * Add a merchant to whitelist (requires the admin key; see routes)
  */
 export function addMerchantEndpoint(req: Request, res: Response): void {
   const merchantData: MerchantInfo = req.body;
@@ -181,18 +568,32 @@ export function addMerchantEndpoint(req: Request, res: Response): void {
     return;
   }
 
+  if (typeof merchantData.address !== 'string' || !isAddress(merchantData.address)) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid merchant address' });
+    return;
+  }
+
+  const maxTransactionLimit: unknown = req.body.maxTransactionLimit;
+  if (maxTransactionLimit !== undefined
+    && !((typeof maxTransactionLimit === 'string' || typeof maxTransactionLimit === 'number') && /^\d+$/.test(String(maxTransactionLimit)))) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'maxTransactionLimit must be a non-negative integer string (base units)' });
+    return;
+  }
+
   if (isMerchantWhitelisted(merchantData.address)) {
     res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Merchant already whitelisted' });
     return;
   }
 
-  addMerchant({
+  const merchant: MerchantInfo = {
     ...merchantData,
     verified: merchantData.verified ?? false,
-  });
+    maxTransactionLimit: maxTransactionLimit !== undefined ? BigInt(String(maxTransactionLimit)) : undefined,
+  };
+  addMerchant(merchant);
 
   res.status(HTTP_STATUS.OK).json({
     success: true,
-    merchant: merchantData,
+    merchant: serializeMerchant(merchant),
   });
 }
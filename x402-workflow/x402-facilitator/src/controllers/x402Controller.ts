@@ -0,0 +1,330 @@
+/**
+ * x402 Controller - spec facilitator endpoints for merchants
+ *
+ * /verify and /settle take the merchant's PaymentPayload and
+ * PaymentRequirements. They run the same policy, preflight, ledger,
+ * idempotency and settlement pipeline as /api/pay, so any x402 merchant can
+ * delegate payment handling to this service.
+ *
+ * Both "exact" and metered "upto" payments are accepted. For "upto", /verify
+ * checks the permitted maximum and /settle captures the `settleAmount` the
+ * merchant reports.
+ *
+ * A payment that needs the user's approval fails /verify with
+ * "approval_required". /settle holds it as /api/pay does and answers
+ * "approval_required" too; once the user decides, settling the same payment
+ * again returns the outcome.
+ *
+ * The authorization is bound to its payment before the first await. A retry
+ * that arrives while the payment is checked waits for the check, then joins
+ * the settlement or, if the payment was refused, is checked again.
+ */
+
+import type { Request, Response } from 'express';
+import type {
+  FacilitatorRequest, PaymentErrorCode, PaymentPayload, PaymentRequest, PaymentResult,
+  SettleResponse, SupportedKind, VerifyResponse,
+} from '../types/index.js';
+import { validatePaymentRequest, attributeSessionKey } from '../services/policyValidator.js';
+import { getExecutor, getSupportedNetworks, isNetworkSupported } from '../services/executor.js';
+import { startSettlement } from '../services/settlementWorker.js';
+import { holdForApproval, expireIfStale } from '../services/approvalQueue.js';
+import { createPaymentRecord, getPaymentRecord, updatePaymentRecord } from '../store/paymentLedger.js';
+import { authorizationFingerprint, getIdempotencyEntry, registerIdempotencyKeys, releaseIdempotencyKeys } from '../store/idempotency.js';
+import { HTTP_STATUS, X402_VERSION, PAYMENT_SCHEMES, X402_ERROR_REASONS } from '../constants/index.js';
+
+type X402ErrorReason = typeof X402_ERROR_REASONS[keyof typeof X402_ERROR_REASONS];
+
+interface PaymentCheckFailure {
+  reason: X402ErrorReason;
+  error: string;
+  errorCode: PaymentErrorCode;
+  /** Valid, but held until the user approves it */
+  needsApproval?: boolean;
+}
+
+const SUPPORTED_SCHEMES: string[] = Object.values(PAYMENT_SCHEMES);
+
+/** /settle checks still running, by payment id */
+const checksInFlight = new Map<string, Promise<PaymentCheckFailure | null>>();
+
+const ERROR_REASONS: Partial<Record<PaymentErrorCode, X402ErrorReason>> = {
+  INVALID_SIGNATURE: X402_ERROR_REASONS.INVALID_SIGNATURE,
+  EXPIRED: X402_ERROR_REASONS.INVALID_VALID_BEFORE,
+  INSUFFICIENT_BALANCE: X402_ERROR_REASONS.INSUFFICIENT_FUNDS,
+  UNSUPPORTED_NETWORK: X402_ERROR_REASONS.INVALID_NETWORK,
+  POLICY_VIOLATION: X402_ERROR_REASONS.POLICY_VIOLATION,
+  APPROVAL_DENIED: X402_ERROR_REASONS.POLICY_VIOLATION,
+  // Preflight reports an already used nonce as TRANSACTION_FAILED
+  TRANSACTION_FAILED: X402_ERROR_REASONS.NONCE_USED,
+};
+
+/**
+ * Decode the payment from the request body (decoded payload or raw X-PAYMENT header)
+ */
+function parsePaymentPayload(body: FacilitatorRequest): PaymentPayload | null {
+  if (body.paymentPayload) return body.paymentPayload;
+  if (!body.paymentHeader) return null;
+  try {
+    return JSON.parse(Buffer.from(body.paymentHeader, 'base64').toString('utf-8')) as PaymentPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map the spec shapes onto the facilitator's internal payment request (a
+ * granted session key pays on behalf of the user who granted it)
+ */
+function toPaymentRequest(payload: PaymentPayload, body: FacilitatorRequest): PaymentRequest {
+  const requirements = body.paymentRequirements;
+  // A metered payment settles the reported usage; verification checks the maximum
+  const metered = payload.scheme === PAYMENT_SCHEMES.UPTO && body.settleAmount !== undefined;
+  return attributeSessionKey({
+    userAddress: payload.payload.authorization.from,
+    scheme: payload.scheme,
+    challenge: {
+      merchantAddress: requirements.payTo,
+      amount: metered ? body.settleAmount! : requirements.maxAmountRequired,
+      asset: requirements.asset,
+      network: requirements.network,
+      resource: requirements.resource,
+      description: requirements.description,
+      timeoutSeconds: requirements.maxTimeoutSeconds,
+      extra: requirements.extra,
+    },
+    signedPayload: payload.payload,
+  });
+}
+
+/**
+ * Protocol checks: version, scheme and network must agree with the requirements
+ */
+function checkProtocol(body: FacilitatorRequest, payload: PaymentPayload | null): PaymentCheckFailure | null {
+  const requirements = body.paymentRequirements;
+  if (!requirements?.payTo || !requirements.maxAmountRequired || !requirements.network) {
+    return { reason: X402_ERROR_REASONS.INVALID_PAYMENT_REQUIREMENTS, error: 'Invalid payment requirements', errorCode: 'POLICY_VIOLATION' };
+  }
+  if (!payload?.payload?.authorization || !payload.payload.signature) {
+    return { reason: X402_ERROR_REASONS.INVALID_PAYLOAD, error: 'Invalid payment payload', errorCode: 'POLICY_VIOLATION' };
+  }
+  if (payload.x402Version !== X402_VERSION) {
+    return { reason: X402_ERROR_REASONS.INVALID_X402_VERSION, error: `Unsupported x402 version: ${payload.x402Version}`, errorCode: 'POLICY_VIOLATION' };
+  }
+  if (!SUPPORTED_SCHEMES.includes(payload.scheme) || payload.scheme !== requirements.scheme) {
+    return { reason: X402_ERROR_REASONS.INVALID_SCHEME, error: `Unsupported scheme: ${payload.scheme}`, errorCode: 'POLICY_VIOLATION' };
+  }
+  if (payload.network !== requirements.network || !isNetworkSupported(requirements.network)) {
+    return { reason: X402_ERROR_REASONS.INVALID_NETWORK, error: `Unsupported network: ${payload.network}`, errorCode: 'UNSUPPORTED_NETWORK' };
+  }
+  return null;
+}
+
+/**
+ * A metered settlement must report usage between 1 and the required maximum
+ */
+function checkSettleAmount(body: FacilitatorRequest): PaymentCheckFailure | null {
+  if (body.paymentRequirements.scheme !== PAYMENT_SCHEMES.UPTO) return null;
+  const { settleAmount } = body;
+  if (!settleAmount || !/^\d+$/.test(settleAmount) || BigInt(settleAmount) === 0n
+    || BigInt(settleAmount) > BigInt(body.paymentRequirements.maxAmountRequired)) {
+    return {
+      reason: X402_ERROR_REASONS.INVALID_PAYMENT_REQUIREMENTS,
+      error: 'upto settlement needs a settleAmount between 1 and maxAmountRequired',
+      errorCode: 'POLICY_VIOLATION',
+    };
+  }
+  return null;
+}
+
+/**
+ * User policy and on-chain preflight (signature, validity window, balance, nonce);
+ * a payment that needs approval fails only after passing preflight
+ */
+async function checkPayment(request: PaymentRequest, paymentId?: string): Promise<PaymentCheckFailure | null> {
+  const policyCheck = validatePaymentRequest(request, paymentId);
+  if (!policyCheck.allowed && !policyCheck.needsApproval) {
+    const error = policyCheck.reason ?? 'Policy violation';
+    return { reason: X402_ERROR_REASONS.POLICY_VIOLATION, error, errorCode: 'POLICY_VIOLATION' };
+  }
+
+  const preflight = await getExecutor(request.challenge.network).preflight(request);
+  if (preflight) {
+    const errorCode = preflight.errorCode ?? 'TRANSACTION_FAILED';
+    return { reason: ERROR_REASONS[errorCode] ?? X402_ERROR_REASONS.INVALID_PAYLOAD, error: preflight.error ?? 'Invalid payment', errorCode };
+  }
+
+  if (policyCheck.needsApproval) {
+    const error = policyCheck.reason ?? 'Needs approval';
+    return { reason: X402_ERROR_REASONS.APPROVAL_REQUIRED, error, errorCode: 'POLICY_VIOLATION', needsApproval: true };
+  }
+  return null;
+}
+
+/**
+ * Check a new /settle payment and record the outcome before anyone waiting on
+ * the check resumes: held for approval, refused (the authorization is released
+ * so a retry is checked again), failed when the check throws, or accepted
+ * for settlement
+ */
+function runCheck(request: PaymentRequest, paymentId: string, fingerprint: string): Promise<PaymentCheckFailure | null> {
+  const refuse = (status: 'rejected' | 'failed', error: string, errorCode: PaymentErrorCode) => {
+    updatePaymentRecord(paymentId, { status, error, errorCode });
+    releaseIdempotencyKeys([fingerprint], paymentId);
+  };
+
+  return checkPayment(request, paymentId)
+    .then(failure => {
+      if (failure?.needsApproval) {
+        holdForApproval(paymentId, failure.error);
+      } else if (failure) {
+        console.log(`[x402] Settle refused: ${failure.error}`);
+        refuse(failure.errorCode === 'POLICY_VIOLATION' ? 'rejected' : 'failed', failure.error, failure.errorCode);
+      } else {
+        updatePaymentRecord(paymentId, { status: 'pending' });
+      }
+      return failure;
+    }, error => {
+      refuse('failed', error instanceof Error ? error.message : 'Internal error', 'TRANSACTION_FAILED');
+      throw error;
+    })
+    .finally(() => checksInFlight.delete(paymentId));
+}
+
+function settleErrorReason(errorCode?: PaymentErrorCode): X402ErrorReason {
+  if (!errorCode || errorCode === 'TRANSACTION_FAILED') return X402_ERROR_REASONS.SETTLEMENT_FAILED;
+  return ERROR_REASONS[errorCode] ?? X402_ERROR_REASONS.SETTLEMENT_FAILED;
+}
+
+function toSettleResponse(result: PaymentResult, network: string, payer?: `0x${string}`): SettleResponse {
+  return {
+    success: result.success,
+    errorReason: result.success ? undefined : settleErrorReason(result.errorCode),
+    transaction: result.transactionHash ?? '',
+    network,
+    payer,
+  };
+}
+
+/**
+ * POST /verify
+ * Check a payment against the requirements without settling it
+ */
+export async function verifyPayment(
+  req: Request<object, VerifyResponse, FacilitatorRequest>,
+  res: Response<VerifyResponse>
+): Promise<void> {
+  try {
+    const payload = parsePaymentPayload(req.body);
+    const payer = payload?.payload?.authorization?.from;
+
+    const failure = checkProtocol(req.body, payload) ?? await checkPayment(toPaymentRequest(payload!, req.body));
+    if (failure) {
+      console.log(`[x402] Verify failed: ${failure.error}`);
+      res.json({ isValid: false, invalidReason: failure.reason, payer });
+      return;
+    }
+
+    res.json({ isValid: true, payer });
+  } catch (error) {
+    console.error('[x402] Verify error:', error instanceof Error ? error.message : error);
+    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({ isValid: false, invalidReason: X402_ERROR_REASONS.INVALID_PAYLOAD });
+  }
+}
+
+/**
+ * POST /settle
+ * Verify and settle a payment; retries of the same authorization return (or join) the original settlement
+ */
+export async function settlePayment(
+  req: Request<object, SettleResponse, FacilitatorRequest>,
+  res: Response<SettleResponse>
+): Promise<void> {
+  const network = req.body.paymentRequirements?.network ?? '';
+  let paymentId: string | undefined;
+  try {
+    const payload = parsePaymentPayload(req.body);
+    const payer = payload?.payload?.authorization?.from;
+
+    const protocolFailure = checkProtocol(req.body, payload) ?? checkSettleAmount(req.body);
+    if (protocolFailure) {
+      res.json({ success: false, errorReason: protocolFailure.reason, transaction: '', network, payer });
+      return;
+    }
+
+    const request = toPaymentRequest(payload!, req.body);
+    const { from, nonce } = request.signedPayload.authorization;
+    const fingerprint = authorizationFingerprint(from, nonce);
+
+    // Idempotency on the authorization: replay a finished settlement, join a running one
+    const existing = getIdempotencyEntry(fingerprint);
+    const existingRecord = existing && getPaymentRecord(existing.paymentId);
+    if (existingRecord) {
+      // A settled authorization only ever pays for the resource it was first settled for
+      if (existingRecord.resource !== request.challenge.resource) {
+        console.log(`[x402] Settle refused: ${fingerprint} already used for ${existingRecord.resource}`);
+        res.json({ success: false, errorReason: X402_ERROR_REASONS.NONCE_USED, transaction: '', network, payer });
+        return;
+      }
+      if (existingRecord.status === 'checking') {
+        const check = checksInFlight.get(existingRecord.id);
+        if (!check) {
+          res.json({ success: false, errorReason: X402_ERROR_REASONS.SETTLEMENT_FAILED, transaction: '', network, payer });
+          return;
+        }
+        await check.catch(() => undefined);
+        return settlePayment(req, res);
+      }
+      console.log(`[x402] Idempotent settle: ${existingRecord.id} (${existingRecord.status})`);
+      if (expireIfStale(existingRecord).status === 'awaiting-approval') {
+        res.json({ success: false, errorReason: X402_ERROR_REASONS.APPROVAL_REQUIRED, transaction: '', network, payer });
+        return;
+      }
+      const current = getPaymentRecord(existingRecord.id)!;
+      const result = current.status === 'pending' || !current.result
+        ? await startSettlement(existingRecord.id)
+        : current.result;
+      res.json(toSettleResponse(result, network, payer));
+      return;
+    }
+
+    paymentId = createPaymentRecord(request).id;
+    registerIdempotencyKeys([fingerprint], fingerprint, paymentId);
+    const check = runCheck(request, paymentId, fingerprint);
+    checksInFlight.set(paymentId, check);
+    const failure = await check;
+    if (failure) {
+      res.json({ success: false, errorReason: failure.reason, transaction: '', network, payer });
+      return;
+    }
+
+    const result = await startSettlement(paymentId);
+    console.log(`[x402] Settle ${paymentId}: ${result.success ? result.transactionHash : result.error}`);
+    res.json(toSettleResponse(result, network, payer));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal error';
+    console.error('[x402] Settle error:', message);
+    // Release the payment's reservation; it is never settled after the merchant got an error
+    if (paymentId && getPaymentRecord(paymentId)?.status === 'pending') {
+      updatePaymentRecord(paymentId, { status: 'failed', error: message, errorCode: 'TRANSACTION_FAILED' });
+    }
+    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+      success: false, errorReason: X402_ERROR_REASONS.SETTLEMENT_FAILED, transaction: '', network,
+    });
+  }
+}
+
+/**
+ * GET /supported
+ * Payment kinds this facilitator can verify and settle, each with the
+ * network's payTo, vault and asset in `extra`
+ */
+export function getSupportedKinds(_req: Request, res: Response<{ kinds: SupportedKind[] }>): void {
+  res.json({
+    kinds: getSupportedNetworks().flatMap(network => {
+      const executor = getExecutor(network);
+      const extra = { payTo: executor.facilitatorAddress, vault: executor.vaultAddress, asset: executor.usdcAddress };
+      return SUPPORTED_SCHEMES.map(scheme => ({ x402Version: X402_VERSION, scheme, network, extra }));
+    }),
+  });
+}
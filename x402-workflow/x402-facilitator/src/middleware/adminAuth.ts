@@ -0,0 +1,27 @@
+/**
+ * Admin Auth - guards operator endpoints with the ADMIN_API_KEY shared secret
+ *
+ * When ADMIN_API_KEY is unset the endpoints are disabled (503): they register
+ * trusted merchants and move funds, so they never fall back to open.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { config } from '../config/index.js';
+import { HTTP_STATUS, HTTP_HEADERS } from '../constants/index.js';
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const expected = config.admin.apiKey;
+  if (!expected) {
+    res.status(HTTP_STATUS.SERVICE_UNAVAILABLE).json({ error: 'Admin endpoints are disabled: ADMIN_API_KEY is not set' });
+    return;
+  }
+
+  const provided = Buffer.from(req.get(HTTP_HEADERS.ADMIN_KEY) ?? '');
+  const secret = Buffer.from(expected);
+  if (provided.length !== secret.length || !timingSafeEqual(provided, secret)) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({ error: 'Invalid admin key' });
+    return;
+  }
+  next();
+}
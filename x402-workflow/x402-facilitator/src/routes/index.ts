@@ -5,13 +5,26 @@
 import { Router } from 'express';
 import {
   executePayment,
+  getPaymentStatus,
+  getPolicyDomain,
   getPolicy,
   updatePolicy,
   authorizeMerchantEndpoint,
+  setBudgetEndpoint,
+  setSpendingWindowsEndpoint,
+  grantSessionKeyEndpoint,
+  revokeSessionKeyEndpoint,
   listMerchants,
   getMerchant,
   addMerchantEndpoint,
+  listUserPayments,
+  listApprovals,
+  approvePayment,
+  denyPayment,
+  getReconciliationStatus,
+  runReconciliation,
 } from '../controllers/index.js';
+import { requireAdmin } from '../middleware/adminAuth.js';
 
 const router = Router();
 
@@ -22,13 +35,26 @@ const router = Router();
 /**
  * POST /api/pay
  * Execute a payment (main endpoint for AI Agents)
+ * Add ?mode=async (or Prefer: respond-async) to get 202 and poll the job
  */
 router.post('/pay', executePayment);
 
+/**
+ * GET /api/payments/:id
+ * Settlement job status (queued, collected, approved, settled, failed)
+ */
+router.get('/payments/:id', getPaymentStatus);
+
 // =============================================================================
 // USER POLICY ROUTES
 // =============================================================================
 
+/**
+ * GET /api/policy-domain
+ * EIP-712 domain for signing policy changes with this deployment
+ */
+router.get('/policy-domain', getPolicyDomain);
+
 /**
  * GET /api/policy/:userAddress
  * Get user's policy and spending status
@@ -37,16 +63,68 @@ router.get('/policy/:userAddress', getPolicy);
 
 /**
  * POST /api/policy/:userAddress
- * Update user's policy settings
+ * Update user's policy settings (EIP-712 PolicyUpdate signed by the user)
  */
 router.post('/policy/:userAddress', updatePolicy);
 
 /**
  * POST /api/policy/:userAddress/authorize-merchant
- * Authorize a merchant for a user
+ * Authorize a merchant for a user (EIP-712 AuthorizeMerchant signed by the user)
  */
 router.post('/policy/:userAddress/authorize-merchant', authorizeMerchantEndpoint);
 
+/**
+ * POST /api/policy/:userAddress/budgets
+ * Set or remove a per-merchant or per-category budget (EIP-712 SetBudget signed by the user)
+ */
+router.post('/policy/:userAddress/budgets', setBudgetEndpoint);
+
+/**
+ * POST /api/policy/:userAddress/spending-windows
+ * Replace the user's rolling and calendar spending windows (EIP-712 SetSpendingWindows signed by the user)
+ */
+router.post('/policy/:userAddress/spending-windows', setSpendingWindowsEndpoint);
+
+/**
+ * POST /api/policy/:userAddress/session-keys
+ * Delegate a session key to an agent (EIP-712 GrantSessionKey signed by the user)
+ */
+router.post('/policy/:userAddress/session-keys', grantSessionKeyEndpoint);
+
+/**
+ * DELETE /api/policy/:userAddress/session-keys/:sessionKey
+ * Revoke a session key (EIP-712 RevokeSessionKey signed by the user)
+ */
+router.delete('/policy/:userAddress/session-keys/:sessionKey', revokeSessionKeyEndpoint);
+
+/**
+ * GET /api/policy/:userAddress/payments
+ * List the user's payment history (paging and date filters)
+ */
+router.get('/policy/:userAddress/payments', listUserPayments);
+
+// =============================================================================
+// APPROVAL ROUTES
+// =============================================================================
+
+/**
+ * GET /api/approvals/:userAddress
+ * Payments held for the user's approval
+ */
+router.get('/approvals/:userAddress', listApprovals);
+
+/**
+ * POST /api/approvals/:paymentId/approve
+ * Approve a held payment (EIP-712 PaymentDecision signed by the user)
+ */
+router.post('/approvals/:paymentId/approve', approvePayment);
+
+/**
+ * POST /api/approvals/:paymentId/deny
+ * Deny a held payment (EIP-712 PaymentDecision signed by the user)
+ */
+router.post('/approvals/:paymentId/deny', denyPayment);
+
 // =============================================================================
 // MERCHANT WHITELIST ROUTES
 // =============================================================================
@@ -65,8 +143,27 @@ router.get('/merchants/:address', getMerchant);
 
 /**
  * POST /api/merchants
- * Add merchant to whitelist
+ * Add merchant to whitelist (admin only: category and verified status are trusted by budgets)
+ */
+router.post('/merchants', requireAdmin, addMerchantEndpoint);
+
+// =============================================================================
+// ADMIN ROUTES (x-admin-key header; disabled while ADMIN_API_KEY is unset)
+// =============================================================================
+
+// The reconciler retries settlements and refunds payers from here, so the key guards every /admin route
+router.use('/admin', requireAdmin);
+
+/**
+ * GET /api/admin/reconciliation
+ * Last reconciler run and payments with funds stuck in the facilitator
+ */
+router.get('/admin/reconciliation', getReconciliationStatus);
+
+/**
+ * POST /api/admin/reconciliation/run
+ * Retry settlement or refund orphaned collections now
  */
-router.post('/merchants', addMerchantEndpoint);
+router.post('/admin/reconciliation/run', runReconciliation);
 
 export default router;
@@ -0,0 +1,28 @@
+/**
+ * x402 Facilitator Routes (spec endpoints, mounted at the root)
+ */
+
+import { Router } from 'express';
+import { verifyPayment, settlePayment, getSupportedKinds } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * POST /verify
+ * Validate a PaymentPayload against PaymentRequirements
+ */
+router.post('/verify', verifyPayment);
+
+/**
+ * POST /settle
+ * Verify and settle a payment on-chain
+ */
+router.post('/settle', settlePayment);
+
+/**
+ * GET /supported
+ * Supported (x402Version, scheme, network) kinds
+ */
+router.get('/supported', getSupportedKinds);
+
+export default router;
@@ -4,6 +4,9 @@
 
 import app from './app.js';
 import { config } from './config/index.js';
+import { getSupportedNetworks } from './services/executor.js';
+import { resumePendingSettlements } from './services/settlementWorker.js';
+import { startReconciler } from './services/reconciler.js';
 
 const PORT = config.server.port;
 
@@ -13,12 +16,22 @@ app.listen(PORT, () => {
 ║  💳 x402 Payment Facilitator                               ║
 ╠═══════════════════════════════════════════════════════════╣
 ║  Server:  http://localhost:${PORT}                           ║
-║  Network: avalanche-fuji (43113)                       ║
+║  ${`Networks: ${getSupportedNetworks().join(', ')}`.padEnd(53)}║
 ╠═══════════════════════════════════════════════════════════╣
 ║  POST /api/pay          GET  /api/policy/:address      ║
 ║  POST /api/policy/:addr  POST /api/merchants           ║
+║  GET  /api/policy/:addr/payments GET /api/payments/:id ║
+║  GET  /api/admin/reconciliation  POST .../run          ║
+║  POST /verify  POST /settle  GET /supported            ║
 ╚═══════════════════════════════════════════════════════════╝
 `);
+  if (!config.admin.apiKey) {
+    console.warn('[Admin] ADMIN_API_KEY is not set: merchant registration and /api/admin (reconciliation) are disabled');
+  }
+  resumePendingSettlements()
+    .catch(error => console.error('[Settlement] Resume failed:', error))
+    .finally(() => startReconciler());
 });
 
 process.on('SIGINT', () => { console.log('\n[Server] Shutting down...'); process.exit(0); });
+process.on('SIGTERM', () => { console.log('\n[Server] Shutting down...'); process.exit(0); });
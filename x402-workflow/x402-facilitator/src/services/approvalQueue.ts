@@ -0,0 +1,115 @@
+/**
+ * Approval Queue - payments held until the user approves or denies them
+ *
+ * A payment the policy validator marks as needing approval is kept in the
+ * ledger as "awaiting-approval" together with its signed payload. Approving
+ * re-checks the policy and the authorization's validBefore, then starts
+ * settlement; denying rejects the payment. Holds whose authorization expires
+ * first are failed as EXPIRED. /api/pay callers can wait for the decision
+ * (waitForDecision) or poll GET /api/payments/:id.
+ */
+
+import type { PaymentRecord, PaymentResult, PaymentErrorCode } from '../types/index.js';
+import { validatePaymentRequest } from './policyValidator.js';
+import { startSettlement } from './settlementWorker.js';
+import { getPaymentRecord, updatePaymentRecord, listAwaitingApprovalRecords } from '../store/paymentLedger.js';
+
+const waiters = new Map<string, Set<(record: PaymentRecord) => void>>();
+
+/** Wake every caller waiting on this payment */
+function notify(record: PaymentRecord): PaymentRecord {
+  waiters.get(record.id)?.forEach(resolve => resolve(record));
+  waiters.delete(record.id);
+  return record;
+}
+
+/** Unix ms after which the held authorization can no longer be executed */
+export function approvalDeadline(record: PaymentRecord): number {
+  return Number(record.request?.signedPayload.authorization.validBefore ?? 0) * 1000;
+}
+
+/** Stop a held payment without executing it */
+function close(record: PaymentRecord, status: 'failed' | 'rejected', error: string, errorCode: PaymentErrorCode, decision?: 'denied'): PaymentRecord {
+  const result: PaymentResult = { success: false, error, errorCode, paymentId: record.id };
+  const approval = { ...record.approval!, ...(decision ? { decision, decidedAt: Date.now() } : {}) };
+  return notify(updatePaymentRecord(record.id, { status, error, errorCode, result, approval }));
+}
+
+/**
+ * Fail a held payment whose authorization has expired (returns it unchanged otherwise)
+ */
+export function expireIfStale(record: PaymentRecord): PaymentRecord {
+  if (record.status !== 'awaiting-approval' || approvalDeadline(record) > Date.now()) return record;
+  console.log(`[Approval] ${record.id} expired before a decision`);
+  return close(record, 'failed', 'Authorization expired before approval', 'EXPIRED');
+}
+
+/**
+ * Hold a checked payment for the user's decision
+ */
+export function holdForApproval(paymentId: string, reason: string): PaymentRecord {
+  console.log(`[Approval] ${paymentId} held: ${reason}`);
+  return updatePaymentRecord(paymentId, { status: 'awaiting-approval', approval: { reason, requestedAt: Date.now() } });
+}
+
+/**
+ * A user's payments awaiting a decision (expired holds are failed and left out)
+ */
+export function listPendingApprovals(userAddress: `0x${string}`): PaymentRecord[] {
+  return listAwaitingApprovalRecords(userAddress)
+    .map(expireIfStale)
+    .filter(record => record.status === 'awaiting-approval');
+}
+
+/**
+ * Apply the user's decision to a held payment
+ *
+ * An approved payment is executed only if its authorization is still valid
+ * and it still passes the policy (apart from the approval itself); settlement
+ * then runs in the background.
+ */
+export function decideApproval(record: PaymentRecord, approved: boolean): PaymentRecord {
+  if (!approved) {
+    console.log(`[Approval] ${record.id} denied`);
+    return close(record, 'rejected', 'Payment denied by user', 'APPROVAL_DENIED', 'denied');
+  }
+
+  const current = expireIfStale(record);
+  if (current.status !== 'awaiting-approval') return current;
+
+  const policyCheck = validatePaymentRequest(record.request!, record.id);
+  if (!policyCheck.allowed && !policyCheck.needsApproval) {
+    return close(record, 'rejected', policyCheck.reason ?? 'Policy violation', 'POLICY_VIOLATION');
+  }
+
+  console.log(`[Approval] ${record.id} approved`);
+  const approval = { ...record.approval!, decision: 'approved' as const, decidedAt: Date.now() };
+  const updated = notify(updatePaymentRecord(record.id, { status: 'pending', approval }));
+  startSettlement(record.id).catch(error => console.error('[Approval] Settlement job error:', error));
+  return updated;
+}
+
+/**
+ * Resolve once the user decides on a held payment, or after `timeoutMs`
+ * (with the record as it stands then)
+ */
+export function waitForDecision(paymentId: string, timeoutMs: number): Promise<PaymentRecord> {
+  return new Promise(resolve => {
+    const current = getPaymentRecord(paymentId);
+    if (!current || current.status !== 'awaiting-approval') {
+      resolve(current!);
+      return;
+    }
+
+    const listeners = waiters.get(paymentId) ?? new Set();
+    const done = (record: PaymentRecord) => {
+      clearTimeout(timer);
+      listeners.delete(done);
+      if (listeners.size === 0 && waiters.get(paymentId) === listeners) waiters.delete(paymentId);
+      resolve(record);
+    };
+    const timer = setTimeout(() => done(expireIfStale(getPaymentRecord(paymentId)!)), timeoutMs);
+    listeners.add(done);
+    waiters.set(paymentId, listeners);
+  });
+}
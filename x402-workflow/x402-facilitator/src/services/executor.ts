@@ -1,17 +1,41 @@
 /**
- * Payment Executor - on-chain execution using EIP-3009 transferWithAuthorization
+ * Payment Executor - on-chain execution using EIP-3009 authorizations
+ *
+ * Each settlement step is exposed separately so the settlement worker can
+ * record transaction hashes as they are submitted and resume after a restart.
+ *
+ * A challenge whose `extra.authorizationType` is "receiveWithAuthorization"
+ * carries a ReceiveWithAuthorization paying the vault, which the vault redeems
+ * itself (`settleWithAuthorization`), so the payment settles in a single
+ * transaction; anything else is a TransferWithAuthorization paying this
+ * network's signer and goes collect -> approve -> settle.
+ *
+ * Metered ("upto") payments carry an EIP-2612 permit naming the vault as
+ * spender; the vault redeems it and pulls only the consumed amount
+ * (`settleWithPermit`), so unused allowance is never captured.
  */
 
-import { createPublicClient, createWalletClient, http, verifyTypedData, type Hex, type Address } from 'viem';
+import {
+  createPublicClient, createWalletClient, http, verifyTypedData, TransactionNotFoundError, TransactionReceiptNotFoundError,
+  type Chain, type Hex, type Address,
+} from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
-import { avalancheFuji } from 'viem/chains';
-import { USDC_ADDRESSES, NETWORKS, CHAIN_IDS } from '../constants/index.js';
+import { avalanche, avalancheFuji, base, baseSepolia } from 'viem/chains';
+import { NETWORKS, PAYMENT_SCHEMES, AUTHORIZATION_TYPES } from '../constants/index.js';
 import { config } from '../config/index.js';
-import type { PaymentRequest, PaymentResult } from '../types/index.js';
+import type { NetworkConfig, PaymentRequest, PaymentResult, TransactionOutcome } from '../types/index.js';
+
+const CHAINS: Record<string, Chain> = {
+  [NETWORKS.AVALANCHE_FUJI]: avalancheFuji,
+  [NETWORKS.AVALANCHE_MAINNET]: avalanche,
+  [NETWORKS.BASE_SEPOLIA]: baseSepolia,
+  [NETWORKS.BASE_MAINNET]: base,
+};
 
 const USDC_ABI = [
   { name: 'balanceOf', type: 'function', stateMutability: 'view', inputs: [{ name: 'account', type: 'address' }], outputs: [{ name: '', type: 'uint256' }] },
   { name: 'allowance', type: 'function', stateMutability: 'view', inputs: [{ name: 'owner', type: 'address' }, { name: 'spender', type: 'address' }], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'transfer', type: 'function', stateMutability: 'nonpayable', inputs: [{ name: 'to', type: 'address' }, { name: 'value', type: 'uint256' }], outputs: [{ name: '', type: 'bool' }] },
   { name: 'approve', type: 'function', stateMutability: 'nonpayable', inputs: [{ name: 'spender', type: 'address' }, { name: 'value', type: 'uint256' }], outputs: [{ name: '', type: 'bool' }] },
   { name: 'transferWithAuthorization', type: 'function', stateMutability: 'nonpayable',
     inputs: [
@@ -21,6 +45,7 @@ const USDC_ABI = [
     ], outputs: [] },
   { name: 'authorizationState', type: 'function', stateMutability: 'view',
     inputs: [{ name: 'authorizer', type: 'address' }, { name: 'nonce', type: 'bytes32' }], outputs: [{ name: '', type: 'bool' }] },
+  { name: 'nonces', type: 'function', stateMutability: 'view', inputs: [{ name: 'owner', type: 'address' }], outputs: [{ name: '', type: 'uint256' }] },
 ] as const;
 
 const VAULT_ABI = [
@@ -34,10 +59,43 @@ const VAULT_ABI = [
     ],
     outputs: [],
   },
+  {
+    name: 'settleWithAuthorization',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'author', type: 'address' },
+      { name: 'from', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'validAfter', type: 'uint256' },
+      { name: 'validBefore', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'settleWithPermit',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'author', type: 'address' },
+      { name: 'owner', type: 'address' },
+      { name: 'maxValue', type: 'uint256' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' },
+    ],
+    outputs: [],
+  },
 ] as const;
 
-const getEIP712Domain = (chainId: number, usdcAddress: Address) => ({
-  name: 'USD Coin', version: '2', chainId: BigInt(chainId), verifyingContract: usdcAddress
+const getEIP712Domain = (network: NetworkConfig) => ({
+  name: network.usdcDomainName, version: '2', chainId: BigInt(network.chainId), verifyingContract: network.usdcAddress
 });
 
 const TRANSFER_AUTH_TYPES = {
@@ -47,39 +105,81 @@ const TRANSFER_AUTH_TYPES = {
   ]
 } as const;
 
+const RECEIVE_AUTH_TYPES = {
+  ReceiveWithAuthorization: TRANSFER_AUTH_TYPES.TransferWithAuthorization,
+} as const;
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' }, { name: 'spender', type: 'address' }, { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }, { name: 'deadline', type: 'uint256' }
+  ]
+} as const;
+
+/**
+ * Split a 65-byte signature into the v, r, s contract arguments
+ */
+function splitSignature(signature: Hex): { v: number; r: Hex; s: Hex } {
+  return {
+    r: `0x${signature.slice(2, 66)}`,
+    s: `0x${signature.slice(66, 130)}`,
+    v: parseInt(signature.slice(130, 132), 16),
+  };
+}
+
 export class PaymentExecutor {
   private publicClient;
   private walletClient;
-  private usdcAddress: Address;
-  private chainId: number;
-  private vaultAddress: Address;
-  private facilitatorAddress: Address;
-
-  constructor() {
-    this.chainId = CHAIN_IDS[NETWORKS.AVALANCHE_FUJI];
-    this.usdcAddress = USDC_ADDRESSES[NETWORKS.AVALANCHE_FUJI];
-    this.vaultAddress = config.contracts.vaultAddress;
-    this.publicClient = createPublicClient({ chain: avalancheFuji, transport: http(config.rpc.url) });
-    const account = privateKeyToAccount(config.facilitator.privateKey);
-    this.walletClient = createWalletClient({ account, chain: avalancheFuji, transport: http(config.rpc.url) });
+  readonly usdcAddress: Address;
+  readonly vaultAddress: Address;
+  /** The signer that receives "exact" transfers on this network */
+  readonly facilitatorAddress: Address;
+
+  constructor(private readonly network: NetworkConfig) {
+    const chain = CHAINS[network.network];
+    this.usdcAddress = network.usdcAddress;
+    this.vaultAddress = network.vaultAddress;
+    this.publicClient = createPublicClient({ chain, transport: http(network.rpcUrl) });
+    const account = privateKeyToAccount(network.privateKey);
+    this.walletClient = createWalletClient({ account, chain, transport: http(network.rpcUrl) });
     this.facilitatorAddress = account.address;
-    console.log(`[Executor] Account: ${account.address}`);
+    console.log(`[Executor] ${network.network} (${network.chainId}) account: ${account.address}`);
+  }
+
+  /**
+   * Whether the payer signed a ReceiveWithAuthorization for the vault (single-transaction settlement)
+   */
+  usesVaultAuthorization(request: PaymentRequest): boolean {
+    return !this.usesPermit(request) && request.challenge.extra?.authorizationType === AUTHORIZATION_TYPES.RECEIVE;
+  }
+
+  /**
+   * Whether this is a metered ("upto") payment authorized by an EIP-2612 permit
+   */
+  usesPermit(request: PaymentRequest): boolean {
+    return request.scheme === PAYMENT_SCHEMES.UPTO;
   }
 
   async verifySignature(request: PaymentRequest): Promise<boolean> {
     try {
       const { authorization, signature } = request.signedPayload;
+      if (this.usesPermit(request)) {
+        const permit = {
+          owner: authorization.from, spender: authorization.to, value: BigInt(authorization.value),
+          nonce: BigInt(authorization.nonce), deadline: BigInt(authorization.validBefore)
+        };
+        return await verifyTypedData({
+          address: authorization.from, domain: getEIP712Domain(this.network), types: PERMIT_TYPES, primaryType: 'Permit', message: permit, signature,
+        });
+      }
       const message = {
         from: authorization.from, to: authorization.to, value: BigInt(authorization.value),
         validAfter: BigInt(authorization.validAfter), validBefore: BigInt(authorization.validBefore), nonce: authorization.nonce
       };
-      return await verifyTypedData({
-        address: authorization.from,
-        domain: getEIP712Domain(this.chainId, this.usdcAddress),
-        types: TRANSFER_AUTH_TYPES,
-        primaryType: 'TransferWithAuthorization',
-        message, signature
-      });
+      const domain = getEIP712Domain(this.network);
+      return this.usesVaultAuthorization(request)
+        ? await verifyTypedData({ address: authorization.from, domain, types: RECEIVE_AUTH_TYPES, primaryType: 'ReceiveWithAuthorization', message, signature })
+        : await verifyTypedData({ address: authorization.from, domain, types: TRANSFER_AUTH_TYPES, primaryType: 'TransferWithAuthorization', message, signature });
     } catch { return false; }
   }
 
@@ -93,9 +193,30 @@ export class PaymentExecutor {
     } catch { return false; }
   }
 
-  async executePayment(request: PaymentRequest): Promise<PaymentResult> {
-    const { authorization, signature } = request.signedPayload;
-    const amount = BigInt(authorization.value);
+  /**
+   * A permit is spent (or superseded) once the token's nonce for the owner has moved past it,
+   * unless someone else submitted it first: the nonce is then just past it and the vault still
+   * holds its allowance (the vault settles such a permit once)
+   */
+  async isPermitNonceUsed(owner: Address, nonce: Hex, amount: bigint): Promise<boolean> {
+    const current = await this.publicClient.readContract({ address: this.usdcAddress, abi: USDC_ABI, functionName: 'nonces', args: [owner] });
+    if (current === BigInt(nonce)) return false;
+    if (current !== BigInt(nonce) + 1n) return true;
+    const allowance = await this.publicClient.readContract({
+      address: this.usdcAddress, abi: USDC_ABI, functionName: 'allowance', args: [owner, this.vaultAddress],
+    });
+    return allowance < amount;
+  }
+
+  /**
+   * Off-chain checks run before any transaction is submitted.
+   * @returns A failed result, or null when the payment can proceed
+   */
+  async preflight(request: PaymentRequest): Promise<PaymentResult | null> {
+    const { authorization } = request.signedPayload;
+    const permit = this.usesPermit(request);
+    // A permit authorizes a maximum; only the challenge amount (consumed usage) is captured
+    const amount = permit ? BigInt(request.challenge.amount) : BigInt(authorization.value);
     console.log(`[Executor] From: ${authorization.from}, Amount: ${Number(amount) / 1e6} USDC`);
 
     // Verify signature
@@ -103,11 +224,32 @@ export class PaymentExecutor {
       return { success: false, error: 'Invalid signature', errorCode: 'INVALID_SIGNATURE' };
     }
 
+    // The signature domain is this network's USDC
+    if (request.challenge.asset.toLowerCase() !== this.usdcAddress.toLowerCase()) {
+      return { success: false, error: `Unsupported asset on ${this.network.network}: ${request.challenge.asset}`, errorCode: 'POLICY_VIOLATION' };
+    }
+
+    if (permit && authorization.to.toLowerCase() !== this.vaultAddress.toLowerCase()) {
+      return { success: false, error: 'Permit spender must be the vault', errorCode: 'POLICY_VIOLATION' };
+    }
+    if (permit && (amount <= 0n || amount > BigInt(authorization.value))) {
+      return { success: false, error: `Amount ${amount} is outside the permitted maximum ${authorization.value}`, errorCode: 'POLICY_VIOLATION' };
+    }
+
+    // The signed type decides the payee: the vault redeems a ReceiveWithAuthorization, this signer collects a transfer
+    const payee = this.usesVaultAuthorization(request) ? this.vaultAddress : this.facilitatorAddress;
+    if (!permit && authorization.to.toLowerCase() !== payee.toLowerCase()) {
+      return { success: false, error: `Authorization must pay ${payee} on ${this.network.network}`, errorCode: 'POLICY_VIOLATION' };
+    }
+
+    // The vault credits an author, so a direct authorization cannot settle without one
+    if (this.usesVaultAuthorization(request) && !request.challenge.extra?.authorAddress) {
+      return { success: false, error: 'Missing author address', errorCode: 'POLICY_VIOLATION' };
+    }
+
     // Check validity window
     const now = BigInt(Math.floor(Date.now() / 1000));
-    const validAfter = BigInt(authorization.validAfter);
-    const validBefore = BigInt(authorization.validBefore);
-    if (now < validAfter || now > validBefore) {
+    if (now < BigInt(authorization.validAfter) || now > BigInt(authorization.validBefore)) {
       return { success: false, error: 'Authorization expired', errorCode: 'EXPIRED' };
     }
 
@@ -118,85 +260,185 @@ export class PaymentExecutor {
     }
 
     // Check nonce
-    if (await this.isNonceUsed(authorization.from, authorization.nonce)) {
+    const nonceUsed = permit
+      ? await this.isPermitNonceUsed(authorization.from, authorization.nonce, amount)
+      : await this.isNonceUsed(authorization.from, authorization.nonce);
+    if (nonceUsed) {
       return { success: false, error: 'Nonce already used', errorCode: 'TRANSACTION_FAILED' };
     }
 
-    // Split signature
-    const r = `0x${signature.slice(2, 66)}` as Hex;
-    const s = `0x${signature.slice(66, 130)}` as Hex;
-    const v = parseInt(signature.slice(130, 132), 16);
+    return null;
+  }
 
-    try {
-      // Step 1: Collect funds to facilitator via transferWithAuthorization
-      const collectHash = await this.walletClient.writeContract({
-        address: this.usdcAddress,
-        abi: USDC_ABI,
-        functionName: 'transferWithAuthorization',
-        args: [authorization.from, authorization.to, amount, validAfter, validBefore, authorization.nonce, v, r, s],
-      });
-      console.log(`[Executor] Collect TX submitted: ${collectHash}`);
-      const collectReceipt = await this.publicClient.waitForTransactionReceipt({ hash: collectHash });
-      if (collectReceipt.status !== 'success') {
-        return { success: false, error: 'Collect transaction reverted', errorCode: 'TRANSACTION_FAILED', transactionHash: collectHash };
-      }
+  /**
+   * Step 1: Collect funds to facilitator via transferWithAuthorization
+   */
+  async submitCollect(request: PaymentRequest): Promise<Hex> {
+    const { authorization, signature } = request.signedPayload;
+    const { v, r, s } = splitSignature(signature);
 
-      // Step 2: Approve vault if needed
-      const currentAllowance: bigint = await this.publicClient.readContract({
-        address: this.usdcAddress,
-        abi: USDC_ABI,
-        functionName: 'allowance',
-        args: [this.facilitatorAddress, this.vaultAddress],
-      });
-
-      const needsApproval = currentAllowance < amount;
-      if (needsApproval) {
-        const approveHash = await this.walletClient.writeContract({
-          address: this.usdcAddress,
-          abi: USDC_ABI,
-          functionName: 'approve',
-          args: [this.vaultAddress, BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff')],
-        });
-        console.log(`[Executor] Approve TX submitted: ${approveHash}`);
-        const approveReceipt = await this.publicClient.waitForTransactionReceipt({ hash: approveHash });
-        if (approveReceipt.status !== 'success') {
-          return { success: false, error: 'Approve transaction reverted', errorCode: 'TRANSACTION_FAILED', transactionHash: approveHash };
-        }
-      }
+    const hash = await this.walletClient.writeContract({
+      address: this.usdcAddress,
+      abi: USDC_ABI,
+      functionName: 'transferWithAuthorization',
+      args: [
+        authorization.from, authorization.to, BigInt(authorization.value),
+        BigInt(authorization.validAfter), BigInt(authorization.validBefore), authorization.nonce, v, r, s,
+      ],
+    });
+    console.log(`[Executor] Collect TX submitted: ${hash}`);
+    return hash;
+  }
 
-      // Step 3: Settle to vault using authorAddress from challenge
-      const authorAddress = request.challenge.extra?.authorAddress;
-      if (!authorAddress) {
-        return { success: false, error: 'Missing author address', errorCode: 'TRANSACTION_FAILED' };
-      }
+  /**
+   * Step 2: Approve vault if the current allowance does not cover the amount
+   * @returns Approval transaction hash, or null when no approval was needed
+   */
+  async submitApprovalIfNeeded(amount: bigint): Promise<Hex | null> {
+    const currentAllowance: bigint = await this.publicClient.readContract({
+      address: this.usdcAddress,
+      abi: USDC_ABI,
+      functionName: 'allowance',
+      args: [this.facilitatorAddress, this.vaultAddress],
+    });
+    if (currentAllowance >= amount) return null;
 
-      const settleHash = await this.walletClient.writeContract({
-        address: this.vaultAddress,
-        abi: VAULT_ABI,
-        functionName: 'settlePayment',
-        args: [authorAddress, amount],
-      });
-      console.log(`[Executor] Settle TX submitted: ${settleHash}`);
-      const settleReceipt = await this.publicClient.waitForTransactionReceipt({ hash: settleHash });
-      if (settleReceipt.status !== 'success') {
-        return { success: false, error: 'Settlement reverted', errorCode: 'TRANSACTION_FAILED', transactionHash: settleHash };
-      }
+    const hash = await this.walletClient.writeContract({
+      address: this.usdcAddress,
+      abi: USDC_ABI,
+      functionName: 'approve',
+      args: [this.vaultAddress, BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff')],
+    });
+    console.log(`[Executor] Approve TX submitted: ${hash}`);
+    return hash;
+  }
 
-      return {
-        success: true,
-        transactionHash: settleHash,
-        details: { from: authorization.from, to: this.vaultAddress, amount: authorization.value, network: NETWORKS.AVALANCHE_FUJI },
-      };
+  /**
+   * Step 3: Settle to vault, crediting the author
+   * @returns The transaction hash and the account nonce it was sent with
+   */
+  async submitSettle(authorAddress: Address, amount: bigint): Promise<{ hash: Hex; nonce: number }> {
+    const nonce = await this.publicClient.getTransactionCount({ address: this.facilitatorAddress, blockTag: 'pending' });
+    const hash = await this.walletClient.writeContract({
+      address: this.vaultAddress,
+      abi: VAULT_ABI,
+      functionName: 'settlePayment',
+      args: [authorAddress, amount],
+      nonce,
+    });
+    console.log(`[Executor] Settle TX submitted: ${hash} (nonce ${nonce})`);
+    return { hash, nonce };
+  }
+
+  /**
+   * Single-transaction settlement: the vault redeems the payer's
+   * ReceiveWithAuthorization and credits the author
+   */
+  async submitSettleWithAuthorization(authorAddress: Address, request: PaymentRequest): Promise<Hex> {
+    const { authorization, signature } = request.signedPayload;
+    const { v, r, s } = splitSignature(signature);
+
+    const hash = await this.walletClient.writeContract({
+      address: this.vaultAddress,
+      abi: VAULT_ABI,
+      functionName: 'settleWithAuthorization',
+      args: [
+        authorAddress, authorization.from, BigInt(authorization.value),
+        BigInt(authorization.validAfter), BigInt(authorization.validBefore), authorization.nonce, v, r, s,
+      ],
+    });
+    console.log(`[Executor] Settle-with-authorization TX submitted: ${hash}`);
+    return hash;
+  }
+
+  /**
+   * Metered settlement: the vault redeems the payer's permit and pulls only
+   * the consumed amount, crediting the author
+   */
+  async submitSettleWithPermit(authorAddress: Address, request: PaymentRequest, amount: bigint): Promise<Hex> {
+    const { authorization, signature } = request.signedPayload;
+    const { v, r, s } = splitSignature(signature);
+
+    const hash = await this.walletClient.writeContract({
+      address: this.vaultAddress,
+      abi: VAULT_ABI,
+      functionName: 'settleWithPermit',
+      args: [
+        authorAddress, authorization.from, BigInt(authorization.value), amount, BigInt(authorization.validBefore), v, r, s,
+      ],
+    });
+    console.log(`[Executor] Settle-with-permit TX submitted: ${hash}`);
+    return hash;
+  }
+
+  /**
+   * Return collected funds from the facilitator wallet to the payer
+   */
+  async submitRefund(to: Address, amount: bigint): Promise<Hex> {
+    const hash = await this.walletClient.writeContract({
+      address: this.usdcAddress,
+      abi: USDC_ABI,
+      functionName: 'transfer',
+      args: [to, amount],
+    });
+    console.log(`[Executor] Refund TX submitted: ${hash}`);
+    return hash;
+  }
+
+  /**
+   * What became of a transaction this account submitted: mined ("success" or
+   * "reverted"), "pending" while it may still be mined, or "dropped" once the
+   * node no longer has it and a mined transaction has used its nonce. Without
+   * the nonce a missing transaction is never presumed dropped.
+   */
+  async transactionOutcome(hash: Hex, nonce?: number): Promise<TransactionOutcome> {
+    try {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash });
+      return receipt.status === 'success' ? 'success' : 'reverted';
     } catch (error) {
-      const msg = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`[Executor] Failed: ${msg}`);
-      return { success: false, error: msg, errorCode: 'TRANSACTION_FAILED' };
+      if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
     }
+
+    try {
+      await this.publicClient.getTransaction({ hash });
+      return 'pending';
+    } catch (error) {
+      if (!(error instanceof TransactionNotFoundError)) throw error;
+    }
+
+    if (nonce === undefined) return 'pending';
+    const mined = await this.publicClient.getTransactionCount({ address: this.facilitatorAddress, blockTag: 'latest' });
+    return mined > nonce ? 'dropped' : 'pending';
   }
+
+  /**
+   * Wait for a submitted transaction and report whether it succeeded
+   */
+  async confirm(hash: Hex, timeoutMs?: number): Promise<boolean> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash, timeout: timeoutMs });
+    return receipt.status === 'success';
+  }
+}
+
+export function isNetworkSupported(network: string): boolean {
+  return Object.hasOwn(config.networks, network);
+}
+
+export function getSupportedNetworks(): string[] {
+  return Object.keys(config.networks);
 }
 
-let executorInstance: PaymentExecutor | null = null;
-export function getExecutor(): PaymentExecutor {
-  if (!executorInstance) executorInstance = new PaymentExecutor();
-  return executorInstance;
+const executors = new Map<string, PaymentExecutor>();
+
+/**
+ * Executor for a configured network (throws for networks the facilitator does not serve)
+ */
+export function getExecutor(network: string): PaymentExecutor {
+  let executor = executors.get(network);
+  if (!executor) {
+    if (!isNetworkSupported(network)) throw new Error(`Unsupported network: ${network}`);
+    executor = new PaymentExecutor(config.networks[network]);
+    executors.set(network, executor);
+  }
+  return executor;
 }
@@ -2,5 +2,10 @@
  * Services Module Exports
  */
 
-export { PaymentExecutor, getExecutor } from './executor.js';
+export { PaymentExecutor, getExecutor, isNetworkSupported, getSupportedNetworks } from './executor.js';
+export { startSettlement, resumePendingSettlements } from './settlementWorker.js';
+export { reconcileOnce, getLastReconciliationRun, startReconciler, stopReconciler } from './reconciler.js';
 export { validatePaymentRequest } from './policyValidator.js';
+export { holdForApproval, listPendingApprovals, decideApproval, waitForDecision, expireIfStale } from './approvalQueue.js';
+export { verifyPolicyChange, verifySessionKeyConsent } from './policyAuth.js';
+export type { PolicyAuthResult } from './policyAuth.js';
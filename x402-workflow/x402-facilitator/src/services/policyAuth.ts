@@ -0,0 +1,157 @@
+/**
+ * Policy Auth Service - verifies user-signed policy changes
+ *
+ * Every change to a user's policy, and every decision on a payment held for
+ * approval, must be signed by that user's wallet as EIP-712 typed data with a
+ * nonce and an expiry. A nonce is accepted once per user; expiries are capped
+ * so the nonce store stays small. The domain names this deployment
+ * (config.policy.domain), so a signature is not accepted by another one.
+ */
+
+import { verifyTypedData } from 'viem';
+import { config } from '../config/index.js';
+import {
+  POLICY_UPDATE_TYPES, AUTHORIZE_MERCHANT_TYPES, GRANT_SESSION_KEY_TYPES, ACCEPT_SESSION_KEY_TYPES, REVOKE_SESSION_KEY_TYPES,
+  PAYMENT_DECISION_TYPES, SET_BUDGET_TYPES, SET_SPENDING_WINDOWS_TYPES, POLICY_SIGNATURE_MAX_TTL_SECONDS, HTTP_STATUS,
+} from '../constants/index.js';
+import { consumePolicyNonce } from '../store/policyNonces.js';
+import type { SignedPolicyChange } from '../types/index.js';
+
+export type PolicyAuthResult =
+  | { valid: true }
+  | { valid: false; status: number; error: string };
+
+type PolicyMessage =
+  | {
+    primaryType: 'PolicyUpdate';
+    message: { maxTransactionAmount: bigint; dailySpendingLimit: bigint; autoPayEnabled: boolean; approvalThreshold: bigint };
+  }
+  | { primaryType: 'AuthorizeMerchant'; message: { merchant: `0x${string}`; domain: string } }
+  | {
+    primaryType: 'GrantSessionKey';
+    message: { sessionKey: `0x${string}`; budget: bigint; merchants: `0x${string}`[]; domains: string[]; validUntil: bigint };
+  }
+  | { primaryType: 'RevokeSessionKey'; message: { sessionKey: `0x${string}` } }
+  | { primaryType: 'PaymentDecision'; message: { paymentId: string; approved: boolean } }
+  | { primaryType: 'SetBudget'; message: { scope: string; target: string; period: string; limit: bigint } }
+  | {
+    primaryType: 'SetSpendingWindows';
+    message: { timezone: string; windows: { kind: string; durationSeconds: bigint; limit: bigint }[] };
+  };
+
+/**
+ * Check a signed policy change from `userAddress` and consume its nonce
+ */
+export async function verifyPolicyChange(
+  userAddress: `0x${string}`,
+  change: PolicyMessage,
+  signed: Partial<SignedPolicyChange>
+): Promise<PolicyAuthResult> {
+  const { nonce, expiry, signature } = signed;
+  if (!signature || !/^0x[a-fA-F0-9]+$/.test(signature)) {
+    return { valid: false, status: HTTP_STATUS.UNAUTHORIZED, error: 'Missing signature' };
+  }
+  if (typeof nonce !== 'string' || !/^\d{1,78}$/.test(nonce)) {
+    return { valid: false, status: HTTP_STATUS.BAD_REQUEST, error: 'nonce must be a uint256 decimal string' };
+  }
+  const expiresAt = Number(expiry);
+  if (!Number.isInteger(expiresAt)) {
+    return { valid: false, status: HTTP_STATUS.BAD_REQUEST, error: 'expiry must be a Unix timestamp in seconds' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (expiresAt <= now) {
+    return { valid: false, status: HTTP_STATUS.UNAUTHORIZED, error: 'Signature expired' };
+  }
+  if (expiresAt > now + POLICY_SIGNATURE_MAX_TTL_SECONDS) {
+    return { valid: false, status: HTTP_STATUS.BAD_REQUEST, error: `expiry must be within ${POLICY_SIGNATURE_MAX_TTL_SECONDS}s` };
+  }
+
+  let verified = false;
+  try {
+    const fields = { user: userAddress, nonce: BigInt(nonce), expiry: BigInt(expiresAt) };
+    const signed = { address: userAddress, domain: config.policy.domain, signature };
+    switch (change.primaryType) {
+      case 'PolicyUpdate':
+        verified = await verifyTypedData({
+          ...signed, types: POLICY_UPDATE_TYPES, primaryType: 'PolicyUpdate', message: { ...fields, ...change.message },
+        });
+        break;
+      case 'AuthorizeMerchant':
+        verified = await verifyTypedData({
+          ...signed, types: AUTHORIZE_MERCHANT_TYPES, primaryType: 'AuthorizeMerchant', message: { ...fields, ...change.message },
+        });
+        break;
+      case 'GrantSessionKey':
+        verified = await verifyTypedData({
+          ...signed, types: GRANT_SESSION_KEY_TYPES, primaryType: 'GrantSessionKey', message: { ...fields, ...change.message },
+        });
+        break;
+      case 'RevokeSessionKey':
+        verified = await verifyTypedData({
+          ...signed, types: REVOKE_SESSION_KEY_TYPES, primaryType: 'RevokeSessionKey', message: { ...fields, ...change.message },
+        });
+        break;
+      case 'PaymentDecision':
+        verified = await verifyTypedData({
+          ...signed, types: PAYMENT_DECISION_TYPES, primaryType: 'PaymentDecision', message: { ...fields, ...change.message },
+        });
+        break;
+      case 'SetBudget':
+        verified = await verifyTypedData({
+          ...signed, types: SET_BUDGET_TYPES, primaryType: 'SetBudget', message: { ...fields, ...change.message },
+        });
+        break;
+      case 'SetSpendingWindows':
+        verified = await verifyTypedData({
+          ...signed, types: SET_SPENDING_WINDOWS_TYPES, primaryType: 'SetSpendingWindows', message: { ...fields, ...change.message },
+        });
+        break;
+    }
+  } catch {
+    verified = false;
+  }
+  if (!verified) {
+    return { valid: false, status: HTTP_STATUS.UNAUTHORIZED, error: `Signature is not from ${userAddress}` };
+  }
+
+  // Only a genuine signature consumes its nonce
+  if (!consumePolicyNonce(userAddress, nonce, expiresAt)) {
+    return { valid: false, status: HTTP_STATUS.CONFLICT, error: 'Policy change was already applied (nonce reused)' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Check that a session key consented to being granted by `userAddress`
+ * (an EIP-712 AcceptSessionKey signed by the key with the grant's nonce and
+ * expiry; the nonce is consumed by the grant itself)
+ */
+export async function verifySessionKeyConsent(
+  userAddress: `0x${string}`,
+  sessionKey: `0x${string}`,
+  validUntil: number,
+  signed: Partial<SignedPolicyChange> & { sessionKeySignature?: unknown }
+): Promise<PolicyAuthResult> {
+  const { nonce, expiry, sessionKeySignature } = signed;
+  if (typeof sessionKeySignature !== 'string' || !/^0x[a-fA-F0-9]+$/.test(sessionKeySignature)) {
+    return { valid: false, status: HTTP_STATUS.UNAUTHORIZED, error: 'Missing sessionKeySignature from the session key' };
+  }
+
+  let verified = false;
+  try {
+    verified = await verifyTypedData({
+      address: sessionKey,
+      domain: config.policy.domain,
+      types: ACCEPT_SESSION_KEY_TYPES,
+      primaryType: 'AcceptSessionKey',
+      message: { user: userAddress, sessionKey, validUntil: BigInt(validUntil), nonce: BigInt(nonce!), expiry: BigInt(expiry!) },
+      signature: sessionKeySignature as `0x${string}`,
+    });
+  } catch {
+    verified = false;
+  }
+  return verified
+    ? { valid: true }
+    : { valid: false, status: HTTP_STATUS.UNAUTHORIZED, error: `Session key ${sessionKey} did not accept this grant` };
+}
@@ -1,28 +1,78 @@
 /**
  * Policy Validator Service - validates payment requests against policies
+ *
+ * A payment is allowed, denied, or (when every hard check passes but the
+ * merchant is not authorized by the user or the amount is above the user's
+ * approval threshold) held until the user approves it.
  */
 
 import type { PaymentRequest, PolicyCheckResult } from '../types/index.js';
-import { getUserPolicy, isMerchantAuthorized, getRemainingDailyAllowance } from '../store/userPolicy.js';
+import { getUserPolicy, isMerchantAuthorized, getSessionKey, findSessionKeyOwner, hasUserPolicy } from '../store/userPolicy.js';
 import { isMerchantWhitelisted, getMerchantInfo } from '../store/merchantWhitelist.js';
+import { PAYMENT_SCHEMES } from '../constants/index.js';
+import { sumInFlightPayments } from '../store/paymentLedger.js';
+import { budgetMerchantOf, checkBudgets, isUncategorizedForBudgets } from './spendingBudgets.js';
+import { getSpendingWindowStatuses, describeWindow, remainingAllowance } from './spendingWindows.js';
 
-export function validatePaymentRequest(request: PaymentRequest): PolicyCheckResult {
+/**
+ * Why a session key may not make this payment (null if it may); the key's
+ * payments still in flight are reserved against its budget
+ */
+function checkSessionKey(request: PaymentRequest, amount: bigint, paymentId?: string): string | null {
+  const { userAddress, sessionKey, challenge } = request;
+  const key = getSessionKey(userAddress, sessionKey!);
+  if (!key) return 'Session key not granted by user';
+  if (key.revokedAt) return 'Session key revoked';
+  if (key.validUntil * 1000 <= Date.now()) return 'Session key expired';
+
+  if (key.merchants.length > 0 || key.domains.length > 0) {
+    const merchantAllowed = key.merchants.includes(challenge.merchantAddress.toLowerCase() as `0x${string}`);
+    const domainAllowed = !!challenge.merchantDomain && key.domains.includes(challenge.merchantDomain.toLowerCase());
+    if (!merchantAllowed && !domainAllowed) return 'Merchant not allowed for session key';
+  }
+
+  const reserved = sumInFlightPayments(userAddress, paymentId, record => record.request?.sessionKey?.toLowerCase() === key.address);
+  const remaining = key.budget - key.spent - reserved;
+  if (amount > remaining) return `Exceeds session key budget (remaining: ${remaining > 0n ? remaining : 0n})`;
+  return null;
+}
+
+/**
+ * Attribute a payment signed by a granted session key to the user who granted
+ * it, whatever the caller sent, so the key's grant (including revocation) and
+ * the user's policy apply on every entry point. A wallet with a policy of its
+ * own is never attributed to anyone else.
+ */
+export function attributeSessionKey(request: PaymentRequest): PaymentRequest {
+  const { from } = request.signedPayload.authorization;
+  if (hasUserPolicy(from)) return request;
+  const owner = findSessionKeyOwner(from);
+  return owner ? { ...request, userAddress: owner, sessionKey: from } : request;
+}
+
+/**
+ * Check a payment against the user's policy
+ * @param paymentId - Ledger id of the payment being checked, when it has one
+ *   (so it is not counted as in flight against itself)
+ */
+export function validatePaymentRequest(request: PaymentRequest, paymentId?: string): PolicyCheckResult {
   const { userAddress, challenge, signedPayload } = request;
   const amount = BigInt(challenge.amount);
 
   console.log(`[Policy] User: ${userAddress}, Amount: ${Number(amount) / 1e6} USDC`);
 
+  // Merchant limits, categories and budgets apply to the credited author (every merchant shares the payTo)
+  const merchant = budgetMerchantOf({ merchantAddress: challenge.merchantAddress, authorAddress: challenge.extra?.authorAddress });
+
   // 1. Merchant whitelist (warning only)
-  const isWhitelisted = isMerchantWhitelisted(challenge.merchantAddress);
+  const isWhitelisted = isMerchantWhitelisted(merchant);
+  const merchantInfo = isWhitelisted ? getMerchantInfo(merchant) : undefined;
   if (isWhitelisted) {
-    const info = getMerchantInfo(challenge.merchantAddress);
-    console.log(`[Policy] Merchant whitelisted: ${info?.name}`);
+    console.log(`[Policy] Merchant whitelisted: ${merchantInfo?.name}`);
   }
 
-  // 2. User authorization
-  if (!isMerchantAuthorized(userAddress, challenge.merchantAddress, challenge.merchantDomain)) {
-    return { allowed: false, reason: 'Merchant not authorized by user' };
-  }
+  // 2. User authorization (an unauthorized merchant needs approval, decided last)
+  const merchantAuthorized = isMerchantAuthorized(userAddress, challenge.merchantAddress, challenge.merchantDomain);
 
   // 3. Transaction limit
   const policy = getUserPolicy(userAddress);
@@ -30,27 +80,57 @@ export function validatePaymentRequest(request: PaymentRequest): PolicyCheckResu
     return { allowed: false, reason: `Exceeds limit (max: ${policy.maxTransactionAmount})`, maxAllowed: policy.maxTransactionAmount };
   }
 
-  // 4. Daily limit
-  const remainingDaily = getRemainingDailyAllowance(userAddress);
-  if (amount > remainingDaily) {
-    return { allowed: false, reason: `Exceeds daily limit (remaining: ${remainingDaily})`, remainingDaily };
+  // 4. Spending windows (every rolling and calendar window must have room)
+  const windows = getSpendingWindowStatuses(userAddress, paymentId);
+  for (const window of windows) {
+    if (amount > window.remaining) {
+      return { allowed: false, reason: `Exceeds ${describeWindow(window)} limit (remaining: ${window.remaining})`, remainingAllowance: window.remaining };
+    }
+  }
+
+  // 5. Merchant's own transaction limit
+  if (merchantInfo?.maxTransactionLimit !== undefined && amount > merchantInfo.maxTransactionLimit) {
+    return { allowed: false, reason: `Exceeds merchant limit (max: ${merchantInfo.maxTransactionLimit})`, maxAllowed: merchantInfo.maxTransactionLimit };
+  }
+
+  // 6. Per-merchant and per-category budgets
+  const budgetViolation = checkBudgets(userAddress, merchant, amount, paymentId);
+  if (budgetViolation) {
+    return { allowed: false, reason: budgetViolation };
   }
 
-  // 5. From address match
-  if (signedPayload.authorization.from.toLowerCase() !== userAddress.toLowerCase()) {
+  // 7. From address match (the session key signs and pays when an agent uses one)
+  const signer = request.sessionKey ?? userAddress;
+  if (signedPayload.authorization.from.toLowerCase() !== signer.toLowerCase()) {
     return { allowed: false, reason: 'From address mismatch' };
   }
+  if (request.sessionKey) {
+    const keyViolation = checkSessionKey(request, amount, paymentId);
+    if (keyViolation) return { allowed: false, reason: keyViolation };
+  }
 
-  // 6. To address match
+  // 8. To address match
   if (signedPayload.authorization.to.toLowerCase() !== challenge.merchantAddress.toLowerCase()) {
     return { allowed: false, reason: 'Destination mismatch' };
   }
 
-  // 7. Amount match
-  if (BigInt(signedPayload.authorization.value) !== amount) {
+  // 9. Amount match (a metered permit signs the maximum; any usage up to it may be captured)
+  const signedValue = BigInt(signedPayload.authorization.value);
+  if (request.scheme === PAYMENT_SCHEMES.UPTO ? amount <= 0n || amount > signedValue : amount !== signedValue) {
     return { allowed: false, reason: 'Amount mismatch' };
   }
 
+  // 10. Approval: unauthorized merchant, amount above the user's threshold, or category budgets that cannot apply
+  if (!merchantAuthorized) {
+    return { allowed: false, needsApproval: true, reason: 'Merchant not authorized by user' };
+  }
+  if (policy.approvalThreshold && amount > policy.approvalThreshold) {
+    return { allowed: false, needsApproval: true, reason: `Above approval threshold (${policy.approvalThreshold})` };
+  }
+  if (isUncategorizedForBudgets(userAddress, merchant)) {
+    return { allowed: false, needsApproval: true, reason: 'Merchant has no verified category for the user\'s category budgets' };
+  }
+
   console.log('[Policy] All checks passed');
-  return { allowed: true, remainingDaily: remainingDaily - amount };
+  return { allowed: true, remainingAllowance: remainingAllowance(windows) - amount };
 }
@@ -0,0 +1,175 @@
+/**
+ * Reconciler - recovers payments that stopped after collecting user funds
+ *
+ * A payment can fail after transferWithAuthorization moved the user's USDC to
+ * the facilitator (missing author address, vault revert, RPC error while
+ * waiting for a receipt). The reconciler scans the ledger for those orphaned
+ * collections and either retries the vault settlement from the stage where it
+ * stopped or, when that is impossible or keeps failing, refunds the payer.
+ *
+ * A settle transaction from the failed attempt may still land, so neither is
+ * done until it has reverted or is provably dropped; if it succeeded the
+ * payment is marked settled instead.
+ */
+
+import type { PaymentRecord, ReconciliationAction } from '../types/index.js';
+import { config } from '../config/index.js';
+import { getExecutor, isNetworkSupported } from './executor.js';
+import { startSettlement } from './settlementWorker.js';
+import { getPaymentRecord, listOrphanedPaymentRecords, updatePaymentRecord } from '../store/paymentLedger.js';
+
+const RECEIPT_TIMEOUT_MS = 30_000;
+
+export interface ReconciliationRun {
+  startedAt: string;
+  finishedAt: string;
+  examined: number;
+  actions: ReconciliationAction[];
+}
+
+let lastRun: ReconciliationRun | null = null;
+let running: Promise<ReconciliationRun> | null = null;
+let timer: NodeJS.Timeout | null = null;
+
+function recordAction(paymentId: string, action: Omit<ReconciliationAction, 'paymentId' | 'timestamp'>, settleAttempt = false): ReconciliationAction {
+  const entry: ReconciliationAction = { ...action, paymentId, timestamp: Date.now() };
+  const history = getPaymentRecord(paymentId)?.reconciliation ?? { settleAttempts: 0, actions: [] };
+  updatePaymentRecord(paymentId, {
+    reconciliation: {
+      settleAttempts: history.settleAttempts + (settleAttempt ? 1 : 0),
+      actions: [...history.actions, entry],
+    },
+  });
+  console.log(`[Reconciler] ${paymentId}: ${entry.action} ${entry.success ? 'ok' : `failed (${entry.error})`}`);
+  return entry;
+}
+
+/**
+ * A failed collect may have been mined after all (e.g. receipt wait timed out)
+ * @returns Whether the funds are confirmed to be in the facilitator wallet
+ */
+async function confirmCollection(record: PaymentRecord, actions: ReconciliationAction[]): Promise<boolean> {
+  if (record.stage !== 'queued') return true;
+
+  const executor = getExecutor(record.network);
+  const collected = await executor.confirm(record.transactions.collect!, RECEIPT_TIMEOUT_MS).catch(() => false);
+  if (!collected) return false;
+
+  updatePaymentRecord(record.id, { stage: 'collected' });
+  actions.push(recordAction(record.id, { action: 'collect-confirmed', success: true, transactionHash: record.transactions.collect }));
+  return true;
+}
+
+/**
+ * Check the settle transaction an earlier attempt submitted; one that succeeded
+ * finishes the payment (spending is recorded as for any settled payment)
+ * @returns Whether the payment may be settled again or refunded
+ */
+async function checkEarlierSettle(record: PaymentRecord, actions: ReconciliationAction[]): Promise<boolean> {
+  const hash = record.transactions.settle;
+  if (!hash) return true;
+
+  const executor = getExecutor(record.network);
+  const outcome = await executor.transactionOutcome(hash, record.transactions.settleNonce).catch(() => 'pending' as const);
+  if (outcome === 'reverted' || outcome === 'dropped') return true;
+  if (outcome === 'pending') return false;
+
+  updatePaymentRecord(record.id, { status: 'pending', error: undefined, errorCode: undefined, result: undefined, stage: 'settled' });
+  const result = await startSettlement(record.id);
+  actions.push(recordAction(record.id, { action: 'settle-confirmed', success: result.success, transactionHash: hash, error: result.error }));
+  return false;
+}
+
+async function retrySettlement(record: PaymentRecord): Promise<ReconciliationAction> {
+  // Clear the reverted or dropped settle so the worker submits a fresh transaction
+  const { settle: _failedSettle, settleNonce: _failedNonce, ...transactions } = record.transactions;
+  const reset = updatePaymentRecord(record.id, {
+    status: 'pending',
+    error: undefined,
+    errorCode: undefined,
+    result: undefined,
+    transactions,
+  });
+
+  const result = await startSettlement(reset.id);
+  return recordAction(record.id, {
+    action: 'retry-settlement',
+    success: result.success,
+    transactionHash: result.transactionHash,
+    error: result.error,
+  }, true);
+}
+
+async function refund(record: PaymentRecord): Promise<ReconciliationAction> {
+  const executor = getExecutor(record.network);
+  try {
+    const refundHash = record.transactions.refund
+      ?? await executor.submitRefund(record.userAddress, record.amount);
+    updatePaymentRecord(record.id, { transactions: { ...record.transactions, refund: refundHash } });
+
+    if (!await executor.confirm(refundHash, RECEIPT_TIMEOUT_MS)) {
+      // Drop the reverted hash so the next run submits a new refund
+      const { refund: _reverted, ...transactions } = record.transactions;
+      updatePaymentRecord(record.id, { transactions });
+      return recordAction(record.id, { action: 'refund', success: false, transactionHash: refundHash, error: 'Refund transaction reverted' });
+    }
+
+    updatePaymentRecord(record.id, { status: 'refunded' });
+    return recordAction(record.id, { action: 'refund', success: true, transactionHash: refundHash });
+  } catch (error) {
+    return recordAction(record.id, { action: 'refund', success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+async function reconcile(): Promise<ReconciliationRun> {
+  const startedAt = new Date().toISOString();
+  const orphaned = listOrphanedPaymentRecords();
+  const actions: ReconciliationAction[] = [];
+
+  for (const record of orphaned) {
+    // Left for when the network is configured again
+    if (!isNetworkSupported(record.network)) continue;
+    if (!await confirmCollection(record, actions)) continue;
+    if (!await checkEarlierSettle(record, actions)) continue;
+
+    const attempts = record.reconciliation?.settleAttempts ?? 0;
+    const canSettle = record.authorAddress !== undefined && record.request !== undefined
+      && attempts < config.reconciler.maxSettleAttempts;
+
+    actions.push(canSettle ? await retrySettlement(record) : await refund(record));
+  }
+
+  lastRun = { startedAt, finishedAt: new Date().toISOString(), examined: orphaned.length, actions };
+  return lastRun;
+}
+
+/**
+ * Run one reconciliation pass (concurrent callers share the same run)
+ */
+export function reconcileOnce(): Promise<ReconciliationRun> {
+  if (!running) {
+    running = reconcile().finally(() => { running = null; });
+  }
+  return running;
+}
+
+export function getLastReconciliationRun(): ReconciliationRun | null {
+  return lastRun;
+}
+
+/**
+ * Start the periodic background reconciler
+ */
+export function startReconciler(intervalMs: number = config.reconciler.intervalMs): void {
+  if (timer || intervalMs <= 0) return;
+  timer = setInterval(() => {
+    reconcileOnce().catch(error => console.error('[Reconciler] Run failed:', error));
+  }, intervalMs);
+  timer.unref();
+  console.log(`[Reconciler] Running every ${intervalMs / 1000}s`);
+}
+
+export function stopReconciler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,141 @@
+/**
+ * Settlement Worker - drives a ledger payment through collect, approve and settle
+ *
+ * Progress is written to the ledger after every step (transaction hash on
+ * submission, stage on confirmation), so a job interrupted by a restart
+ * resumes at the stage where it stopped instead of starting over.
+ *
+ * Payments authorized directly to the vault skip collect and approve: one
+ * settleWithAuthorization transaction moves them from queued to settled.
+ * Metered ("upto") payments do the same with settleWithPermit, capturing only
+ * the consumed amount.
+ */
+
+import type { PaymentRecord, PaymentResult, PaymentErrorCode, PaymentTransactions } from '../types/index.js';
+import { getExecutor, isNetworkSupported } from './executor.js';
+import { getPaymentRecord, updatePaymentRecord, listPendingPaymentRecords, listCheckingPaymentRecords } from '../store/paymentLedger.js';
+import { recordSpending, recordSessionKeySpending } from '../store/userPolicy.js';
+
+const inFlight = new Map<string, Promise<PaymentResult>>();
+
+/**
+ * Run (or join) the settlement job for a payment
+ */
+export function startSettlement(paymentId: string): Promise<PaymentResult> {
+  let job = inFlight.get(paymentId);
+  if (!job) {
+    job = runSettlement(paymentId).finally(() => inFlight.delete(paymentId));
+    inFlight.set(paymentId, job);
+  }
+  return job;
+}
+
+/**
+ * Resume every pending job found in the ledger (called on startup); payments
+ * whose checks were interrupted were never accepted and are failed instead
+ */
+export async function resumePendingSettlements(): Promise<void> {
+  for (const record of listCheckingPaymentRecords()) {
+    const error = 'Interrupted before the payment was checked';
+    updatePaymentRecord(record.id, { status: 'failed', error, errorCode: 'TRANSACTION_FAILED' });
+    console.log(`[Settlement] ${record.id}: ${error}`);
+  }
+
+  const pending = listPendingPaymentRecords();
+  if (pending.length === 0) return;
+
+  console.log(`[Settlement] Resuming ${pending.length} pending payment(s)`);
+  for (const record of pending) {
+    const result = await startSettlement(record.id);
+    console.log(`[Settlement] ${record.id}: ${result.success ? 'settled' : result.error}`);
+  }
+}
+
+function finish(record: PaymentRecord, result: PaymentResult): PaymentResult {
+  const final: PaymentResult = { ...result, paymentId: record.id, transactions: record.transactions };
+  updatePaymentRecord(record.id, {
+    status: final.success ? 'succeeded' : 'failed',
+    error: final.error,
+    errorCode: final.errorCode,
+    result: final,
+  });
+  return final;
+}
+
+async function runSettlement(paymentId: string): Promise<PaymentResult> {
+  let record = getPaymentRecord(paymentId);
+  if (!record) throw new Error(`Payment not found: ${paymentId}`);
+
+  const fail = (error: string, errorCode: PaymentErrorCode = 'TRANSACTION_FAILED', transactionHash?: `0x${string}`) =>
+    finish(record!, { success: false, error, errorCode, transactionHash });
+
+  if (!record.request) return fail('Payment request was not stored; cannot settle');
+  if (!isNetworkSupported(record.network)) return fail(`Unsupported network: ${record.network}`, 'UNSUPPORTED_NETWORK');
+
+  const executor = getExecutor(record.network);
+  const { request, amount } = record;
+  const saveTransaction = (update: PaymentTransactions) => {
+    record = updatePaymentRecord(paymentId, { transactions: { ...record!.transactions, ...update } });
+  };
+
+  try {
+    // Single transaction: the vault redeems the permit and pulls only the consumed amount
+    if (record.stage === 'queued' && executor.usesPermit(request)) {
+      if (!record.authorAddress) return fail('Missing author address');
+      const settleHash = record.transactions.settle ?? await executor.submitSettleWithPermit(record.authorAddress, request, amount);
+      saveTransaction({ settle: settleHash });
+      if (!await executor.confirm(settleHash)) return fail('Settlement reverted', 'TRANSACTION_FAILED', settleHash);
+      record = updatePaymentRecord(paymentId, { stage: 'settled' });
+    }
+
+    // Single transaction: the vault pulls the funds with the payer's authorization
+    if (record.stage === 'queued' && executor.usesVaultAuthorization(request)) {
+      if (!record.authorAddress) return fail('Missing author address');
+      const settleHash = record.transactions.settle ?? await executor.submitSettleWithAuthorization(record.authorAddress, request);
+      saveTransaction({ settle: settleHash });
+      if (!await executor.confirm(settleHash)) return fail('Settlement reverted', 'TRANSACTION_FAILED', settleHash);
+      record = updatePaymentRecord(paymentId, { stage: 'settled' });
+    }
+
+    // Step 1: Collect (resume by waiting on an already submitted transaction)
+    if (record.stage === 'queued') {
+      const collectHash = record.transactions.collect ?? await executor.submitCollect(request);
+      saveTransaction({ collect: collectHash });
+      if (!await executor.confirm(collectHash)) return fail('Collect transaction reverted', 'TRANSACTION_FAILED', collectHash);
+      record = updatePaymentRecord(paymentId, { stage: 'collected' });
+    }
+
+    // Step 2: Approve vault if needed
+    if (record.stage === 'collected') {
+      const approveHash = record.transactions.approve ?? await executor.submitApprovalIfNeeded(amount);
+      if (approveHash) {
+        saveTransaction({ approve: approveHash });
+        if (!await executor.confirm(approveHash)) return fail('Approve transaction reverted', 'TRANSACTION_FAILED', approveHash);
+      }
+      record = updatePaymentRecord(paymentId, { stage: 'approved' });
+    }
+
+    // Step 3: Settle to vault using authorAddress from challenge
+    if (record.stage === 'approved') {
+      if (!record.authorAddress) return fail('Missing author address');
+      const settle = record.transactions.settle
+        ? { hash: record.transactions.settle, nonce: record.transactions.settleNonce }
+        : await executor.submitSettle(record.authorAddress, amount);
+      saveTransaction({ settle: settle.hash, settleNonce: settle.nonce });
+      if (!await executor.confirm(settle.hash)) return fail('Settlement reverted', 'TRANSACTION_FAILED', settle.hash);
+      record = updatePaymentRecord(paymentId, { stage: 'settled' });
+    }
+
+    recordSpending(record.userAddress, record.merchantAddress, record.authorAddress, amount, record.id);
+    if (request.sessionKey) recordSessionKeySpending(record.userAddress, request.sessionKey, amount);
+    return finish(record, {
+      success: true,
+      transactionHash: record.transactions.settle,
+      details: { from: request.signedPayload.authorization.from, to: executor.vaultAddress, amount: amount.toString(), network: record.network },
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Settlement] ${paymentId} failed: ${msg}`);
+    return fail(msg);
+  }
+}
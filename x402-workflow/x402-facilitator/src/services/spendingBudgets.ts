@@ -0,0 +1,93 @@
+/**
+ * Spending Budgets Service - per-merchant and per-category budgets
+ *
+ * A user can cap spending per calendar day or month (in the user's timezone)
+ * at one merchant, or at every verified merchant in a category. Spending
+ * is summed from spend records, so a budget counts payments made before it
+ * was set. Only verified merchants (registered by the operator) have a
+ * trusted category; a user with category budgets must approve payments to
+ * any other merchant.
+ *
+ * The merchant of a payment is the author the vault credits
+ * (`extra.authorAddress`), not the x402 payTo: payTo is the facilitator's
+ * own signer, which every merchant on a network shares.
+ */
+
+import type { BudgetPeriod, BudgetStatus, SpendingBudget } from '../types/index.js';
+import { getUserPolicy } from '../store/userPolicy.js';
+import { getMerchantInfo } from '../store/merchantWhitelist.js';
+import { sumSpendRecords } from '../store/spendRecords.js';
+import { sumInFlightPayments } from '../store/paymentLedger.js';
+import { calendarBounds, userTimeZone } from './spendingWindows.js';
+
+const PERIOD_NAMES: Record<BudgetPeriod, string> = { day: 'daily', month: 'monthly' };
+
+/**
+ * The merchant a payment counts against: its author, or its payTo when it names no author
+ */
+export function budgetMerchantOf(payment: { merchantAddress: `0x${string}`; authorAddress?: `0x${string}` }): `0x${string}` {
+  return (payment.authorAddress ?? payment.merchantAddress).toLowerCase() as `0x${string}`;
+}
+
+/** Lowercase category of a verified merchant (undefined for any other merchant) */
+function categoryOf(merchantAddress: `0x${string}`): string | undefined {
+  const merchant = getMerchantInfo(merchantAddress);
+  return merchant?.verified ? merchant.category?.toLowerCase() : undefined;
+}
+
+/** Whether a budget covers payments to this merchant */
+function appliesTo(budget: SpendingBudget, merchantAddress: `0x${string}`): boolean {
+  return budget.scope === 'merchant'
+    ? budget.target === merchantAddress.toLowerCase()
+    : budget.target === categoryOf(merchantAddress);
+}
+
+/**
+ * Spending so far against one budget in its current period, plus payments still in flight
+ */
+function budgetStatus(userAddress: `0x${string}`, budget: SpendingBudget, timeZone: string, excludePaymentId?: string): BudgetStatus {
+  const { start, end } = calendarBounds(budget.period, timeZone);
+  const spent = sumSpendRecords(userAddress, start, record => appliesTo(budget, budgetMerchantOf(record)));
+  const reserved = sumInFlightPayments(userAddress, excludePaymentId, record => appliesTo(budget, budgetMerchantOf(record)));
+  const remaining = budget.limit - spent - reserved;
+  return { ...budget, spent, reserved, remaining: remaining > 0n ? remaining : 0n, resetsAt: end };
+}
+
+/**
+ * Every budget of the user with its remaining allowance
+ */
+export function getBudgetStatuses(userAddress: `0x${string}`): BudgetStatus[] {
+  const policy = getUserPolicy(userAddress);
+  return (policy.budgets ?? []).map(budget => budgetStatus(userAddress, budget, userTimeZone(policy)));
+}
+
+/**
+ * Whether the user has category budgets that cannot be checked for this
+ * merchant because it has no verified category
+ */
+export function isUncategorizedForBudgets(userAddress: `0x${string}`, merchantAddress: `0x${string}`): boolean {
+  const hasCategoryBudgets = (getUserPolicy(userAddress).budgets ?? []).some(budget => budget.scope === 'category');
+  return hasCategoryBudgets && !categoryOf(merchantAddress);
+}
+
+/**
+ * Why a payment would exceed one of the user's budgets (null if it fits all of them)
+ * @param merchantAddress - The payment's merchant (see budgetMerchantOf)
+ * @param excludePaymentId - The payment being checked, which is not reserved against itself
+ */
+export function checkBudgets(
+  userAddress: `0x${string}`,
+  merchantAddress: `0x${string}`,
+  amount: bigint,
+  excludePaymentId?: string
+): string | null {
+  const policy = getUserPolicy(userAddress);
+  for (const budget of policy.budgets ?? []) {
+    if (!appliesTo(budget, merchantAddress)) continue;
+    const status = budgetStatus(userAddress, budget, userTimeZone(policy), excludePaymentId);
+    if (amount > status.remaining) {
+      return `Exceeds ${PERIOD_NAMES[budget.period]} ${budget.scope} budget for ${budget.target} (remaining: ${status.remaining})`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,126 @@
+/**
+ * Spending Windows Service - rolling and calendar spending limits
+ *
+ * Each user policy combines one or more windows (a rolling duration, or the
+ * calendar day, week or month in the user's timezone). Spending in a window
+ * is summed from timestamped spend records, so a rolling window frees up
+ * gradually instead of resetting all at once, and every window is checked
+ * on every payment. Payments still in flight are reserved in every window,
+ * so concurrent payments cannot overrun a limit together.
+ */
+
+import type { SpendingWindow, SpendingWindowKind, SpendingWindowStatus, UserPolicy } from '../types/index.js';
+import { getUserPolicy } from '../store/userPolicy.js';
+import { sumSpendRecords } from '../store/spendRecords.js';
+import { sumInFlightPayments } from '../store/paymentLedger.js';
+
+const DEFAULT_TIMEZONE = 'UTC';
+const DEFAULT_WINDOW_SECONDS = 24 * 60 * 60;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export type CalendarPeriod = Exclude<SpendingWindowKind, 'rolling'>;
+
+/** Whether the runtime knows this IANA timezone */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of `timestamp` in `timeZone`
+ */
+function zonedFields(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', weekday: 'short',
+    year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(timestamp));
+  const field = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)!.value;
+  return {
+    year: Number(field('year')),
+    month: Number(field('month')) - 1,
+    day: Number(field('day')),
+    hour: Number(field('hour')),
+    minute: Number(field('minute')),
+    second: Number(field('second')),
+    weekday: WEEKDAYS.indexOf(field('weekday')),
+  };
+}
+
+/** Offset of `timeZone` from UTC at `timestamp` (ms) */
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const f = zonedFields(timestamp, timeZone);
+  return Date.UTC(f.year, f.month, f.day, f.hour, f.minute, f.second) - Math.floor(timestamp / 1000) * 1000;
+}
+
+/** UTC timestamp of local midnight on a wall-clock date (day and month may overflow) */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): number {
+  const wallClock = Date.UTC(year, month, day);
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  // A second pass corrects for an offset change (DST) between the guess and midnight
+  return wallClock - zoneOffset(guess, timeZone);
+}
+
+/**
+ * Start of the current calendar day, week (from Monday) or month in `timeZone`, and of the next one (ms)
+ */
+export function calendarBounds(period: CalendarPeriod, timeZone: string, now: number = Date.now()): { start: number; end: number } {
+  const { year, month, day, weekday } = zonedFields(now, timeZone);
+  if (period === 'month') {
+    return { start: zonedMidnight(year, month, 1, timeZone), end: zonedMidnight(year, month + 1, 1, timeZone) };
+  }
+  if (period === 'week') {
+    const monday = day - (weekday + 6) % 7;
+    return { start: zonedMidnight(year, month, monday, timeZone), end: zonedMidnight(year, month, monday + 7, timeZone) };
+  }
+  return { start: zonedMidnight(year, month, day, timeZone), end: zonedMidnight(year, month, day + 1, timeZone) };
+}
+
+/** The user's timezone for calendar windows and budgets */
+export function userTimeZone(policy: UserPolicy): string {
+  return policy.timezone ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * The user's windows (a rolling 24h window of dailySpendingLimit unless set)
+ */
+export function getSpendingWindows(policy: UserPolicy): SpendingWindow[] {
+  return policy.spendingWindows?.length
+    ? policy.spendingWindows
+    : [{ kind: 'rolling', durationSeconds: DEFAULT_WINDOW_SECONDS, limit: policy.dailySpendingLimit }];
+}
+
+/** Short name of a window for messages, e.g. "rolling 24h" or "weekly" */
+export function describeWindow(window: SpendingWindow): string {
+  if (window.kind === 'rolling') {
+    const seconds = window.durationSeconds ?? DEFAULT_WINDOW_SECONDS;
+    return seconds % 3600 === 0 ? `rolling ${seconds / 3600}h` : `rolling ${seconds}s`;
+  }
+  return { day: 'daily', week: 'weekly', month: 'monthly' }[window.kind];
+}
+
+/**
+ * Every window of the user with what has been spent, reserved and what remains
+ * @param excludePaymentId - The payment being checked, which is not reserved against itself
+ */
+export function getSpendingWindowStatuses(userAddress: `0x${string}`, excludePaymentId?: string): SpendingWindowStatus[] {
+  const policy = getUserPolicy(userAddress);
+  const now = Date.now();
+  const reserved = sumInFlightPayments(userAddress, excludePaymentId);
+  return getSpendingWindows(policy).map(window => {
+    const bounds = window.kind === 'rolling'
+      ? { start: now - (window.durationSeconds ?? DEFAULT_WINDOW_SECONDS) * 1000, end: undefined }
+      : calendarBounds(window.kind, userTimeZone(policy), now);
+    const spent = sumSpendRecords(userAddress, bounds.start);
+    const remaining = window.limit - spent - reserved;
+    return { ...window, spent, reserved, remaining: remaining > 0n ? remaining : 0n, since: bounds.start, resetsAt: bounds.end };
+  });
+}
+
+/** What the user can still spend: the least remaining across their windows */
+export function remainingAllowance(windows: SpendingWindowStatus[]): bigint {
+  return windows.reduce((min, window) => window.remaining < min ? window.remaining : min, windows[0].remaining);
+}
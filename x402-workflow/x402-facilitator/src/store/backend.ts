@@ -0,0 +1,197 @@
+/**
+ * Store Backend - pluggable persistence for facilitator state
+ *
+ * State is organised as named collections of records. The memory backend keeps
+ * everything in-process (used for tests); the file backend writes the state to
+ * a single JSON document so policies and merchants survive restarts, batching
+ * the changes made within STORE_FLUSH_DELAY_MS into one write.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import { runMigrations, type StoreSnapshot } from './migrations.js';
+
+// =============================================================================
+// INTERFACES
+// =============================================================================
+
+/**
+ * Keyed record collection. Values returned by `get` must be written back with
+ * `set` after mutation, otherwise the change is not persisted.
+ */
+export interface Collection<T> {
+  get(key: string): T | undefined;
+  has(key: string): boolean;
+  set(key: string, value: T): void;
+  delete(key: string): boolean;
+  values(): T[];
+}
+
+export interface StoreBackend {
+  /** Backend identifier, e.g. "memory" or "file" */
+  readonly kind: string;
+
+  /** Get (or lazily create) a named collection */
+  collection<T>(name: string): Collection<T>;
+}
+
+// =============================================================================
+// BIGINT SERIALIZATION
+// =============================================================================
+
+const BIGINT_TAG = '$bigint';
+
+/** JSON replacer that tags bigint values so they survive a round-trip */
+function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? { [BIGINT_TAG]: value.toString() } : value;
+}
+
+/** JSON reviver that restores tagged bigint values */
+function bigintReviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const tagged = value as Record<string, unknown>;
+    const keys = Object.keys(tagged);
+    if (keys.length === 1 && keys[0] === BIGINT_TAG && typeof tagged[BIGINT_TAG] === 'string') {
+      return BigInt(tagged[BIGINT_TAG] as string);
+    }
+  }
+  return value;
+}
+
+export function serializeSnapshot(snapshot: StoreSnapshot): string {
+  return JSON.stringify(snapshot, bigintReplacer, 2);
+}
+
+export function deserializeSnapshot(data: string): StoreSnapshot {
+  return JSON.parse(data, bigintReviver) as StoreSnapshot;
+}
+
+// =============================================================================
+// BACKENDS
+// =============================================================================
+
+class SnapshotCollection<T> implements Collection<T> {
+  constructor(
+    private records: Record<string, unknown>,
+    private onChange: () => void
+  ) {}
+
+  get(key: string): T | undefined {
+    return this.has(key) ? (this.records[key] as T) : undefined;
+  }
+
+  has(key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.records, key);
+  }
+
+  set(key: string, value: T): void {
+    this.records[key] = value;
+    this.onChange();
+  }
+
+  delete(key: string): boolean {
+    if (!this.has(key)) return false;
+    delete this.records[key];
+    this.onChange();
+    return true;
+  }
+
+  values(): T[] {
+    return Object.values(this.records) as T[];
+  }
+}
+
+/**
+ * In-memory backend. State is lost on restart.
+ */
+export class MemoryStoreBackend implements StoreBackend {
+  readonly kind: string = 'memory';
+  protected snapshot: StoreSnapshot;
+
+  constructor(snapshot?: StoreSnapshot) {
+    this.snapshot = snapshot ?? { schemaVersion: 0, collections: {} };
+    runMigrations(this.snapshot);
+  }
+
+  collection<T>(name: string): Collection<T> {
+    if (!this.snapshot.collections[name]) {
+      this.snapshot.collections[name] = {};
+    }
+    return new SnapshotCollection<T>(this.snapshot.collections[name], () => this.persist());
+  }
+
+  protected persist(): void {
+    // Nothing to do for in-memory storage
+  }
+}
+
+/**
+ * JSON file backend. Loads the document on startup, applies pending
+ * migrations and rewrites it atomically. A change schedules a write
+ * `flushDelayMs` later that also carries every change made meanwhile (0 writes
+ * after every change); a scheduled write is made at once when the process exits.
+ */
+export class FileStoreBackend extends MemoryStoreBackend {
+  readonly kind: string = 'file';
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private filePath: string, private flushDelayMs: number = 0) {
+    super(FileStoreBackend.load(filePath));
+    this.flush();
+    process.on('exit', () => {
+      if (this.flushTimer) this.flush();
+    });
+    console.log(`[Store] File backend: ${filePath} (schema v${this.snapshot.schemaVersion})`);
+  }
+
+  private static load(filePath: string): StoreSnapshot | undefined {
+    if (!existsSync(filePath)) return undefined;
+    return deserializeSnapshot(readFileSync(filePath, 'utf-8'));
+  }
+
+  protected persist(): void {
+    if (this.flushDelayMs <= 0) {
+      this.flush();
+      return;
+    }
+    this.flushTimer ??= setTimeout(() => this.flush(), this.flushDelayMs);
+  }
+
+  /** Write the document now, including any changes waiting for a scheduled write */
+  flush(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, serializeSnapshot(this.snapshot), 'utf-8');
+    renameSync(tmpPath, this.filePath);
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export function createStoreBackend(kind: string, filePath: string, flushDelayMs: number = 0): StoreBackend {
+  switch (kind) {
+    case 'memory':
+      return new MemoryStoreBackend();
+    case 'file':
+      return new FileStoreBackend(path.resolve(process.cwd(), filePath), flushDelayMs);
+    default:
+      throw new Error(`Unknown store backend: ${kind}`);
+  }
+}
+
+let storeInstance: StoreBackend | null = null;
+
+export function getStore(): StoreBackend {
+  if (!storeInstance) storeInstance = createStoreBackend(config.store.backend, config.store.path, config.store.flushDelayMs);
+  return storeInstance;
+}
+
+/** Replace the active backend (e.g. with a MemoryStoreBackend in tests) */
+export function setStore(store: StoreBackend): void {
+  storeInstance = store;
+}
@@ -0,0 +1,49 @@
+/**
+ * Idempotency Store - maps retried /api/pay requests to the original payment
+ */
+
+import type { IdempotencyEntry } from '../types/index.js';
+import { COLLECTIONS, IDEMPOTENCY_KEY_RETENTION_MS } from '../constants/index.js';
+import { getStore } from './backend.js';
+import { getPaymentRecord, isPaymentInFlight } from './paymentLedger.js';
+
+const idempotencyKeys = () => getStore().collection<IdempotencyEntry>(COLLECTIONS.IDEMPOTENCY_KEYS);
+
+/**
+ * Fingerprint of an EIP-3009 authorization: "<from>:<nonce>"
+ */
+export function authorizationFingerprint(from: `0x${string}`, nonce: `0x${string}`): string {
+  return `${from.toLowerCase()}:${nonce.toLowerCase()}`;
+}
+
+export function getIdempotencyEntry(key: string): IdempotencyEntry | undefined {
+  return idempotencyKeys().get(key);
+}
+
+/**
+ * Bind one or more keys to a payment. Existing bindings are left untouched.
+ * Callers bind before their first await, so a concurrent retry finds the keys.
+ * Keys of payments that finished over IDEMPOTENCY_KEY_RETENTION_MS ago are dropped first.
+ */
+export function registerIdempotencyKeys(keys: string[], fingerprint: string, paymentId: string): void {
+  const cutoff = Date.now() - IDEMPOTENCY_KEY_RETENTION_MS;
+  for (const entry of idempotencyKeys().values()) {
+    if (entry.createdAt >= cutoff) continue;
+    const payment = getPaymentRecord(entry.paymentId);
+    if (!payment || !isPaymentInFlight(payment)) idempotencyKeys().delete(entry.key);
+  }
+
+  for (const key of keys) {
+    if (idempotencyKeys().has(key)) continue;
+    idempotencyKeys().set(key, { key, fingerprint, paymentId, createdAt: Date.now() });
+  }
+}
+
+/**
+ * Unbind keys from a payment that was refused, so a retry is checked again
+ */
+export function releaseIdempotencyKeys(keys: string[], paymentId: string): void {
+  for (const key of keys) {
+    if (idempotencyKeys().get(key)?.paymentId === paymentId) idempotencyKeys().delete(key);
+  }
+}
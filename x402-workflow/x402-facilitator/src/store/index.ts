@@ -2,5 +2,10 @@
  * Store Module Exports
  */
 
+export * from './backend.js';
 export * from './userPolicy.js';
 export * from './merchantWhitelist.js';
+export * from './paymentLedger.js';
+export * from './idempotency.js';
+export * from './policyNonces.js';
+export * from './spendRecords.js';
@@ -0,0 +1,156 @@
+/**
+ * Store Migrations - versioned upgrades applied to persisted state on load
+ */
+
+import type { MerchantInfo, PaymentRecord, SpendRecord } from '../types/index.js';
+import { COLLECTIONS, SPEND_RECORD_RETENTION_MS } from '../constants/index.js';
+
+export interface StoreSnapshot {
+  /** Version of the last migration applied */
+  schemaVersion: number;
+
+  /** Collection name -> record key -> record */
+  collections: Record<string, Record<string, unknown>>;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(snapshot: StoreSnapshot): void;
+}
+
+const SEED_MERCHANTS: MerchantInfo[] = [
+  { address: '0xe29e9c1ea625ef783A688157Fe17b6679EEaD09c', name: 'Test Merchant Store', domain: 'localhost', verified: true, category: 'retail' },
+  { address: '0x3CC1826Be670881b45b13C18bd03C280CDA585F7', name: 'Demo Shop', domain: 'demo.x402.dev', verified: true, category: 'retail' },
+];
+
+/**
+ * Ordered list of migrations. Append new entries; never edit released ones.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create user policy and merchant collections, seed test merchants',
+    up(snapshot) {
+      snapshot.collections[COLLECTIONS.USER_POLICIES] ??= {};
+      const merchants = (snapshot.collections[COLLECTIONS.MERCHANTS] ??= {});
+      for (const merchant of SEED_MERCHANTS) {
+        merchants[merchant.address.toLowerCase()] ??= { ...merchant };
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Create payment ledger collection',
+    up(snapshot) {
+      snapshot.collections[COLLECTIONS.PAYMENTS] ??= {};
+    },
+  },
+  {
+    version: 3,
+    description: 'Create idempotency key collection',
+    up(snapshot) {
+      snapshot.collections[COLLECTIONS.IDEMPOTENCY_KEYS] ??= {};
+    },
+  },
+  {
+    version: 4,
+    description: 'Track settlement stage on payment records',
+    up(snapshot) {
+      const payments = snapshot.collections[COLLECTIONS.PAYMENTS] ?? {};
+      for (const record of Object.values(payments) as PaymentRecord[]) {
+        if (record.stage) continue;
+        record.stage = record.status === 'succeeded' ? 'settled' : 'queued';
+        // Older pending records did not keep their request and cannot be resumed
+        if (record.status === 'pending') {
+          record.status = 'failed';
+          record.error = 'Interrupted before settlement tracking was available';
+          record.errorCode = 'TRANSACTION_FAILED';
+        }
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Create policy signature nonce collection',
+    up(snapshot) {
+      snapshot.collections[COLLECTIONS.POLICY_NONCES] ??= {};
+    },
+  },
+  {
+    version: 6,
+    description: 'Replace the resetting daily counter with timestamped spend records',
+    up(snapshot) {
+      const spendRecords = (snapshot.collections[COLLECTIONS.SPEND_RECORDS] ??= {});
+
+      // Succeeded payments still within retention become spend records, so budgets and windows keep their history
+      const payments = snapshot.collections[COLLECTIONS.PAYMENTS] ?? {};
+      const retainedSince = Date.now() - SPEND_RECORD_RETENTION_MS;
+      for (const payment of Object.values(payments) as PaymentRecord[]) {
+        if (payment.status !== 'succeeded' || payment.updatedAt < retainedSince) continue;
+        const record: SpendRecord = {
+          paymentId: payment.id,
+          userAddress: payment.userAddress,
+          merchantAddress: payment.merchantAddress,
+          amount: payment.amount,
+          timestamp: payment.updatedAt,
+        };
+        spendRecords[record.paymentId] = record;
+      }
+
+      const policies = snapshot.collections[COLLECTIONS.USER_POLICIES] ?? {};
+      for (const policy of Object.values(policies) as Array<Record<string, unknown>>) {
+        // Any part of today's counter the ledger does not account for becomes one record at the last reset
+        const user = String(policy.userAddress).toLowerCase();
+        const lastReset = policy.lastResetTimestamp as number;
+        const backfilled = (Object.values(spendRecords) as SpendRecord[])
+          .filter(record => record.userAddress.toLowerCase() === user && record.timestamp >= lastReset)
+          .reduce((sum, record) => sum + record.amount, 0n);
+        const unaccounted = ((policy.spentToday as bigint | undefined) ?? 0n) - backfilled;
+        if (unaccounted > 0n) {
+          const record: SpendRecord = {
+            paymentId: `migrated:${user}`,
+            userAddress: policy.userAddress as `0x${string}`,
+            merchantAddress: '0x0000000000000000000000000000000000000000',
+            amount: unaccounted,
+            timestamp: lastReset,
+          };
+          spendRecords[record.paymentId] = record;
+        }
+        delete policy.spentToday;
+        delete policy.lastResetTimestamp;
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Record the credited author on spend records, so budgets count them per author',
+    up(snapshot) {
+      const payments = snapshot.collections[COLLECTIONS.PAYMENTS] ?? {};
+      const spendRecords = snapshot.collections[COLLECTIONS.SPEND_RECORDS] ?? {};
+      for (const record of Object.values(spendRecords) as SpendRecord[]) {
+        const payment = payments[record.paymentId] as PaymentRecord | undefined;
+        if (!record.authorAddress && payment?.authorAddress) {
+          record.authorAddress = payment.authorAddress.toLowerCase() as `0x${string}`;
+        }
+      }
+    },
+  },
+];
+
+/**
+ * Apply all migrations newer than the snapshot's schema version.
+ * @returns Number of migrations applied
+ */
+export function runMigrations(snapshot: StoreSnapshot): number {
+  const pending = MIGRATIONS
+    .filter(m => m.version > snapshot.schemaVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    console.log(`[Store] Migration ${migration.version}: ${migration.description}`);
+    migration.up(snapshot);
+    snapshot.schemaVersion = migration.version;
+  }
+  return pending.length;
+}
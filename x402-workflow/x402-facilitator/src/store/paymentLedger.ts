@@ -0,0 +1,148 @@
+/**
+ * Payment Ledger Store - records every payment attempt for reconciliation
+ */
+
+import { randomUUID } from 'crypto';
+import type { PaymentRecord, PaymentRequest, PaymentQuery, PaymentStatus } from '../types/index.js';
+import { COLLECTIONS, PAYMENT_RECORD_RETENTION_MS } from '../constants/index.js';
+import { getStore } from './backend.js';
+
+const payments = () => getStore().collection<PaymentRecord>(COLLECTIONS.PAYMENTS);
+
+/** Statuses of payments that are not finished yet (reserved against the user's limits) */
+const IN_FLIGHT_STATUSES: PaymentStatus[] = ['checking', 'pending', 'awaiting-approval'];
+
+export function isPaymentInFlight(record: PaymentRecord): boolean {
+  return IN_FLIGHT_STATUSES.includes(record.status);
+}
+
+/**
+ * Whether a finished payment may be dropped: its last update is older than
+ * PAYMENT_RECORD_RETENTION_MS and it holds no collected funds awaiting recovery
+ */
+function isExpired(record: PaymentRecord, cutoff: number): boolean {
+  if (record.updatedAt >= cutoff || isPaymentInFlight(record)) return false;
+  return !(record.status === 'failed' && record.transactions.collect !== undefined);
+}
+
+/**
+ * Record a new payment attempt (expired payments are dropped first)
+ */
+export function createPaymentRecord(request: PaymentRequest): PaymentRecord {
+  const { userAddress, challenge, signedPayload } = request;
+  const now = Date.now();
+  const cutoff = now - PAYMENT_RECORD_RETENTION_MS;
+  for (const record of payments().values()) {
+    if (isExpired(record, cutoff)) payments().delete(record.id);
+  }
+
+  const record: PaymentRecord = {
+    id: randomUUID(),
+    userAddress,
+    merchantAddress: challenge.merchantAddress,
+    authorAddress: challenge.extra?.authorAddress,
+    amount: BigInt(challenge.amount),
+    resource: challenge.resource,
+    network: challenge.network,
+    nonce: signedPayload.authorization.nonce,
+    status: 'checking',
+    stage: 'queued',
+    transactions: {},
+    request,
+    createdAt: now,
+    updatedAt: now,
+  };
+  payments().set(record.id, record);
+  return record;
+}
+
+export function getPaymentRecord(id: string): PaymentRecord | undefined {
+  return payments().get(id);
+}
+
+export function updatePaymentRecord(
+  id: string,
+  updates: Partial<Omit<PaymentRecord, 'id' | 'createdAt'>>
+): PaymentRecord {
+  const record = payments().get(id);
+  if (!record) throw new Error(`Payment not found: ${id}`);
+  const updated = { ...record, ...updates, updatedAt: Date.now() };
+  payments().set(id, updated);
+  return updated;
+}
+
+/**
+ * Payments still being settled (candidates for resuming after a restart)
+ */
+export function listPendingPaymentRecords(): PaymentRecord[] {
+  return payments().values()
+    .filter(p => p.status === 'pending')
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Payments whose checks never finished (interrupted by a restart)
+ */
+export function listCheckingPaymentRecords(): PaymentRecord[] {
+  return payments().values().filter(p => p.status === 'checking');
+}
+
+/**
+ * Total of a user's payments in flight (being checked, accepted or held for
+ * approval, not yet finished); they are reserved against the user's limits until they
+ * settle into spend records or fail
+ * @param excludeId - The payment being checked, which is not reserved against itself
+ * @param include - Which in-flight payments count (all by default)
+ */
+export function sumInFlightPayments(
+  userAddress: `0x${string}`,
+  excludeId?: string,
+  include: (record: PaymentRecord) => boolean = () => true
+): bigint {
+  const user = userAddress.toLowerCase();
+  return payments().values()
+    .filter(p => isPaymentInFlight(p) && p.userAddress.toLowerCase() === user)
+    .filter(p => p.id !== excludeId && include(p))
+    .reduce((sum, p) => sum + p.amount, 0n);
+}
+
+/**
+ * A user's payments held for approval, oldest first
+ */
+export function listAwaitingApprovalRecords(userAddress: `0x${string}`): PaymentRecord[] {
+  const user = userAddress.toLowerCase();
+  return payments().values()
+    .filter(p => p.status === 'awaiting-approval' && p.userAddress.toLowerCase() === user)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Failed payments whose funds may be stuck in the facilitator wallet:
+ * a collect transaction was submitted but settlement never completed
+ */
+export function listOrphanedPaymentRecords(): PaymentRecord[] {
+  return payments().values()
+    .filter(p => p.status === 'failed' && p.transactions.collect !== undefined)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * List a user's payments, newest first
+ */
+export function listPaymentRecords(
+  userAddress: `0x${string}`,
+  query: PaymentQuery
+): { records: PaymentRecord[]; total: number } {
+  const user = userAddress.toLowerCase();
+  const matching = payments().values()
+    .filter(p => p.userAddress.toLowerCase() === user)
+    .filter(p => query.from === undefined || p.createdAt >= query.from)
+    .filter(p => query.to === undefined || p.createdAt <= query.to)
+    .filter(p => !query.status || p.status === query.status)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return {
+    records: matching.slice(query.offset, query.offset + query.limit),
+    total: matching.length,
+  };
+}
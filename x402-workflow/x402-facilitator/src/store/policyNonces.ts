@@ -0,0 +1,26 @@
+/**
+ * Policy Nonce Store - nonces of signed policy changes, kept until their signature expires
+ */
+
+import type { PolicyNonceEntry } from '../types/index.js';
+import { COLLECTIONS } from '../constants/index.js';
+import { getStore } from './backend.js';
+
+const policyNonces = () => getStore().collection<PolicyNonceEntry>(COLLECTIONS.POLICY_NONCES);
+
+/**
+ * Mark a nonce as used by a user. Entries whose signature has expired are
+ * dropped first, since an expired signature is rejected anyway.
+ * @returns false if the nonce was already used
+ */
+export function consumePolicyNonce(userAddress: `0x${string}`, nonce: string, expiresAt: number): boolean {
+  const now = Math.floor(Date.now() / 1000);
+  for (const entry of policyNonces().values()) {
+    if (entry.expiresAt < now) policyNonces().delete(entry.key);
+  }
+
+  const key = `${userAddress.toLowerCase()}:${BigInt(nonce)}`;
+  if (policyNonces().has(key)) return false;
+  policyNonces().set(key, { key, expiresAt, usedAt: Date.now() });
+  return true;
+}
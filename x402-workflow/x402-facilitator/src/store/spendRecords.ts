@@ -0,0 +1,41 @@
+/**
+ * Spend Record Store - timestamped settled payments for spending windows and budgets
+ */
+
+import type { SpendRecord } from '../types/index.js';
+import { COLLECTIONS, SPEND_RECORD_RETENTION_MS } from '../constants/index.js';
+import { getStore } from './backend.js';
+
+const spendRecords = () => getStore().collection<SpendRecord>(COLLECTIONS.SPEND_RECORDS);
+
+/**
+ * Record a settled payment (once per payment). Records older than any
+ * window can reach are dropped first.
+ */
+export function appendSpendRecord(record: SpendRecord): void {
+  const cutoff = Date.now() - SPEND_RECORD_RETENTION_MS;
+  for (const entry of spendRecords().values()) {
+    if (entry.timestamp < cutoff) spendRecords().delete(entry.paymentId);
+  }
+  spendRecords().set(record.paymentId, {
+    ...record,
+    userAddress: record.userAddress.toLowerCase() as `0x${string}`,
+    merchantAddress: record.merchantAddress.toLowerCase() as `0x${string}`,
+    authorAddress: record.authorAddress?.toLowerCase() as `0x${string}` | undefined,
+  });
+}
+
+/**
+ * Total a user has spent since `since` (ms), optionally only the records matching `include`
+ */
+export function sumSpendRecords(
+  userAddress: `0x${string}`,
+  since: number,
+  include: (record: SpendRecord) => boolean = () => true
+): bigint {
+  const user = userAddress.toLowerCase();
+  return spendRecords().values()
+    .filter(record => record.userAddress.toLowerCase() === user && record.timestamp >= since)
+    .filter(include)
+    .reduce((total, record) => total + record.amount, 0n);
+}
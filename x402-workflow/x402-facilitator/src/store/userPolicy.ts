@@ -1,34 +1,43 @@
 /**
- * User Policy Store - in-memory storage for user policies
+ * User Policy Store - user policies persisted through the active store backend
  */
 
-import type { UserPolicy } from '../types/index.js';
-import { DEFAULTS } from '../constants/index.js';
+import type { UserPolicy, SessionKey, SpendingBudget } from '../types/index.js';
+import { DEFAULTS, COLLECTIONS } from '../constants/index.js';
+import { getStore } from './backend.js';
+import { appendSpendRecord } from './spendRecords.js';
 
-const userPolicies: Map<string, UserPolicy> = new Map();
-const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const userPolicies = () => getStore().collection<UserPolicy>(COLLECTIONS.USER_POLICIES);
 
+/**
+ * The user's policy, or the defaults if the user never signed a change
+ * (defaults are not stored, so a stored policy is always the user's own)
+ */
 export function getUserPolicy(userAddress: `0x${string}`): UserPolicy {
-  const key = userAddress.toLowerCase();
-  if (!userPolicies.has(key)) {
-    userPolicies.set(key, {
-      userAddress,
-      maxTransactionAmount: DEFAULTS.MAX_TRANSACTION_AMOUNT,
-      dailySpendingLimit: DEFAULTS.DAILY_SPENDING_LIMIT,
-      spentToday: BigInt(0),
-      lastResetTimestamp: Date.now(),
-      authorizedMerchants: [],
-      authorizedDomains: [],
-      autoPayEnabled: true,
-    });
-  }
-  return userPolicies.get(key)!;
+  const existing = userPolicies().get(userAddress.toLowerCase());
+  if (existing) return existing;
+
+  return {
+    userAddress,
+    maxTransactionAmount: DEFAULTS.MAX_TRANSACTION_AMOUNT,
+    dailySpendingLimit: DEFAULTS.DAILY_SPENDING_LIMIT,
+    authorizedMerchants: [],
+    authorizedDomains: [],
+    autoPayEnabled: true,
+  };
+}
+
+/**
+ * Whether the wallet has a policy of its own (set by a change it signed)
+ */
+export function hasUserPolicy(userAddress: `0x${string}`): boolean {
+  return userPolicies().has(userAddress.toLowerCase());
 }
 
 export function updateUserPolicy(userAddress: `0x${string}`, updates: Partial<UserPolicy>): UserPolicy {
   const policy = getUserPolicy(userAddress);
   const updated = { ...policy, ...updates };
-  userPolicies.set(userAddress.toLowerCase(), updated);
+  userPolicies().set(userAddress.toLowerCase(), updated);
   return updated;
 }
 
@@ -36,7 +45,7 @@ export function authorizeMerchant(userAddress: `0x${string}`, merchantAddress: `
   const policy = getUserPolicy(userAddress);
   const addr = merchantAddress.toLowerCase() as `0x${string}`;
   if (!policy.authorizedMerchants.includes(addr)) {
-    policy.authorizedMerchants.push(addr);
+    updateUserPolicy(userAddress, { authorizedMerchants: [...policy.authorizedMerchants, addr] });
   }
 }
 
@@ -44,17 +53,77 @@ export function authorizeDomain(userAddress: `0x${string}`, domain: string): voi
   const policy = getUserPolicy(userAddress);
   const d = domain.toLowerCase();
   if (!policy.authorizedDomains.includes(d)) {
-    policy.authorizedDomains.push(d);
+    updateUserPolicy(userAddress, { authorizedDomains: [...policy.authorizedDomains, d] });
   }
 }
 
-export function recordSpending(userAddress: `0x${string}`, amount: bigint): void {
+/**
+ * Count a settled payment against the user's spending windows and budgets
+ */
+export function recordSpending(
+  userAddress: `0x${string}`,
+  merchantAddress: `0x${string}`,
+  authorAddress: `0x${string}` | undefined,
+  amount: bigint,
+  paymentId: string
+): void {
+  appendSpendRecord({ paymentId, userAddress, merchantAddress, authorAddress, amount, timestamp: Date.now() });
+}
+
+/**
+ * Set (limit > 0) or remove (limit 0) the user's budget for a merchant or category and period
+ */
+export function setBudget(userAddress: `0x${string}`, budget: SpendingBudget): SpendingBudget[] {
   const policy = getUserPolicy(userAddress);
-  if (Date.now() - policy.lastResetTimestamp > ONE_DAY_MS) {
-    policy.spentToday = BigInt(0);
-    policy.lastResetTimestamp = Date.now();
-  }
-  policy.spentToday += amount;
+  const others = (policy.budgets ?? []).filter(b =>
+    b.scope !== budget.scope || b.target !== budget.target || b.period !== budget.period
+  );
+  const budgets = budget.limit > 0n ? [...others, budget] : others;
+  return updateUserPolicy(userAddress, { budgets }).budgets!;
+}
+
+/**
+ * Record a session key for the user, replacing any earlier grant of the same key
+ */
+export function grantSessionKey(userAddress: `0x${string}`, sessionKey: SessionKey): SessionKey[] {
+  const policy = getUserPolicy(userAddress);
+  const others = (policy.sessionKeys ?? []).filter(key => key.address !== sessionKey.address);
+  return updateUserPolicy(userAddress, { sessionKeys: [...others, sessionKey] }).sessionKeys!;
+}
+
+/**
+ * The user who granted a session key (undefined if none did)
+ */
+export function findSessionKeyOwner(keyAddress: `0x${string}`): `0x${string}` | undefined {
+  const addr = keyAddress.toLowerCase();
+  return userPolicies().values().find(policy => policy.sessionKeys?.some(key => key.address === addr))?.userAddress;
+}
+
+export function getSessionKey(userAddress: `0x${string}`, keyAddress: `0x${string}`): SessionKey | undefined {
+  const addr = keyAddress.toLowerCase();
+  return getUserPolicy(userAddress).sessionKeys?.find(key => key.address === addr);
+}
+
+/**
+ * Revoke a session key; its payments are refused from now on
+ * @returns The revoked key, or undefined if the user never granted it
+ */
+export function revokeSessionKey(userAddress: `0x${string}`, keyAddress: `0x${string}`): SessionKey | undefined {
+  const key = getSessionKey(userAddress, keyAddress);
+  if (!key) return undefined;
+  if (key.revokedAt) return key;
+
+  const revoked = { ...key, revokedAt: Date.now() };
+  const sessionKeys = getUserPolicy(userAddress).sessionKeys!.map(k => k.address === key.address ? revoked : k);
+  updateUserPolicy(userAddress, { sessionKeys });
+  return revoked;
+}
+
+export function recordSessionKeySpending(userAddress: `0x${string}`, keyAddress: `0x${string}`, amount: bigint): void {
+  const addr = keyAddress.toLowerCase();
+  const sessionKeys = (getUserPolicy(userAddress).sessionKeys ?? [])
+    .map(key => key.address === addr ? { ...key, spent: key.spent + amount } : key);
+  updateUserPolicy(userAddress, { sessionKeys });
 }
 
 export function isMerchantAuthorized(userAddress: `0x${string}`, merchantAddress: `0x${string}`, merchantDomain?: string): boolean {
@@ -63,10 +132,3 @@ export function isMerchantAuthorized(userAddress: `0x${string}`, merchantAddress
   if (merchantDomain && policy.authorizedDomains.includes(merchantDomain.toLowerCase())) return true;
   return policy.autoPayEnabled; // Auto-authorize for testing
 }
-
-export function getRemainingDailyAllowance(userAddress: `0x${string}`): bigint {
-  const policy = getUserPolicy(userAddress);
-  if (Date.now() - policy.lastResetTimestamp > ONE_DAY_MS) return policy.dailySpendingLimit;
-  const remaining = policy.dailySpendingLimit - policy.spentToday;
-  return remaining > BigInt(0) ? remaining : BigInt(0);
-}
@@ -16,14 +16,14 @@ export interface UserPolicy {
   /** Maximum amount per transaction (in base units) */
   maxTransactionAmount: bigint;
   
-  /** Daily spending limit (in base units) */
+  /** Daily spending limit (in base units); the limit of the default rolling 24h window */
   dailySpendingLimit: bigint;
-  
-  /** Amount spent today */
-  spentToday: bigint;
-  
-  /** Timestamp of last spending reset */
-  lastResetTimestamp: number;
+
+  /** Limit windows checked together (unset: a rolling 24h window of dailySpendingLimit) */
+  spendingWindows?: SpendingWindow[];
+
+  /** IANA timezone for calendar windows and budgets (default "UTC") */
+  timezone?: string;
   
   /** List of authorized merchant addresses */
   authorizedMerchants: `0x${string}`[];
@@ -36,6 +36,139 @@ export interface UserPolicy {
   
   /** User's funded balance held by facilitator (optional) */
   fundedBalance?: bigint;
+
+  /** Payments above this amount are held for the user's approval (0 or unset: none) */
+  approvalThreshold?: bigint;
+
+  /** Daily or monthly budgets per merchant and per merchant category */
+  budgets?: SpendingBudget[];
+
+  /** Keys the user has delegated to agents (revoked and expired keys are kept for history) */
+  sessionKeys?: SessionKey[];
+}
+
+/**
+ * Spending limit over one time window
+ * - rolling: the last `durationSeconds` (86400 for a rolling 24h)
+ * - day / week / month: the current calendar day, week (from Monday) or
+ *   month in the user's timezone
+ */
+export interface SpendingWindow {
+  kind: SpendingWindowKind;
+
+  /** Window length, rolling windows only */
+  durationSeconds?: number;
+
+  /** Most that may be spent in the window (base units) */
+  limit: bigint;
+}
+
+export type SpendingWindowKind = 'rolling' | 'day' | 'week' | 'month';
+
+/**
+ * A window with what has been spent in it
+ */
+export interface SpendingWindowStatus extends SpendingWindow {
+  spent: bigint;
+
+  /** Payments accepted or held for approval but not settled yet */
+  reserved: bigint;
+
+  remaining: bigint;
+
+  /** Window start (ms) */
+  since: number;
+
+  /** Start of the next calendar window (ms); rolling windows free up continuously */
+  resetsAt?: number;
+}
+
+/**
+ * One settled payment, counted against spending windows and budgets
+ */
+export interface SpendRecord {
+  /** Ledger id of the payment */
+  paymentId: string;
+
+  userAddress: `0x${string}`;
+
+  merchantAddress: `0x${string}`;
+
+  /** Author credited in the vault (the merchant budgets count the payment against) */
+  authorAddress?: `0x${string}`;
+
+  amount: bigint;
+
+  /** Settlement timestamp (ms) */
+  timestamp: number;
+}
+
+/**
+ * Spending budget for one merchant, or for every merchant in a category
+ */
+export interface SpendingBudget {
+  scope: BudgetScope;
+
+  /** Merchant (author) address or category name (lowercase) */
+  target: string;
+
+  /** Calendar day or month (in the user's timezone) the budget resets on */
+  period: BudgetPeriod;
+
+  /** Most that may be spent per period (base units) */
+  limit: bigint;
+}
+
+export type BudgetScope = 'merchant' | 'category';
+
+export type BudgetPeriod = 'day' | 'month';
+
+/**
+ * A budget with what has been spent against it in the current period
+ */
+export interface BudgetStatus extends SpendingBudget {
+  spent: bigint;
+
+  /** Payments accepted or held for approval but not settled yet */
+  reserved: bigint;
+
+  remaining: bigint;
+
+  /** Start of the next period (ms) */
+  resetsAt: number;
+}
+
+/**
+ * Key a user delegates to an agent
+ *
+ * The agent signs payments with the session key (the authorization's `from`
+ * is the key, which holds the funds it spends). Payments are charged to the
+ * key's budget and to the user's own limits.
+ */
+export interface SessionKey {
+  /** Session key address (lowercase) */
+  address: `0x${string}`;
+
+  /** Most the key may spend in total (base units) */
+  budget: bigint;
+
+  /** Amount spent with the key so far */
+  spent: bigint;
+
+  /** Merchants the key may pay; with `domains`, empty means any merchant the user authorizes */
+  merchants: `0x${string}`[];
+
+  /** Merchant domains the key may pay (lowercase) */
+  domains: string[];
+
+  /** Key stops working at this Unix timestamp (seconds) */
+  validUntil: number;
+
+  /** Grant timestamp (ms) */
+  grantedAt: number;
+
+  /** Revocation timestamp (ms), once revoked */
+  revokedAt?: number;
 }
 
 /**
@@ -61,6 +194,34 @@ export interface MerchantInfo {
   category?: string;
 }
 
+// =============================================================================
+// NETWORK TYPES
+// =============================================================================
+
+/**
+ * Everything the executor needs to settle on one network
+ */
+export interface NetworkConfig {
+  /** Network key used in challenges, e.g. "base-sepolia" */
+  network: string;
+
+  chainId: number;
+
+  rpcUrl: string;
+
+  /** USDC contract (EIP-712 verifying contract) */
+  usdcAddress: `0x${string}`;
+
+  /** USDC EIP-712 domain name ("USD Coin", or "USDC" on Base Sepolia) */
+  usdcDomainName: string;
+
+  /** PayPerieVault deployment on this network */
+  vaultAddress: `0x${string}`;
+
+  /** Key of the facilitator account that submits transactions here */
+  privateKey: `0x${string}`;
+}
+
 // =============================================================================
 // PAYMENT REQUEST TYPES
 // =============================================================================
@@ -71,11 +232,26 @@ export interface MerchantInfo {
 export interface PaymentRequest {
   /** User's wallet address */
   userAddress: `0x${string}`;
+
+  /**
+   * Session key that signed the authorization, when an agent pays on the
+   * user's behalf; `signedPayload.authorization.from` is then the key
+   */
+  sessionKey?: `0x${string}`;
+
+  /**
+   * "exact" (default): EIP-3009 authorization for the full amount.
+   * "upto": the authorization fields carry an EIP-2612 permit (to = spender,
+   * value = maximum, validBefore = deadline, nonce = permit nonce) and
+   * challenge.amount is the consumed amount to capture.
+   */
+  scheme?: string;
   
   /** 402 Challenge from merchant */
   challenge: {
     merchantAddress: `0x${string}`;
     merchantDomain?: string;
+    /** Amount to capture in base units */
     amount: string;
     asset: `0x${string}`;
     network: string;
@@ -84,6 +260,8 @@ export interface PaymentRequest {
     timeoutSeconds: number;
     extra?: {
       authorAddress?: `0x${string}`;
+      /** "receiveWithAuthorization" when the payer signed one paying the vault */
+      authorizationType?: string;
       [key: string]: unknown;
     };
   };
@@ -102,6 +280,34 @@ export interface PaymentRequest {
   };
 }
 
+/**
+ * Error codes for programmatic handling
+ */
+export type PaymentErrorCode =
+  'UNAUTHORIZED_MERCHANT' | 'EXCEEDS_LIMIT' | 'INSUFFICIENT_BALANCE' |
+  'INVALID_SIGNATURE' | 'EXPIRED' | 'TRANSACTION_FAILED' | 'POLICY_VIOLATION' |
+  'IDEMPOTENCY_CONFLICT' | 'UNSUPPORTED_NETWORK' | 'APPROVAL_DENIED';
+
+/**
+ * Transaction hashes produced while executing a payment
+ */
+export interface PaymentTransactions {
+  /** transferWithAuthorization: user -> facilitator */
+  collect?: `0x${string}`;
+
+  /** Vault allowance approval (only when needed) */
+  approve?: `0x${string}`;
+
+  /** settlePayment: facilitator -> vault (or settleWithAuthorization / settleWithPermit: user -> vault) */
+  settle?: `0x${string}`;
+
+  /** Facilitator account nonce settlePayment was sent with (tells a dropped settle from a late one) */
+  settleNonce?: number;
+
+  /** Refund of collected funds: facilitator -> user */
+  refund?: `0x${string}`;
+}
+
 /**
  * Payment execution result
  */
@@ -116,8 +322,16 @@ export interface PaymentResult {
   error?: string;
   
   /** Error code for programmatic handling */
-  errorCode?: 'UNAUTHORIZED_MERCHANT' | 'EXCEEDS_LIMIT' | 'INSUFFICIENT_BALANCE' | 
-              'INVALID_SIGNATURE' | 'EXPIRED' | 'TRANSACTION_FAILED' | 'POLICY_VIOLATION';
+  errorCode?: PaymentErrorCode;
+
+  /** Ledger id of this payment attempt */
+  paymentId?: string;
+
+  /** Ledger status, reported when replaying an idempotent request */
+  status?: PaymentStatus;
+
+  /** All transactions submitted for this payment */
+  transactions?: PaymentTransactions;
   
   /** Additional details */
   details?: {
@@ -128,13 +342,327 @@ export interface PaymentResult {
   };
 }
 
+// =============================================================================
+// PAYMENT LEDGER TYPES
+// =============================================================================
+
+/**
+ * Lifecycle status of a recorded payment attempt
+ * - checking: being checked against the policy and on-chain preflight; reserved
+ *   against the user's limits, but never settled until it becomes pending
+ * - pending: accepted by policy, on-chain execution in progress
+ * - succeeded: settled to the vault
+ * - failed: on-chain execution failed
+ * - rejected: refused by policy validation
+ * - refunded: collected funds were returned to the user by the reconciler
+ */
+export type PaymentStatus = 'checking' | 'awaiting-approval' | 'pending' | 'succeeded' | 'failed' | 'rejected' | 'refunded';
+
+/**
+ * Last settlement step completed for a payment
+ * - queued: nothing confirmed on-chain yet
+ * - collected: user funds received by the facilitator
+ * - approved: vault allowance in place
+ * - settled: vault credited the author
+ */
+export type SettlementStage = 'queued' | 'collected' | 'approved' | 'settled';
+
+/**
+ * Ledger entry for a single payment attempt
+ */
+export interface PaymentRecord {
+  /** Unique payment id */
+  id: string;
+
+  /** User (payer) wallet address */
+  userAddress: `0x${string}`;
+
+  /** Merchant (payTo) address from the challenge */
+  merchantAddress: `0x${string}`;
+
+  /** Author credited in the vault, if provided */
+  authorAddress?: `0x${string}`;
+
+  /** Amount in base units */
+  amount: bigint;
+
+  /** Resource being paid for */
+  resource: string;
+
+  /** Network identifier */
+  network: string;
+
+  /** EIP-3009 authorization nonce (EIP-2612 permit nonce for "upto" payments) */
+  nonce: `0x${string}`;
+
+  status: PaymentStatus;
+
+  stage: SettlementStage;
+
+  transactions: PaymentTransactions;
+
+  /** Original request, kept so interrupted settlements can resume */
+  request?: PaymentRequest;
+
+  errorCode?: PaymentErrorCode;
+
+  error?: string;
+
+  /** Final result, stored once the payment has finished */
+  result?: PaymentResult;
+
+  /** Set when the payment was held for the user's approval */
+  approval?: PaymentApproval;
+
+  /** Recovery history for payments that stopped after collecting funds */
+  reconciliation?: {
+    settleAttempts: number;
+    actions: ReconciliationAction[];
+  };
+
+  /** Creation timestamp (ms) */
+  createdAt: number;
+
+  /** Last update timestamp (ms) */
+  updatedAt: number;
+}
+
+/**
+ * Why a payment was held for approval, and the user's decision
+ */
+export interface PaymentApproval {
+  reason: string;
+
+  /** Hold timestamp (ms) */
+  requestedAt: number;
+
+  decision?: 'approved' | 'denied';
+
+  /** Decision timestamp (ms) */
+  decidedAt?: number;
+}
+
+/**
+ * Action taken by the reconciler on an orphaned payment
+ * - collect-confirmed: collect receipt found for a payment marked failed
+ * - retry-settlement: vault settlement re-run from the stage it stopped at
+ * - refund: collected funds transferred back to the user
+ */
+/**
+ * What became of a submitted transaction
+ */
+export type TransactionOutcome = 'success' | 'reverted' | 'pending' | 'dropped';
+
+export interface ReconciliationAction {
+  paymentId: string;
+
+  action: 'collect-confirmed' | 'settle-confirmed' | 'retry-settlement' | 'refund';
+
+  success: boolean;
+
+  transactionHash?: `0x${string}`;
+
+  error?: string;
+
+  /** Timestamp (ms) */
+  timestamp: number;
+}
+
+/**
+ * Settlement job status returned by /api/pay (async mode) and /api/payments/:id
+ */
+export interface SettlementStatus {
+  paymentId: string;
+
+  status: PaymentStatus;
+
+  /** Current stage, or "failed" once the job has stopped with an error */
+  stage: SettlementStage | 'failed';
+
+  /** Last stage completed before the job stopped */
+  completedStage: SettlementStage;
+
+  transactions: PaymentTransactions;
+
+  error?: string;
+
+  errorCode?: PaymentErrorCode;
+
+  /** Final result once finished */
+  result?: PaymentResult;
+
+  /** Approval hold and decision, for payments that needed one */
+  approval?: PaymentApproval;
+
+  /** URL to poll for updates */
+  statusUrl: string;
+
+  updatedAt: string;
+}
+
+/**
+ * Maps an idempotency key to the payment it started
+ */
+export interface IdempotencyEntry {
+  /** Idempotency-Key header value, or "<from>:<nonce>" */
+  key: string;
+
+  /** "<from>:<nonce>" of the authorization the key was first used with */
+  fingerprint: string;
+
+  paymentId: string;
+
+  createdAt: number;
+}
+
+/**
+ * A used policy-change nonce, kept until the signature it came with expires
+ */
+export interface PolicyNonceEntry {
+  /** "<user>:<nonce>" */
+  key: string;
+
+  /** Signature expiry (Unix seconds) */
+  expiresAt: number;
+
+  usedAt: number;
+}
+
+/**
+ * EIP-712 domain policy changes are signed in. The primary network's chainId
+ * and vault (plus an optional salt) tie signatures to one deployment.
+ */
+export interface PolicyDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: `0x${string}`;
+  salt?: `0x${string}`;
+}
+
+/**
+ * Fields every policy change carries: the user's EIP-712 signature over the
+ * change, a nonce (uint256, decimal string) and an expiry (Unix seconds)
+ */
+export interface SignedPolicyChange {
+  nonce: string;
+  expiry: number | string;
+  signature: `0x${string}`;
+}
+
+/**
+ * Filters for listing a user's payments
+ */
+export interface PaymentQuery {
+  /** Only include payments created at or after this timestamp (ms) */
+  from?: number;
+
+  /** Only include payments created at or before this timestamp (ms) */
+  to?: number;
+
+  status?: PaymentStatus;
+
+  limit: number;
+
+  offset: number;
+}
+
+// =============================================================================
+// X402 FACILITATOR TYPES (spec /verify, /settle, /supported)
+// =============================================================================
+
+/**
+ * Payment option advertised by a merchant in its 402 response
+ */
+export interface PaymentRequirements {
+  scheme: string;
+  network: string;
+
+  /** Amount in base units */
+  maxAmountRequired: string;
+
+  resource: string;
+  description: string;
+  mimeType?: string;
+  payTo: `0x${string}`;
+  maxTimeoutSeconds: number;
+
+  /** Token contract address */
+  asset: `0x${string}`;
+
+  extra?: {
+    authorAddress?: `0x${string}`;
+    /** "receiveWithAuthorization" when the payer signs one paying the vault */
+    authorizationType?: string;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Decoded X-PAYMENT header
+ */
+export interface PaymentPayload {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: PaymentRequest['signedPayload'];
+}
+
+/**
+ * Body of POST /verify and POST /settle
+ * The payment may be given decoded (paymentPayload) or as the raw X-PAYMENT header (paymentHeader)
+ */
+export interface FacilitatorRequest {
+  x402Version: number;
+  paymentPayload?: PaymentPayload;
+  paymentHeader?: string;
+  paymentRequirements: PaymentRequirements;
+
+  /** "upto" settle only: consumed amount to capture (at most maxAmountRequired) */
+  settleAmount?: string;
+}
+
+export interface VerifyResponse {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: `0x${string}`;
+}
+
+export interface SettleResponse {
+  success: boolean;
+  errorReason?: string;
+
+  /** Settlement transaction hash ("" when nothing was settled) */
+  transaction: string;
+
+  network: string;
+  payer?: `0x${string}`;
+}
+
+export interface SupportedKind {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  /** Where payments go on this network and the one asset settled there */
+  extra?: {
+    /** Recipient of "exact" authorizations (this network's signer) */
+    payTo: `0x${string}`;
+    /** Permit spender for "upto" and recipient of ReceiveWithAuthorization */
+    vault: `0x${string}`;
+    asset: `0x${string}`;
+  };
+}
+
 // =============================================================================
 // VALIDATION TYPES
 // =============================================================================
 
 export interface PolicyCheckResult {
   allowed: boolean;
+  /** Not allowed yet, but the user may approve it (`reason` says why) */
+  needsApproval?: boolean;
   reason?: string;
-  remainingDaily?: bigint;
+  /** Tightest remaining spending window allowance */
+  remainingAllowance?: bigint;
   maxAllowed?: bigint;
 }
@@ -8,6 +8,7 @@ const CONFIG = {
   USDC_ADDRESS: '0x5425890298aed601595a70AB815c96711a31Bc65',
   USDC_DECIMALS: 6,
   CHAIN_ID: 43113,
+  NETWORK: 'avalanche-fuji',
 };
 
 const USDC_ABI = [{
@@ -37,6 +38,7 @@ const state = {
   currentBook: null,
   currentPage: 1,
   totalPages: 0,
+  accessToken: null,
 };
 
 const $ = (id) => document.getElementById(id);
@@ -53,6 +55,7 @@ const el = {
   uploadFile: $('uploadFile'),
   uploadTitle: $('uploadTitle'),
   uploadPrice: $('uploadPrice'),
+  uploadFreePages: $('uploadFreePages'),
   uploadAuthor: $('uploadAuthor'),
   uploadStatus: $('uploadStatus'),
   refreshLibrary: $('refreshLibrary'),
@@ -115,6 +118,29 @@ async function connectWallet() {
   }
 }
 
+// Author endpoints require a Sign-In-With-Ethereum style proof bound to the request and its body or file
+async function sha256Hex(blob) {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function signAuthorRequest(method, path, content) {
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(8)), (b) => b.toString(16).padStart(2, '0')).join('');
+  const lines = [
+    `${new URL(CONFIG.MERCHANT_URL).host} wants you to sign in with your Ethereum account:`,
+    state.account.address,
+    '',
+    'Manage my books on x402',
+    '',
+    `Request: ${method} ${path}`,
+  ];
+  if (content) lines.push(`Content-SHA256: ${await sha256Hex(content)}`);
+  lines.push(`Chain ID: ${CONFIG.CHAIN_ID}`, `Nonce: ${nonce}`, `Issued At: ${new Date().toISOString()}`);
+  const message = lines.join('\n');
+  const signature = await state.walletClient.signMessage({ message });
+  return btoa(JSON.stringify({ message, signature }));
+}
+
 async function fetchUSDCBalance() {
   if (!state.publicClient || !state.account) return;
   try {
@@ -145,6 +171,7 @@ async function handleUpload(e) {
   const file = el.uploadFile.files?.[0];
   const title = el.uploadTitle.value.trim();
   const price = el.uploadPrice.value.trim();
+  const freePreviewPages = el.uploadFreePages.value.trim();
   const author = el.uploadAuthor.value.trim();
   if (!file || !title || !price || !author) {
     setStatus(el.uploadStatus, '请填写完整信息', true);
@@ -155,10 +182,12 @@ async function handleUpload(e) {
   form.append('title', title);
   form.append('price', price);
   form.append('authorAddress', author);
+  if (freePreviewPages && freePreviewPages !== '0') form.append('freePreviewPages', freePreviewPages);
 
   setStatus(el.uploadStatus, '上传中...');
   try {
-    const res = await fetch(`${CONFIG.MERCHANT_URL}/api/author/upload`, { method: 'POST', body: form });
+    const headers = { 'X-WALLET-PROOF': await signAuthorRequest('POST', '/api/author/upload', file) };
+    const res = await fetch(`${CONFIG.MERCHANT_URL}/api/author/upload`, { method: 'POST', body: form, headers });
     const data = await res.json();
     if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
     setStatus(el.uploadStatus, `已发布：${data.bookId} (${data.totalPages} 页)`);
@@ -198,6 +227,7 @@ function renderLibrary() {
         <span>${author}</span>
       </div>
       <div class="muted">${desc}</div>
+      ${renderPricing(p.pricing)}
     </div>`;
   }).join('');
   el.libraryList.querySelectorAll('.book-card').forEach((card) => {
@@ -205,6 +235,24 @@ function renderLibrary() {
   });
 }
 
+function renderPricing(pricing) {
+  if (!pricing) return '';
+  const usdc = (baseUnits) => formatUnits(BigInt(baseUnits), CONFIG.USDC_DECIMALS);
+  const rows = [];
+  if (pricing.freePreviewPages) rows.push(`<li>第 1-${pricing.freePreviewPages} 页免费试读</li>`);
+  for (const o of pricing.priceOverrides || []) {
+    const pages = o.fromPage === o.throughPage ? `第 ${o.fromPage} 页` : `第 ${o.fromPage}-${o.throughPage} 页`;
+    rows.push(`<li>${o.label ? `${o.label} · ` : ''}${pages}: ${usdc(o.priceBaseUnits)} USDC / 页</li>`);
+  }
+  for (const d of pricing.bundleDiscounts || []) {
+    rows.push(`<li>一次购买 ${d.minPages} 页及以上: ${d.percentOff}% 折扣</li>`);
+  }
+  for (const pass of pricing.timePasses || []) {
+    rows.push(`<li>${pass.id} 通行证: ${usdc(pass.priceBaseUnits)} USDC 畅读全书</li>`);
+  }
+  return rows.length ? `<ul class="pricing-table muted">${rows.join('')}</ul>` : '';
+}
+
 function selectBook(bookId) {
   const book = state.products.find((p) => p.id === bookId);
   if (!book) return;
@@ -252,7 +300,13 @@ async function loadPage(bookId, pageNum) {
 }
 
 async function fetchPageWithPaywall(bookId, pageNum) {
-  let res = await fetch(`${CONFIG.MERCHANT_URL}/api/read/${bookId}/${pageNum}`);
+  // Pages bought earlier are re-opened with the access token from the last paid read
+  const headers = state.accessToken ? { Authorization: `Bearer ${state.accessToken}` } : {};
+  let res = await fetch(`${CONFIG.MERCHANT_URL}/api/read/${bookId}/${pageNum}`, { headers });
+  if (res.status === 401) {
+    state.accessToken = null;
+    res = await fetch(`${CONFIG.MERCHANT_URL}/api/read/${bookId}/${pageNum}`);
+  }
   if (res.ok) {
     const total = res.headers.get('x-total-pages');
     if (total) state.totalPages = Number(total);
@@ -265,7 +319,7 @@ async function fetchPageWithPaywall(bookId, pageNum) {
   }
 
   const challenge = await res.json();
-  const option = challenge.accepts?.[0] || challenge;
+  const option = choosePaymentOption(challenge);
   const payload = await signChallenge(option);
   const header = btoa(JSON.stringify(payload));
 
@@ -278,11 +332,28 @@ async function fetchPageWithPaywall(bookId, pageNum) {
     throw new Error(err?.error || `支付失败 (HTTP ${res.status})`);
   }
 
+  state.accessToken = res.headers.get('x-access-token') || state.accessToken;
   const total = res.headers.get('x-total-pages');
   if (total) state.totalPages = Number(total);
   return await res.blob();
 }
 
+// Offer a time pass when the book sells one; otherwise pay for the page
+// The wallet signs USDC on Fuji only, so other offered networks and tokens are skipped
+function choosePaymentOption(challenge) {
+  const offered = challenge.accepts || [challenge];
+  const accepts = offered.filter((option) =>
+    (option.network || CONFIG.NETWORK) === CONFIG.NETWORK &&
+    (!option.asset || option.asset.toLowerCase() === CONFIG.USDC_ADDRESS.toLowerCase()));
+  if (accepts.length === 0) throw new Error('商家不接受 Fuji USDC 支付');
+  const pass = accepts.find((option) => option.extra?.pass);
+  if (pass) {
+    const price = formatUnits(BigInt(pass.maxAmountRequired), CONFIG.USDC_DECIMALS);
+    if (window.confirm(`购买 ${pass.extra.pass} 通行证 (${price} USDC) 畅读全书？取消则只购买本页`)) return pass;
+  }
+  return accepts[0];
+}
+
 async function signChallenge(challenge) {
   const now = Math.floor(Date.now() / 1000);
   const validAfter = BigInt(now - 60);
@@ -298,10 +369,14 @@ async function signChallenge(challenge) {
     nonce,
   };
 
+  // A challenge paying the vault directly asks for a ReceiveWithAuthorization
+  const primaryType = challenge.extra?.authorizationType === 'receiveWithAuthorization'
+    ? 'ReceiveWithAuthorization'
+    : 'TransferWithAuthorization';
   const signature = await state.walletClient.signTypedData({
     domain: { name: 'USD Coin', version: '2', chainId: CONFIG.CHAIN_ID, verifyingContract: CONFIG.USDC_ADDRESS },
-    types: EIP712_TYPES,
-    primaryType: 'TransferWithAuthorization',
+    types: { [primaryType]: EIP712_TYPES.TransferWithAuthorization },
+    primaryType,
     message,
   });
 
@@ -320,6 +395,7 @@ async function signChallenge(challenge) {
         nonce,
       },
     },
+    quote: challenge.extra?.quote,
   };
 }
 
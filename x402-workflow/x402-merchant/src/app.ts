@@ -6,12 +6,15 @@ import express from 'express';
 import cors from 'cors';
 import { apiRoutes } from './routes/index.js';
 import { requestLogger, notFoundHandler, errorHandler } from './middleware/index.js';
+import type { RawBodyRequest } from './middleware/index.js';
+import { HTTP_HEADERS } from './constants/index.js';
 
 const app = express();
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+app.use(cors({ exposedHeaders: [HTTP_HEADERS.X_PAYMENT_RESPONSE, HTTP_HEADERS.X_ACCESS_TOKEN, HTTP_HEADERS.X_SESSION_CONSUMED] }));
+// The raw JSON body is kept so author proofs can sign its hash
+app.use(express.json({ verify: (req, _res, buf) => { (req as RawBodyRequest).rawBody = buf; } }));
 app.use(express.urlencoded({ extended: true }));
 app.use(requestLogger);
 
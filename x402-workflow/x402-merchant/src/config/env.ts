@@ -4,6 +4,7 @@
  */
 
 import * as dotenv from 'dotenv';
+import { randomBytes } from 'crypto';
 import { NETWORKS, CHAIN_IDS, USDC_ADDRESSES } from '../constants/index.js';
 
 // Load environment variables from .env file
@@ -13,19 +14,84 @@ dotenv.config();
 // TYPE DEFINITIONS
 // =============================================================================
 
+/**
+ * One (network, asset) pair the merchant accepts; each becomes an option in 402 `accepts`
+ */
+export interface PaymentOffer {
+  /** Blockchain network identifier */
+  network: string;
+  /** Token contract address */
+  asset: string;
+  /** Token symbol shown on receipts */
+  symbol: string;
+  /** Token decimals */
+  decimals: number;
+  /** USD value of one whole token; prices are converted at this rate (1 for USD stablecoins) */
+  usdPerToken: number;
+}
+
 export interface MerchantConfig {
   /** Merchant wallet address to receive payments */
   address: string;
-  /** Facilitator wallet address that receives user payments */
+  /** Wallet that receives user payments in embedded mode (remote mode takes each network's payTo from the facilitator) */
   facilitatorAddress: string;
   /** Merchant private key for signing transactions (Facilitator) */
   privateKey: string;
   /** Accepted token contract address (e.g., USDC) */
   acceptedToken: string;
-  /** Blockchain network identifier */
+  /** Blockchain network identifier (the first offer's network) */
   network: string;
   /** Chain ID for the network */
   chainId: number;
+  /** Accepted (network, asset) pairs, primary first */
+  offers: PaymentOffer[];
+}
+
+/**
+ * How payments are verified and settled
+ * - remote: forwarded to the facilitator service (/verify, /settle), which settles through the vault
+ * - embedded (default): in-process transferWithAuthorization with the merchant key (no vault settlement)
+ */
+export type FacilitatorMode = 'remote' | 'embedded';
+
+export interface FacilitatorConfig {
+  mode: FacilitatorMode;
+  /** Base URL of the facilitator service (remote mode) */
+  url: string;
+  /** Request timeout for facilitator calls in milliseconds */
+  timeoutMs: number;
+  /** Ask payers of credited purchases for a ReceiveWithAuthorization paying the vault (remote mode) */
+  receiveWithAuthorization: boolean;
+}
+
+export interface QuoteConfig {
+  /** HMAC secret for signing payment quotes (random per process when unset) */
+  secret: string;
+  /** How long a quoted price stays valid in seconds */
+  ttlSeconds: number;
+}
+
+export interface AccessConfig {
+  /** HMAC secret for reader access tokens (random per process when unset) */
+  tokenSecret: string;
+  /** Access token lifetime in seconds */
+  tokenTtlSeconds: number;
+  /** Domain wallet proofs must be signed for, e.g. "localhost:3000" */
+  domain: string;
+  /** Maximum age of a wallet proof's "Issued At" in seconds */
+  proofMaxAgeSeconds: number;
+}
+
+export interface MeteringConfig {
+  /** PayPerieVault address readers permit for metered ("upto") sessions (empty disables metering) */
+  vaultAddress: string;
+  /** How long a metered session stays open before it is settled */
+  sessionTtlSeconds: number;
+}
+
+export interface CatalogConfig {
+  /** Include the demo seed products alongside uploaded books */
+  seedDemoProducts: boolean;
 }
 
 export interface ServerConfig {
@@ -38,6 +104,11 @@ export interface ServerConfig {
 export interface AppConfig {
   server: ServerConfig;
   merchant: MerchantConfig;
+  facilitator: FacilitatorConfig;
+  quote: QuoteConfig;
+  access: AccessConfig;
+  metering: MeteringConfig;
+  catalog: CatalogConfig;
 }
 
 // =============================================================================
@@ -86,10 +157,65 @@ function getIntEnv(key: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+/**
+ * Parse boolean from environment variable ("true"/"1" or "false"/"0")
+ * @param key - Environment variable name
+ * @param defaultValue - Default value if not set or unrecognized
+ * @returns Parsed boolean value
+ */
+function getBoolEnv(key: string, defaultValue: boolean): boolean {
+  const value = process.env[key]?.trim().toLowerCase();
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return defaultValue;
+}
+
+/**
+ * Parse ACCEPTED_PAYMENT_OPTIONS, a JSON array of
+ * `{ network, asset?, symbol?, decimals?, usdPerToken? }` (asset defaults to the network's USDC)
+ * @param key - Environment variable name
+ * @param fallback - Offers used when the variable is not set
+ * @returns Parsed offers
+ * @throws Error if the value is not a valid list of offers
+ */
+function getOffersEnv(key: string, fallback: PaymentOffer[]): PaymentOffer[] {
+  const value = process.env[key]?.trim();
+  if (!value) return fallback;
+
+  const invalid = (reason: string) => new Error(
+    `❌ Invalid ${key}: ${reason}\n` +
+    `   Expected a JSON array such as [{"network":"base-sepolia","asset":"0x...","decimals":6,"usdPerToken":1}].`
+  );
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch {
+    throw invalid('not valid JSON');
+  }
+  if (!Array.isArray(entries) || entries.length === 0) throw invalid('must be a non-empty array');
+
+  return entries.map((entry: Record<string, unknown>) => {
+    const network = String(entry?.network ?? '');
+    if (!(network in CHAIN_IDS)) throw invalid(`unsupported network "${network}"`);
+    const asset = String(entry.asset ?? USDC_ADDRESSES[network as keyof typeof USDC_ADDRESSES]);
+    const decimals = Number(entry.decimals ?? 6);
+    const usdPerToken = Number(entry.usdPerToken ?? 1);
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) throw invalid(`invalid decimals for ${network}`);
+    if (!(usdPerToken > 0)) throw invalid(`invalid usdPerToken for ${network}`);
+    return { network, asset, symbol: String(entry.symbol ?? 'USDC'), decimals, usdPerToken };
+  });
+}
+
 // =============================================================================
 // CONFIGURATION OBJECT
 // =============================================================================
 
+const acceptedToken = getOptionalEnv('ACCEPTED_TOKEN_ADDRESS', USDC_ADDRESSES[NETWORKS.AVALANCHE_FUJI]);
+const offers = getOffersEnv('ACCEPTED_PAYMENT_OPTIONS', [
+  { network: NETWORKS.AVALANCHE_FUJI, asset: acceptedToken, symbol: 'USDC', decimals: 6, usdPerToken: 1 },
+]);
+
 /**
  * Application configuration
  * Loaded from environment variables with validation
@@ -101,14 +227,37 @@ export const config: AppConfig = {
   },
   merchant: {
     address: getRequiredEnv('MERCHANT_WALLET_ADDRESS'),
-    facilitatorAddress: getRequiredEnv('FACILITATOR_WALLET_ADDRESS'),
+    facilitatorAddress: getOptionalEnv('FACILITATOR_MODE', 'embedded') === 'embedded'
+      ? getRequiredEnv('FACILITATOR_WALLET_ADDRESS')
+      : getOptionalEnv('FACILITATOR_WALLET_ADDRESS', ''),
     privateKey: getRequiredEnv('PRIVATE_KEY'),
-    acceptedToken: getOptionalEnv(
-      'ACCEPTED_TOKEN_ADDRESS',
-      USDC_ADDRESSES[NETWORKS.AVALANCHE_FUJI]
-    ),
-    network: NETWORKS.AVALANCHE_FUJI,
-    chainId: CHAIN_IDS[NETWORKS.AVALANCHE_FUJI],
+    acceptedToken: offers[0].asset,
+    network: offers[0].network,
+    chainId: CHAIN_IDS[offers[0].network as keyof typeof CHAIN_IDS],
+    offers,
+  },
+  facilitator: {
+    mode: getOptionalEnv('FACILITATOR_MODE', 'embedded') as FacilitatorMode,
+    url: getOptionalEnv('FACILITATOR_URL', 'http://localhost:3001').replace(/\/+$/, ''),
+    timeoutMs: getIntEnv('FACILITATOR_TIMEOUT_MS', 120_000),
+    receiveWithAuthorization: getBoolEnv('RECEIVE_WITH_AUTHORIZATION', false),
+  },
+  quote: {
+    secret: getOptionalEnv('QUOTE_SECRET', randomBytes(32).toString('hex')),
+    ttlSeconds: getIntEnv('QUOTE_TTL_SECONDS', 300),
+  },
+  access: {
+    tokenSecret: getOptionalEnv('ACCESS_TOKEN_SECRET', randomBytes(32).toString('hex')),
+    tokenTtlSeconds: getIntEnv('ACCESS_TOKEN_TTL_SECONDS', 86_400),
+    domain: getOptionalEnv('ACCESS_DOMAIN', `localhost:${getIntEnv('PORT', 3000)}`),
+    proofMaxAgeSeconds: getIntEnv('WALLET_PROOF_MAX_AGE_SECONDS', 300),
+  },
+  metering: {
+    vaultAddress: getOptionalEnv('VAULT_ADDRESS', ''),
+    sessionTtlSeconds: getIntEnv('METERED_SESSION_TTL_SECONDS', 3600),
+  },
+  catalog: {
+    seedDemoProducts: getBoolEnv('SEED_DEMO_PRODUCTS', true),
   },
 };
 
@@ -131,9 +280,46 @@ if (!isValidAddress(config.merchant.address)) {
   );
 }
 
-if (!isValidAddress(config.merchant.facilitatorAddress)) {
+if (config.facilitator.mode === 'embedded' && !isValidAddress(config.merchant.facilitatorAddress)) {
   throw new Error(
     `❌ Invalid FACILITATOR_WALLET_ADDRESS: ${config.merchant.facilitatorAddress}\n` +
     `   Must be a valid Ethereum address (0x followed by 40 hex characters).`
   );
 }
+
+for (const offer of config.merchant.offers) {
+  if (!isValidAddress(offer.asset)) {
+    throw new Error(
+      `❌ Invalid asset for ${offer.network}: ${offer.asset}\n` +
+      `   Must be a valid Ethereum address (0x followed by 40 hex characters).`
+    );
+  }
+}
+
+if (config.facilitator.mode !== 'remote' && config.facilitator.mode !== 'embedded') {
+  throw new Error(
+    `❌ Invalid FACILITATOR_MODE: ${config.facilitator.mode}\n` +
+    `   Must be "remote" or "embedded".`
+  );
+}
+
+if (config.metering.vaultAddress && !isValidAddress(config.metering.vaultAddress)) {
+  throw new Error(
+    `❌ Invalid VAULT_ADDRESS: ${config.metering.vaultAddress}\n` +
+    `   Must be a valid Ethereum address (0x followed by 40 hex characters).`
+  );
+}
+
+if (config.metering.sessionTtlSeconds <= 0) {
+  throw new Error(
+    `❌ Invalid METERED_SESSION_TTL_SECONDS: ${config.metering.sessionTtlSeconds}\n` +
+    `   Must be a positive number of seconds.`
+  );
+}
+
+if (config.quote.ttlSeconds <= 0) {
+  throw new Error(
+    `❌ Invalid QUOTE_TTL_SECONDS: ${config.quote.ttlSeconds}\n` +
+    `   Must be a positive number of seconds.`
+  );
+}
@@ -4,4 +4,4 @@
  */
 
 export { config } from './env.js';
-export type { AppConfig, MerchantConfig, ServerConfig } from './env.js';
+export type { AppConfig, MerchantConfig, PaymentOffer, ServerConfig, FacilitatorConfig, FacilitatorMode, QuoteConfig, AccessConfig, MeteringConfig, CatalogConfig } from './env.js';
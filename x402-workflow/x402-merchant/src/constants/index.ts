@@ -37,6 +37,16 @@ export const USDC_ADDRESSES = {
   [NETWORKS.BASE_MAINNET]: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
 } as const;
 
+/**
+ * Public RPC endpoints per network
+ */
+export const RPC_URLS = {
+  [NETWORKS.AVALANCHE_FUJI]: 'https://api.avax-test.network/ext/bc/C/rpc',
+  [NETWORKS.AVALANCHE_MAINNET]: 'https://api.avax.network/ext/bc/C/rpc',
+  [NETWORKS.BASE_SEPOLIA]: 'https://sepolia.base.org',
+  [NETWORKS.BASE_MAINNET]: 'https://mainnet.base.org',
+} as const;
+
 /**
  * USDC token decimals (6 for all networks)
  */
@@ -56,6 +66,17 @@ export const X402_VERSION = 1;
  */
 export const PAYMENT_SCHEMES = {
   EXACT: 'exact',
+  /** Metered: the reader permits a maximum, the merchant settles actual usage */
+  UPTO: 'upto',
+} as const;
+
+/**
+ * How an "exact" payer signs, named in the requirement's extra.authorizationType
+ */
+export const AUTHORIZATION_TYPES = {
+  TRANSFER: 'transferWithAuthorization',
+  /** Pays the vault directly, which redeems it in one transaction */
+  RECEIVE: 'receiveWithAuthorization',
 } as const;
 
 /**
@@ -63,6 +84,11 @@ export const PAYMENT_SCHEMES = {
  */
 export const DEFAULT_PAYMENT_TIMEOUT_SECONDS = 60;
 
+/**
+ * Time a metered session's permit must outlive the session, so it can still be settled
+ */
+export const METERED_SETTLEMENT_GRACE_SECONDS = 300;
+
 // =============================================================================
 // HTTP CONSTANTS
 // =============================================================================
@@ -73,8 +99,30 @@ export const DEFAULT_PAYMENT_TIMEOUT_SECONDS = 60;
 export const HTTP_HEADERS = {
   X_PAYMENT: 'x-payment',
   X_PAYMENT_RESPONSE: 'x-payment-response',
+  AUTHORIZATION: 'authorization',
+  /** Access token issued after a paid read */
+  X_ACCESS_TOKEN: 'x-access-token',
+  /** Sign-In-With-Ethereum style proof of wallet ownership */
+  X_WALLET_PROOF: 'x-wallet-proof',
+  /** Amount a metered session has consumed so far (base units) */
+  X_SESSION_CONSUMED: 'x-session-consumed',
 } as const;
 
+/**
+ * x402 facilitator service endpoints (remote facilitator mode)
+ */
+export const FACILITATOR_ENDPOINTS = {
+  VERIFY: '/verify',
+  SETTLE: '/settle',
+  SUPPORTED: '/supported',
+} as const;
+
+/**
+ * Facilitator error reason for a payment held until the payer approves it;
+ * settling the same payment again later returns the outcome
+ */
+export const APPROVAL_REQUIRED_REASON = 'approval_required';
+
 /**
  * HTTP Status codes
  */
@@ -86,5 +134,7 @@ export const HTTP_STATUS = {
   PAYMENT_REQUIRED: 402,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  CONFLICT: 409,
   INTERNAL_SERVER_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503,
 } as const;
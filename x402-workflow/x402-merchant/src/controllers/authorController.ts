@@ -1,49 +1,228 @@
 import type { Request, Response } from 'express';
-import { processUpload } from '../services/contentService.js';
-import { addOrUpdateProduct } from '../data/products.js';
-import type { Product } from '../types/index.js';
+import { getAddress } from 'viem';
+import { processUpload, getMetadata, listBooks, updateBook as applyBookUpdate, replaceBookContent } from '../services/contentService.js';
+import type { BookMetadata, BookUpdate, BundleDiscount, PriceOverrideInput, TimePassInput } from '../services/contentService.js';
+import { syncBook } from '../data/catalogRepository.js';
+import { parseBundleDiscounts, parsePriceOverrides, parseFreePreviewPages, parseTimePasses, pricingTable } from '../utils/index.js';
 
+type BookParams = { bookId: string };
+
+function parsePrice(value: unknown): number | null {
+  const price = Number(value);
+  return Number.isNaN(price) || price <= 0 ? null : price;
+}
+
+/** Load a book and check it belongs to the signing author (sends 404/403 and returns null otherwise) */
+async function loadOwnedBook(bookId: string, res: Response): Promise<BookMetadata | null> {
+  const meta = await getMetadata(bookId);
+  if (!meta) {
+    res.status(404).json({ error: 'Book not found' });
+    return null;
+  }
+  if (meta.authorAddress.toLowerCase() !== res.locals.authorAddress) {
+    res.status(403).json({ error: 'Only the book author can manage this book' });
+    return null;
+  }
+  return meta;
+}
+
+/**
+ * POST /api/author/upload
+ * Publish a new book as the signing author
+ */
 export async function uploadBook(req: Request, res: Response): Promise<void> {
   const file = req.file;
-  const { title, price, authorAddress } = req.body as { title?: string; price?: string; authorAddress?: string };
+  const {
+    title, price, authorAddress, description,
+    freePreviewPages: rawFreePages, priceOverrides: rawOverrides, bundleDiscounts: rawDiscounts, timePasses: rawPasses,
+  } = req.body as {
+    title?: string; price?: string; authorAddress?: string; description?: string;
+    freePreviewPages?: string; priceOverrides?: string; bundleDiscounts?: string; timePasses?: string;
+  };
 
   if (!file) {
     res.status(400).json({ error: 'PDF file is required' });
     return;
   }
-  if (!title || !price || !authorAddress) {
-    res.status(400).json({ error: 'Missing required fields: title, price, authorAddress' });
+  if (!title || !price) {
+    res.status(400).json({ error: 'Missing required fields: title, price' });
     return;
   }
 
-  const priceNumber = Number(price);
-  if (Number.isNaN(priceNumber) || priceNumber <= 0) {
-    res.status(400).json({ error: 'Invalid price' });
+  // Payouts always go to the wallet that signed the request
+  const signer = res.locals.authorAddress as string;
+  if (authorAddress && authorAddress.toLowerCase() !== signer) {
+    res.status(403).json({ error: 'authorAddress must be the signing wallet' });
     return;
   }
 
-  try {
-    const meta = await processUpload(file.buffer, { title, price: priceNumber, authorAddress });
+  const priceNumber = parsePrice(price);
+  if (priceNumber === null) {
+    res.status(400).json({ error: 'Invalid price' });
+    return;
+  }
 
-    const product: Product = {
-      id: meta.bookId,
-      name: meta.title,
-      description: `Book: ${meta.title} (${meta.totalPages} pages)`,
-      priceUSD: meta.pricePerPageUSD,
-      priceInBaseUnits: meta.pricePerPageBaseUnits,
-      authorAddress: meta.authorAddress,
-    };
+  const freePreviewPages = parseFreePreviewPages(rawFreePages);
+  const priceOverrides = parsePriceOverrides(rawOverrides);
+  const bundleDiscounts = parseBundleDiscounts(rawDiscounts);
+  const timePasses = parseTimePasses(rawPasses);
+  for (const parsed of [freePreviewPages, priceOverrides, bundleDiscounts, timePasses]) {
+    if (typeof parsed === 'string') {
+      res.status(400).json({ error: parsed });
+      return;
+    }
+  }
 
-    addOrUpdateProduct(product);
+  try {
+    const meta = await processUpload(file.buffer, {
+      title,
+      price: priceNumber,
+      authorAddress: getAddress(signer),
+      description,
+      freePreviewPages: freePreviewPages as number,
+      priceOverrides: priceOverrides as PriceOverrideInput[],
+      bundleDiscounts: bundleDiscounts as BundleDiscount[],
+      timePasses: timePasses as TimePassInput[],
+    });
+    await syncBook(meta.bookId);
 
     res.status(201).json({
       success: true,
       bookId: meta.bookId,
       totalPages: meta.totalPages,
       pricePerPageUSD: meta.pricePerPageUSD,
+      pricing: pricingTable(meta),
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Upload failed';
     res.status(500).json({ error: message });
   }
 }
+
+/**
+ * GET /api/author/books
+ * Books published (or unpublished) by the signing author
+ */
+export async function listAuthorBooks(_req: Request, res: Response): Promise<void> {
+  const books = (await listBooks()).filter(meta => meta.authorAddress.toLowerCase() === res.locals.authorAddress);
+  res.json({ success: true, data: books, count: books.length });
+}
+
+/**
+ * PATCH /api/author/books/:bookId
+ * Update title, price, description, free preview, price overrides, bundle discounts, time passes or published state
+ */
+export async function updateBook(req: Request<BookParams>, res: Response): Promise<void> {
+  const meta = await loadOwnedBook(req.params.bookId, res);
+  if (!meta) return;
+
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const changes: BookUpdate = {};
+
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      res.status(400).json({ error: 'Invalid title' });
+      return;
+    }
+    changes.title = body.title.trim();
+  }
+  if (body.price !== undefined) {
+    const price = parsePrice(body.price);
+    if (price === null) {
+      res.status(400).json({ error: 'Invalid price' });
+      return;
+    }
+    changes.price = price;
+  }
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') {
+      res.status(400).json({ error: 'Invalid description' });
+      return;
+    }
+    changes.description = body.description.trim();
+  }
+  if (body.freePreviewPages !== undefined) {
+    const freePreviewPages = parseFreePreviewPages(body.freePreviewPages);
+    if (typeof freePreviewPages === 'string') {
+      res.status(400).json({ error: freePreviewPages });
+      return;
+    }
+    changes.freePreviewPages = freePreviewPages;
+  }
+  if (body.priceOverrides !== undefined) {
+    const priceOverrides = parsePriceOverrides(body.priceOverrides);
+    if (typeof priceOverrides === 'string') {
+      res.status(400).json({ error: priceOverrides });
+      return;
+    }
+    changes.priceOverrides = priceOverrides;
+  }
+  if (body.bundleDiscounts !== undefined) {
+    const bundleDiscounts = parseBundleDiscounts(body.bundleDiscounts);
+    if (typeof bundleDiscounts === 'string') {
+      res.status(400).json({ error: bundleDiscounts });
+      return;
+    }
+    changes.bundleDiscounts = bundleDiscounts;
+  }
+  if (body.timePasses !== undefined) {
+    const timePasses = parseTimePasses(body.timePasses);
+    if (typeof timePasses === 'string') {
+      res.status(400).json({ error: timePasses });
+      return;
+    }
+    changes.timePasses = timePasses;
+  }
+  if (body.published !== undefined) {
+    if (typeof body.published !== 'boolean') {
+      res.status(400).json({ error: 'Invalid published flag' });
+      return;
+    }
+    changes.published = body.published;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    res.status(400).json({ error: 'Nothing to update: title, price, description, freePreviewPages, priceOverrides, bundleDiscounts, timePasses, published' });
+    return;
+  }
+
+  const updated = await applyBookUpdate(meta.bookId, changes);
+  await syncBook(meta.bookId);
+  res.json({ success: true, data: updated });
+}
+
+/**
+ * DELETE /api/author/books/:bookId
+ * Stop selling a book; readers keep access to pages they already bought
+ */
+export async function unpublishBook(req: Request<BookParams>, res: Response): Promise<void> {
+  const meta = await loadOwnedBook(req.params.bookId, res);
+  if (!meta) return;
+
+  const updated = await applyBookUpdate(meta.bookId, { published: false });
+  await syncBook(meta.bookId);
+  res.json({ success: true, data: updated });
+}
+
+/**
+ * PUT /api/author/books/:bookId/file
+ * Replace a book's PDF, keeping its id, pricing and entitlements
+ */
+export async function reuploadBook(req: Request<BookParams>, res: Response): Promise<void> {
+  if (!req.file) {
+    res.status(400).json({ error: 'PDF file is required' });
+    return;
+  }
+
+  const meta = await loadOwnedBook(req.params.bookId, res);
+  if (!meta) return;
+
+  try {
+    const updated = await replaceBookContent(meta.bookId, req.file.buffer);
+    await syncBook(meta.bookId);
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Upload failed';
+    res.status(500).json({ error: message });
+  }
+}
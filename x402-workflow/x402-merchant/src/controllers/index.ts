@@ -5,5 +5,6 @@
 
 export { listProducts, getProduct } from './productController.js';
 export { purchaseProduct } from './paymentController.js';
-export { uploadBook } from './authorController.js';
+export { uploadBook, listAuthorBooks, updateBook, unpublishBook, reuploadBook } from './authorController.js';
 export { readPage } from './readController.js';
+export { openMeteredSession, readMeteredPage, closeMeteredSession } from './sessionController.js';
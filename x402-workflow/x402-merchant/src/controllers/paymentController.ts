@@ -4,11 +4,15 @@
 
 import type { Request, Response } from 'express';
 import { getProductById } from '../data/products.js';
-import { buildPaymentRequired, decodePaymentHeader, encodePaymentResponse, validatePaymentPayload, validatePaymentAmount } from '../utils/index.js';
-import type { PaymentResponse, PurchaseReceipt, PaymentPayload } from '../types/index.js';
-import { HTTP_STATUS, HTTP_HEADERS } from '../constants/index.js';
+import {
+  buildPaymentRequired, decodePaymentHeader, encodePaymentResponse, validatePaymentPayload, validatePaymentQuote, quotedRequirement,
+  matchPaymentRequirement, findOffer, issueAccessToken,
+} from '../utils/index.js';
+import type { PaymentResponse, PurchaseReceipt } from '../types/index.js';
+import { HTTP_STATUS, HTTP_HEADERS, USDC_DECIMALS } from '../constants/index.js';
 import { config } from '../config/index.js';
-import { getFacilitator } from '../services/index.js';
+import { verifyAndSettle, claimNonce, releaseNonce, recordSettlement, grantEntitlements } from '../services/index.js';
+import type { FacilitatorResult } from '../services/index.js';
 
 interface PurchaseSuccessResponse { success: true; message: string; receipt: PurchaseReceipt; }
 interface PurchaseErrorResponse { success: false; error: string; required?: string; received?: string; }
@@ -18,7 +22,7 @@ interface PurchaseErrorResponse { success: false; error: string; required?: stri
  * Flow: 1. No header -> 402  2. With header -> validate & settle -> 200
  */
 export async function purchaseProduct(
-  req: Request,
+  req: Request<{ productId: string }>,
   res: Response<PurchaseSuccessResponse | PurchaseErrorResponse | object>
 ): Promise<void> {
   const { productId } = req.params;
@@ -32,19 +36,19 @@ export async function purchaseProduct(
 
   console.log(`[Payment] Purchase: ${product.name} ($${product.priceUSD})`);
 
+  const paymentRequired = buildPaymentRequired(
+    `/api/buy/${productId}`,
+    product.priceInBaseUnits,
+    `Purchase: ${product.name}`,
+    { productId: product.id, productName: product.name, authorAddress: product.authorAddress }
+  );
   const paymentHeader = req.headers[HTTP_HEADERS.X_PAYMENT] as string | undefined;
 
   // No payment header -> Return 402
   if (!paymentHeader) {
     console.log('[Payment] No credentials, returning 402...');
-    const paymentRequired = buildPaymentRequired(
-      `/api/buy/${productId}`,
-      product.priceInBaseUnits,
-      `Purchase: ${product.name}`,
-      { productId: product.id, productName: product.name }
-    );
     res.status(HTTP_STATUS.PAYMENT_REQUIRED).json(paymentRequired);
-    console.log(`[Payment] 402 sent: ${product.priceInBaseUnits} to ${paymentRequired.accepts[0].payTo}`);
+    console.log(`[Payment] 402 sent: ${paymentRequired.accepts.length} option(s), ${product.priceInBaseUnits} to ${paymentRequired.accepts[0].payTo}`);
     return;
   }
 
@@ -60,47 +64,90 @@ export async function purchaseProduct(
   const { authorization } = paymentPayload.payload;
   console.log(`[Payment] From: ${authorization.from}, Amount: ${authorization.value}`);
 
-  const structureValidation = validatePaymentPayload(paymentPayload);
+  const requirement = matchPaymentRequirement(paymentPayload, paymentRequired.accepts);
+  if (!requirement) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ success: false, error: `No payment option for ${paymentPayload.scheme} on ${paymentPayload.network}` });
+    return;
+  }
+
+  const structureValidation = validatePaymentPayload(paymentPayload, requirement);
   if (!structureValidation.valid) {
     res.status(HTTP_STATUS.BAD_REQUEST).json({ success: false, error: structureValidation.error ?? 'Invalid payload' });
     return;
   }
 
-  const amountValidation = validatePaymentAmount(authorization.value, product.priceInBaseUnits);
-  if (!amountValidation.valid) {
-    res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({
-      success: false, error: 'Insufficient payment', required: product.priceInBaseUnits, received: authorization.value
-    });
+  const quoteValidation = validatePaymentQuote(paymentPayload, requirement);
+  if (!quoteValidation.quote) {
+    if (!paymentPayload.quote || quoteValidation.expired) {
+      // The client can pay again against the fresh quote
+      console.log(`[Payment] ${quoteValidation.error}, returning 402...`);
+      res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({ ...paymentRequired, error: quoteValidation.error });
+      return;
+    }
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ success: false, error: quoteValidation.error ?? 'Invalid payment quote' });
+    return;
+  }
+
+  // A payment signed before a price change is settled at the price it was quoted
+  const { quote } = quoteValidation;
+  if (quote.amount !== requirement.maxAmountRequired) {
+    console.log(`[Payment] Honouring quote ${quote.id}: ${quote.amount} (current price ${requirement.maxAmountRequired})`);
+  }
+
+  const claim = await claimNonce(authorization.from, authorization.nonce, requirement.resource);
+  if (claim.status === 'conflict') {
+    res.status(HTTP_STATUS.CONFLICT).json({ success: false, error: `Payment authorization was already used for ${claim.resource}` });
     return;
   }
 
   // Execute on-chain settlement
   console.log('[Payment] Executing on-chain settlement...');
   try {
-    const facilitator = getFacilitator(config.merchant.privateKey as `0x${string}`);
-    const result = await facilitator.executePayment(paymentPayload as PaymentPayload);
-
-    if (!result.success) {
-      console.log(`[Payment] Settlement failed: ${result.error}`);
-      res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({ success: false, error: result.error || 'Settlement failed' });
-      return;
+    let result: FacilitatorResult;
+    if (claim.status === 'settled') {
+      console.log(`[Payment] Authorization already settled for ${requirement.resource}`);
+      result = { success: true, transactionHash: claim.entry.transactionHash as FacilitatorResult['transactionHash'] };
+    } else {
+      result = await verifyAndSettle(paymentPayload, quotedRequirement(requirement, quote, paymentPayload.quote!));
+      if (!result.success) {
+        releaseNonce(authorization.from, authorization.nonce);
+        console.log(`[Payment] Settlement failed: ${result.error}`);
+        res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({ success: false, error: result.error || 'Settlement failed' });
+        return;
+      }
+      await recordSettlement(authorization.from, authorization.nonce, {
+        resource: requirement.resource,
+        quoteId: quote.id,
+        amount: quote.amount,
+        transactionHash: result.transactionHash ?? '',
+        settledAt: new Date().toISOString(),
+      });
     }
 
     console.log('[Payment] Settlement successful!');
 
+    // Bundles and page products unlock their pages on the read route
+    if (product.book) {
+      const { bookId, fromPage, throughPage } = product.book;
+      const pages = Array.from({ length: throughPage - fromPage + 1 }, (_, i) => fromPage + i);
+      await grantEntitlements(authorization.from, bookId, pages, result.transactionHash ?? '');
+      res.setHeader(HTTP_HEADERS.X_ACCESS_TOKEN, issueAccessToken(authorization.from));
+    }
+
     const paymentResponse: PaymentResponse = {
       success: true,
       transaction: result.transactionHash || ('0x' + '0'.repeat(64)),
-      network: config.merchant.network as 'avalanche-fuji',
+      network: requirement.network,
       payer: authorization.from,
       errorReason: null,
     };
 
+    const offer = findOffer(requirement.network, requirement.asset);
     const receipt: PurchaseReceipt = {
       productId: product.id,
       productName: product.name,
-      amount: product.priceUSD,
-      currency: 'USDC',
+      amount: Number(quote.amount) / 10 ** (offer?.decimals ?? USDC_DECIMALS),
+      currency: offer?.symbol ?? 'USDC',
       payer: authorization.from,
       timestamp: new Date().toISOString(),
       transactionHash: paymentResponse.transaction,
@@ -110,6 +157,7 @@ export async function purchaseProduct(
     res.status(HTTP_STATUS.OK).json({ success: true, message: `Purchased ${product.name}!`, receipt });
     console.log(`[Payment] Success: ${paymentResponse.transaction}`);
   } catch (error) {
+    releaseNonce(authorization.from, authorization.nonce);
     console.log(`[Payment] Error: ${error instanceof Error ? error.message : 'Unknown'}`);
     res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({ success: false, error: 'Payment processing failed' });
   }
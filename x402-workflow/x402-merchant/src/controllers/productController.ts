@@ -6,13 +6,17 @@ import type { Request, Response } from 'express';
 import { getProductById, getAllProducts } from '../data/products.js';
 import { HTTP_STATUS } from '../constants/index.js';
 
+/**
+ * GET /api/products
+ * Uploaded books include their pricing table (free preview, page/chapter overrides, bundle discounts)
+ */
 export function listProducts(_req: Request, res: Response): void {
   const products = getAllProducts();
   console.log(`[Products] Returning ${products.length} products`);
   res.status(HTTP_STATUS.OK).json({ success: true, data: products, count: products.length });
 }
 
-export function getProduct(req: Request, res: Response): void {
+export function getProduct(req: Request<{ id: string }>, res: Response): void {
   const { id } = req.params;
   const product = getProductById(id);
   
@@ -0,0 +1,198 @@
+import type { Request, Response } from 'express';
+import {
+  buildPaymentRequired, decodePaymentHeader, validatePaymentPayload, validatePaymentQuote, quotedRequirement,
+  matchPaymentRequirement, findOffer, priceInAsset, issueAccessToken, pagePrice,
+} from '../utils/index.js';
+import { HTTP_HEADERS, HTTP_STATUS, PAYMENT_SCHEMES, METERED_SETTLEMENT_GRACE_SECONDS } from '../constants/index.js';
+import { config } from '../config/index.js';
+import { getMetadata, getPage } from '../services/contentService.js';
+import {
+  getFacilitatorClient, openSession, getSession, chargePage, closeSession, isSessionOpen, getOwnedPages,
+} from '../services/index.js';
+import type { MeteredSession } from '../services/index.js';
+
+/** Session as returned to the reader (the signed permit stays on the server) */
+function sessionSummary(session: MeteredSession) {
+  const { payload: _payload, requirement: _requirement, ...summary } = session;
+  return summary;
+}
+
+/**
+ * POST /api/sessions/:bookId
+ * Open a metered reading session with an "upto" permit capped at the whole book's price
+ */
+export async function openMeteredSession(req: Request<{ bookId: string }>, res: Response): Promise<void> {
+  if (!config.metering.vaultAddress) {
+    res.status(HTTP_STATUS.SERVICE_UNAVAILABLE).json({ error: 'Metered sessions are not enabled (VAULT_ADDRESS is not set)' });
+    return;
+  }
+
+  const { bookId } = req.params;
+  const metadata = await getMetadata(bookId);
+  if (!metadata) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Book not found' });
+    return;
+  }
+  if (metadata.published === false) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Book is no longer for sale' });
+    return;
+  }
+
+  // A session can never cost more than reading every page
+  let cap = 0n;
+  for (let page = 1; page <= metadata.totalPages; page++) cap += pagePrice(metadata, page);
+  if (cap === 0n) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Book is free to read' });
+    return;
+  }
+
+  const paymentRequired = buildPaymentRequired(
+    `/api/sessions/${bookId}`,
+    cap.toString(),
+    `Metered reading of ${metadata.title} - pay only for pages read`,
+    { bookId, authorAddress: metadata.authorAddress, sessionSeconds: config.metering.sessionTtlSeconds },
+    PAYMENT_SCHEMES.UPTO
+  );
+
+  const paymentHeader = req.headers[HTTP_HEADERS.X_PAYMENT] as string | undefined;
+  if (!paymentHeader) {
+    res.status(HTTP_STATUS.PAYMENT_REQUIRED).json(paymentRequired);
+    return;
+  }
+
+  const paymentPayload = decodePaymentHeader(paymentHeader);
+  if (!paymentPayload) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: 'Invalid X-PAYMENT header format' });
+    return;
+  }
+
+  if (paymentPayload.scheme !== PAYMENT_SCHEMES.UPTO) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: `Sessions are paid with the "${PAYMENT_SCHEMES.UPTO}" scheme` });
+    return;
+  }
+
+  const offered = matchPaymentRequirement(paymentPayload, paymentRequired.accepts);
+  if (!offered) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: `No payment option for ${paymentPayload.scheme} on ${paymentPayload.network}` });
+    return;
+  }
+
+  const structureValidation = validatePaymentPayload(paymentPayload, offered);
+  if (!structureValidation.valid) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: structureValidation.error ?? 'Invalid payload' });
+    return;
+  }
+
+  const quoteValidation = validatePaymentQuote(paymentPayload, offered);
+  if (!quoteValidation.quote) {
+    if (!paymentPayload.quote || quoteValidation.expired) {
+      res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({ ...paymentRequired, error: quoteValidation.error });
+      return;
+    }
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: quoteValidation.error ?? 'Invalid payment quote' });
+    return;
+  }
+
+  // Reading stops early enough that the permit is still valid when the session is settled
+  const deadline = parseInt(paymentPayload.payload.authorization.validBefore, 10) * 1000;
+  const expiresAt = Math.min(Date.now() + config.metering.sessionTtlSeconds * 1000, deadline - METERED_SETTLEMENT_GRACE_SECONDS * 1000);
+  if (expiresAt <= Date.now()) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: `Permit deadline must be more than ${METERED_SETTLEMENT_GRACE_SECONDS}s away` });
+    return;
+  }
+
+  const requirement = quotedRequirement(offered, quoteValidation.quote, paymentPayload.quote!);
+  try {
+    const verification = await getFacilitatorClient().verify(paymentPayload, requirement);
+    if (!verification.valid) {
+      res.status(HTTP_STATUS.FORBIDDEN).json({ error: verification.error || 'Permit verification failed' });
+      return;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Permit verification failed';
+    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({ error: message });
+    return;
+  }
+
+  const session = await openSession(bookId, paymentPayload, requirement, expiresAt);
+  if (typeof session === 'string') {
+    res.status(HTTP_STATUS.CONFLICT).json({ error: session });
+    return;
+  }
+
+  console.log(`[Metering] Session ${session.id} opened by ${session.payer} for ${bookId} (up to ${session.maxAmount})`);
+  res.status(HTTP_STATUS.CREATED).json({ success: true, data: sessionSummary(session) });
+}
+
+/**
+ * GET /api/sessions/:sessionId/:pageIndex
+ * Read a page in a metered session, adding its price to the session's usage
+ */
+export async function readMeteredPage(req: Request<{ sessionId: string; pageIndex: string }>, res: Response): Promise<void> {
+  const session = await getSession(req.params.sessionId);
+  if (!session) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Session not found' });
+    return;
+  }
+  if (!isSessionOpen(session)) {
+    res.status(HTTP_STATUS.FORBIDDEN).json({ error: `Session is ${session.status === 'open' ? 'expired' : session.status}` });
+    return;
+  }
+
+  const metadata = await getMetadata(session.bookId);
+  const pageNum = parseInt(req.params.pageIndex, 10);
+  if (!metadata || Number.isNaN(pageNum) || pageNum < 1 || pageNum > metadata.totalPages) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Page not found' });
+    return;
+  }
+
+  // Pages the reader already owns are not charged again; others cost their price in the session's asset
+  const [owned] = await getOwnedPages(session.payer, session.bookId, [pageNum]);
+  const offer = findOffer(session.requirement.network, session.requirement.asset);
+  const price = owned ? 0n : pagePrice(metadata, pageNum);
+  const charge = await chargePage(session, pageNum, offer && price > 0n ? BigInt(priceInAsset(price.toString(), offer)) : price);
+  if ('error' in charge) {
+    res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({
+      error: charge.error,
+      consumed: charge.session.consumed,
+      maxAmount: charge.session.maxAmount,
+    });
+    return;
+  }
+
+  const buffer = await getPage(session.bookId, pageNum);
+  if (!buffer) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Page not found' });
+    return;
+  }
+
+  res.setHeader(HTTP_HEADERS.X_SESSION_CONSUMED, charge.session.consumed);
+  res.contentType('application/pdf').send(buffer);
+}
+
+/**
+ * POST /api/sessions/:sessionId/close
+ * Settle the amount consumed so far and grant the pages read
+ */
+export async function closeMeteredSession(req: Request<{ sessionId: string }>, res: Response): Promise<void> {
+  const session = await getSession(req.params.sessionId);
+  if (!session) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Session not found' });
+    return;
+  }
+  if (session.status === 'settling') {
+    res.status(HTTP_STATUS.CONFLICT).json({ error: 'Session is already being settled' });
+    return;
+  }
+
+  const closed = await closeSession(session);
+  if (closed.status === 'failed') {
+    res.status(HTTP_STATUS.FORBIDDEN).json({ error: closed.error || 'Settlement failed', data: sessionSummary(closed) });
+    return;
+  }
+
+  if (closed.pages.length > 0) {
+    res.setHeader(HTTP_HEADERS.X_ACCESS_TOKEN, issueAccessToken(closed.payer));
+  }
+  res.json({ success: true, data: sessionSummary(closed) });
+}
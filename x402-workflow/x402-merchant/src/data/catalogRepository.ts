@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Catalog Repository
+ * @description Keeps the product catalog in sync with books stored under uploads/books
+ *
+ * The on-disk metadata.json of each uploaded book is the source of truth.
+ * loadCatalog() rebuilds the catalog from seed products and every stored book
+ * at startup; syncBook() refreshes (or removes) one book after it changes.
+ * Unpublished books are kept on disk but left out of the catalog.
+ */
+
+import type { Product } from '../types/index.js';
+import { config } from '../config/index.js';
+import { getMetadata, listBooks } from '../services/contentService.js';
+import type { BookMetadata } from '../services/contentService.js';
+import { addOrUpdateProduct, removeProduct, replaceProducts } from './products.js';
+import { SEED_PRODUCTS } from './seed.js';
+import { pricingTable } from '../utils/pricing.js';
+
+/**
+ * Catalog entry for an uploaded book
+ */
+export function bookToProduct(meta: BookMetadata): Product {
+  return {
+    id: meta.bookId,
+    name: meta.title,
+    description: meta.description ?? `Book: ${meta.title} (${meta.totalPages} pages)`,
+    priceUSD: meta.pricePerPageUSD,
+    priceInBaseUnits: meta.pricePerPageBaseUnits,
+    authorAddress: meta.authorAddress,
+    pricing: pricingTable(meta),
+  };
+}
+
+/**
+ * Rebuild the catalog from seed products and all stored books
+ *
+ * @returns Number of books loaded from disk
+ */
+export async function loadCatalog(): Promise<number> {
+  const books = (await listBooks()).filter(meta => meta.published !== false);
+  const seeds = config.catalog.seedDemoProducts ? SEED_PRODUCTS : [];
+  replaceProducts([...seeds, ...books.map(bookToProduct)]);
+  console.log(`[Catalog] Loaded ${seeds.length} seed products and ${books.length} books`);
+  return books.length;
+}
+
+/**
+ * Re-read one book from disk: update its product, or drop it if the book is gone or unpublished
+ *
+ * @returns The book's product, or null if it no longer exists
+ */
+export async function syncBook(bookId: string): Promise<Product | null> {
+  const meta = await getMetadata(bookId);
+  if (!meta || meta.published === false) {
+    removeProduct(bookId);
+    return null;
+  }
+  const product = bookToProduct(meta);
+  addOrUpdateProduct(product);
+  return product;
+}
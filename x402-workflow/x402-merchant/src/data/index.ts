@@ -8,5 +8,9 @@ export {
   baseUnitsToUsd,
   getProductById,
   getAllProducts,
+  addOrUpdateProduct,
+  removeProduct,
   productExists,
 } from './products.js';
+export { bookToProduct, loadCatalog, syncBook } from './catalogRepository.js';
+export { SEED_PRODUCTS } from './seed.js';
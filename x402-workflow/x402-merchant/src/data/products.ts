@@ -2,8 +2,8 @@
  * @fileoverview Product Catalog
  * @description Product data and helper functions
  * 
- * In a real application, this would be stored in a database.
- * For demonstration purposes, we use in-memory data.
+ * In-memory index of purchasable products. The catalog repository
+ * (catalogRepository.ts) fills it from seed data and uploaded books.
  */
 
 import type { Product } from '../types/index.js';
@@ -44,42 +44,9 @@ export function baseUnitsToUsd(baseUnits: string): number {
 
 /**
  * Product catalog stored in a Map for O(1) lookup by ID
+ * Populated at startup by the catalog repository (seed products + uploaded books)
  */
-const productCatalog: Map<string, Product> = new Map([
-  [
-    'novel-1-page-1',
-    {
-      id: 'novel-1-page-1',
-      name: 'Novel One — Page 1',
-      description: 'The opening page of our serialized fiction.',
-      priceUSD: 0.01,
-      priceInBaseUnits: usdToBaseUnits(0.01),
-      authorAddress: '0x1111111111111111111111111111111111111111',
-    },
-  ],
-  [
-    'novel-1-page-2',
-    {
-      id: 'novel-1-page-2',
-      name: 'Novel One — Page 2',
-      description: 'Continues the story with a key reveal.',
-      priceUSD: 0.01,
-      priceInBaseUnits: usdToBaseUnits(0.01),
-      authorAddress: '0x1111111111111111111111111111111111111111',
-    },
-  ],
-  [
-    'novel-1-bundle',
-    {
-      id: 'novel-1-bundle',
-      name: 'Novel One — Pages 1-5',
-      description: 'Bundle of the first five pages.',
-      priceUSD: 0.05,
-      priceInBaseUnits: usdToBaseUnits(0.05),
-      authorAddress: '0x2222222222222222222222222222222222222222',
-    },
-  ],
-]);
+const productCatalog: Map<string, Product> = new Map();
 
 // =============================================================================
 // PUBLIC API
@@ -111,6 +78,25 @@ export function addOrUpdateProduct(product: Product): void {
   productCatalog.set(product.id, product);
 }
 
+/**
+ * Remove a product from the catalog
+ *
+ * @returns True if the product existed
+ */
+export function removeProduct(id: string): boolean {
+  return productCatalog.delete(id);
+}
+
+/**
+ * Replace the whole catalog
+ */
+export function replaceProducts(products: Product[]): void {
+  productCatalog.clear();
+  for (const product of products) {
+    productCatalog.set(product.id, product);
+  }
+}
+
 /**
  * Check if product exists
  * 
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Seed Products
+ * @description Demo products loaded into the catalog at startup (SEED_DEMO_PRODUCTS)
+ *
+ * Uploaded books with the same id take precedence over seed entries.
+ */
+
+import type { Product } from '../types/index.js';
+import { usdToBaseUnits } from './products.js';
+
+export const SEED_PRODUCTS: Product[] = [
+  {
+    id: 'novel-1-page-1',
+    name: 'Novel One — Page 1',
+    description: 'The opening page of our serialized fiction.',
+    priceUSD: 0.01,
+    priceInBaseUnits: usdToBaseUnits(0.01),
+    authorAddress: '0x1111111111111111111111111111111111111111',
+    book: { bookId: 'novel-1', fromPage: 1, throughPage: 1 },
+  },
+  {
+    id: 'novel-1-page-2',
+    name: 'Novel One — Page 2',
+    description: 'Continues the story with a key reveal.',
+    priceUSD: 0.01,
+    priceInBaseUnits: usdToBaseUnits(0.01),
+    authorAddress: '0x1111111111111111111111111111111111111111',
+    book: { bookId: 'novel-1', fromPage: 2, throughPage: 2 },
+  },
+  {
+    id: 'novel-1-bundle',
+    name: 'Novel One — Pages 1-5',
+    description: 'Bundle of the first five pages.',
+    priceUSD: 0.05,
+    priceInBaseUnits: usdToBaseUnits(0.05),
+    authorAddress: '0x2222222222222222222222222222222222222222',
+    book: { bookId: 'novel-1', fromPage: 1, throughPage: 5 },
+  },
+];
@@ -0,0 +1,66 @@
+/**
+ * Author Authentication - author endpoints require an X-WALLET-PROOF signed by the author's wallet
+ *
+ * The proof must be valid for this request only (Request and Nonce, see
+ * walletProof.ts). A request with a body must also sign its hash as
+ * "Content-SHA256": the raw JSON body, or for multipart uploads the uploaded
+ * file (checked by requireSignedFile once multer has read it). The proven
+ * address is put in res.locals.authorAddress; handlers compare it with
+ * BookMetadata.authorAddress.
+ */
+
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Request, Response, NextFunction } from 'express';
+import { siweField } from '../utils/index.js';
+import { HTTP_HEADERS, HTTP_STATUS } from '../constants/index.js';
+import { verifyRequestProof } from './walletProof.js';
+
+/** A request whose JSON body was kept as received (set by express.json in app.ts) */
+export type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+function sha256Hex(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Authenticate the author before the body is parsed or buffered
+ * (multipart routes must add requireSignedFile after multer)
+ */
+export async function requireAuthor(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const header = req.headers[HTTP_HEADERS.X_WALLET_PROOF] as string | undefined;
+  if (!header) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({ error: 'X-WALLET-PROOF signed by the author wallet is required' });
+    return;
+  }
+
+  const proof = await verifyRequestProof(req, header);
+  if (!proof.valid || !proof.address || !proof.message) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({ error: proof.error ?? 'Invalid wallet proof' });
+    return;
+  }
+
+  const contentHash = siweField(proof.message, 'Content-SHA256')?.toLowerCase();
+  if (!req.is('multipart/form-data')) {
+    const rawBody = (req as RawBodyRequest).rawBody;
+    if ((rawBody?.length || contentHash) && contentHash !== sha256Hex(rawBody ?? Buffer.alloc(0))) {
+      res.status(HTTP_STATUS.UNAUTHORIZED).json({ error: 'Wallet proof must sign the request body as Content-SHA256' });
+      return;
+    }
+  }
+
+  res.locals.authorAddress = proof.address;
+  res.locals.signedContentHash = contentHash;
+  next();
+}
+
+/**
+ * Check that the uploaded file is the one the author's proof signed (after requireAuthor and multer)
+ */
+export function requireSignedFile(req: Request, res: Response, next: NextFunction): void {
+  if (req.file && res.locals.signedContentHash !== sha256Hex(req.file.buffer)) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({ error: 'Wallet proof must sign the uploaded file as Content-SHA256' });
+    return;
+  }
+  next();
+}
@@ -6,3 +6,6 @@
 export { requestLogger } from './logger.js';
 export { AppError, notFoundHandler, errorHandler } from './errorHandler.js';
 export { paywall } from './paywall.js';
+export { verifyRequestProof } from './walletProof.js';
+export { requireAuthor, requireSignedFile } from './authorAuth.js';
+export type { RawBodyRequest } from './authorAuth.js';
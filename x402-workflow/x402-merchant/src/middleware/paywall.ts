@@ -1,10 +1,32 @@
 import type { Request, Response, NextFunction } from 'express';
-import { buildPaymentRequired, decodePaymentHeader, validatePaymentPayload, validatePaymentAmount } from '../utils/index.js';
+import {
+  buildPaymentRequired, buildPaymentRequirements, decodePaymentHeader, validatePaymentPayload, validatePaymentQuote,
+  quotedRequirement, matchPaymentRequirement, encodePaymentResponse,
+  issueAccessToken, verifyAccessToken, priceForPages, pagePrice,
+} from '../utils/index.js';
 import { HTTP_HEADERS, HTTP_STATUS } from '../constants/index.js';
 import { getMetadata } from '../services/contentService.js';
-import { config } from '../config/index.js';
-import { getFacilitator } from '../services/index.js';
-import type { PaymentPayload } from '../types/index.js';
+import { verifyAndSettle, claimNonce, releaseNonce, recordSettlement, grantEntitlements, getEntitlement, getOwnedPages } from '../services/index.js';
+import type { FacilitatorResult } from '../services/index.js';
+import type { ReaderAuthResult } from '../types/index.js';
+import { verifyRequestProof } from './walletProof.js';
+
+/** Identify the reader from a Bearer access token or a single-use X-WALLET-PROOF header (null if neither is sent) */
+async function authenticateReader(req: Request): Promise<ReaderAuthResult | null> {
+  const authorization = req.headers[HTTP_HEADERS.AUTHORIZATION];
+  if (authorization?.startsWith('Bearer ')) return verifyAccessToken(authorization.slice('Bearer '.length).trim());
+
+  const proof = req.headers[HTTP_HEADERS.X_WALLET_PROOF] as string | undefined;
+  return proof ? verifyRequestProof(req, proof) : null;
+}
+
+/** Last page covered by a request: the page itself, "all" (last page), or N (null if invalid) */
+function parseThroughPage(through: unknown, pageNum: number, totalPages: number): number | null {
+  if (through === undefined) return pageNum;
+  if (through === 'all') return totalPages;
+  const page = typeof through === 'string' && /^\d+$/.test(through) ? parseInt(through, 10) : NaN;
+  return page >= pageNum && page <= totalPages ? page : null;
+}
 
 export async function paywall(req: Request, res: Response, next: NextFunction): Promise<void> {
   const { bookId, pageIndex } = req.params as { bookId: string; pageIndex: string };
@@ -25,16 +47,78 @@ export async function paywall(req: Request, res: Response, next: NextFunction):
     return;
   }
 
-  const priceInBaseUnits = metadata.pricePerPageBaseUnits;
+  // ?through=N (or "all") buys pages pageIndex..N with one authorization
+  const throughPage = parseThroughPage(req.query.through, pageNum, metadata.totalPages);
+  if (throughPage === null) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: `Invalid page range: through must be "all" or a page from ${pageNum} to ${metadata.totalPages}` });
+    return;
+  }
+  const pages = Array.from({ length: throughPage - pageNum + 1 }, (_, i) => pageNum + i);
   const paymentHeader = req.headers[HTTP_HEADERS.X_PAYMENT] as string | undefined;
 
+  // Free preview pages (and pages priced at zero) never need a payment
+  const paidPages = pages.filter(page => pagePrice(metadata, page) > 0n);
+  if (paidPages.length === 0 && metadata.published !== false) {
+    res.locals.bookMetadata = metadata;
+    res.locals.pageIndex = pageNum;
+    res.locals.freePreview = true;
+    next();
+    return;
+  }
+
+  // Readers re-open pages they already bought without paying again
+  const reader = await authenticateReader(req);
+  const ownedPages = reader?.address ? await getOwnedPages(reader.address, bookId, paidPages) : [];
+  if (reader?.address && ownedPages.length === paidPages.length) {
+    if (!req.headers[HTTP_HEADERS.AUTHORIZATION]) {
+      res.setHeader(HTTP_HEADERS.X_ACCESS_TOKEN, issueAccessToken(reader.address));
+    }
+    res.locals.bookMetadata = metadata;
+    res.locals.pageIndex = pageNum;
+    res.locals.entitlement = await getEntitlement(reader.address, bookId, pageNum);
+    next();
+    return;
+  }
+  if (reader && !reader.valid && !paymentHeader) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({ error: reader.error ?? 'Invalid reader credentials' });
+    return;
+  }
+
+  // Unpublished books stay readable for entitled readers but are no longer sold
+  if (metadata.published === false) {
+    res.status(HTTP_STATUS.NOT_FOUND).json({ error: 'Book is no longer for sale' });
+    return;
+  }
+
+  // Pages the reader already owns are not charged again; overrides set each page's price
+  const price = priceForPages(metadata, paidPages.filter(page => !ownedPages.includes(page)));
+  const priceInBaseUnits = price.amount;
+  const range = throughPage === pageNum ? `page ${pageNum}` : `pages ${pageNum}-${throughPage}`;
+  const paymentRequired = buildPaymentRequired(
+    throughPage === pageNum ? `/api/read/${bookId}/${pageNum}` : `/api/read/${bookId}/${pageNum}?through=${throughPage}`,
+    priceInBaseUnits,
+    `Read ${metadata.title} - ${range}${price.percentOff ? ` (${price.percentOff}% bundle discount)` : ''}`,
+    {
+      bookId,
+      pageIndex: pageNum,
+      throughPage,
+      chargedPages: price.pages,
+      percentOff: price.percentOff,
+      authorAddress: metadata.authorAddress,
+    }
+  );
+
+  // Time passes unlock every page of the book for a period, as alternative options
+  for (const pass of metadata.timePasses ?? []) {
+    paymentRequired.accepts.push(...buildPaymentRequirements(
+      `/api/read/${bookId}?pass=${pass.id}`,
+      pass.priceBaseUnits,
+      `Read all of ${metadata.title} for ${pass.id}`,
+      { bookId, pass: pass.id, passSeconds: pass.durationSeconds, authorAddress: metadata.authorAddress }
+    ));
+  }
+
   if (!paymentHeader) {
-    const paymentRequired = buildPaymentRequired(
-      `/api/read/${bookId}/${pageNum}`,
-      priceInBaseUnits,
-      `Read ${metadata.title} - page ${pageNum}`,
-      { bookId, pageIndex: pageNum, authorAddress: metadata.authorAddress }
-    );
     res.status(HTTP_STATUS.PAYMENT_REQUIRED).json(paymentRequired);
     return;
   }
@@ -45,33 +129,97 @@ export async function paywall(req: Request, res: Response, next: NextFunction):
     return;
   }
 
-  const structureValidation = validatePaymentPayload(paymentPayload);
+  const requirement = matchPaymentRequirement(paymentPayload, paymentRequired.accepts);
+  if (!requirement) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: `No payment option for ${paymentPayload.scheme} on ${paymentPayload.network}` });
+    return;
+  }
+
+  const structureValidation = validatePaymentPayload(paymentPayload, requirement);
   if (!structureValidation.valid) {
     res.status(HTTP_STATUS.BAD_REQUEST).json({ error: structureValidation.error ?? 'Invalid payload' });
     return;
   }
 
+  const quoteValidation = validatePaymentQuote(paymentPayload, requirement);
+  if (!quoteValidation.quote) {
+    if (!paymentPayload.quote || quoteValidation.expired) {
+      // The client can pay again against the fresh quote
+      res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({ ...paymentRequired, error: quoteValidation.error });
+      return;
+    }
+    res.status(HTTP_STATUS.BAD_REQUEST).json({ error: quoteValidation.error ?? 'Invalid payment quote' });
+    return;
+  }
+
+  // A payment signed before a price change is settled at the price it was quoted
+  const { quote } = quoteValidation;
+  if (quote.amount !== requirement.maxAmountRequired) {
+    console.log(`[Paywall] Honouring quote ${quote.id}: ${quote.amount} (current price ${requirement.maxAmountRequired})`);
+  }
+
   const { authorization } = paymentPayload.payload;
-  const amountValidation = validatePaymentAmount(authorization.value, priceInBaseUnits);
-  if (!amountValidation.valid) {
-    res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({ error: 'Insufficient payment', required: priceInBaseUnits, received: authorization.value });
+  const claim = await claimNonce(authorization.from, authorization.nonce, requirement.resource);
+  if (claim.status === 'conflict') {
+    res.status(HTTP_STATUS.CONFLICT).json({ error: `Payment authorization was already used for ${claim.resource}` });
     return;
   }
 
   try {
-    const facilitator = getFacilitator(config.merchant.privateKey as `0x${string}`);
-    const result = await facilitator.executePayment(paymentPayload as PaymentPayload);
-
-    if (!result.success) {
-      res.status(HTTP_STATUS.FORBIDDEN).json({ error: result.error || 'Payment failed' });
-      return;
+    let result: FacilitatorResult;
+    let settledAt = new Date().toISOString();
+    if (claim.status === 'settled') {
+      result = { success: true, transactionHash: claim.entry.transactionHash as FacilitatorResult['transactionHash'] };
+      settledAt = claim.entry.settledAt;
+    } else {
+      result = await verifyAndSettle(paymentPayload, quotedRequirement(requirement, quote, paymentPayload.quote!));
+      if (!result.success) {
+        releaseNonce(authorization.from, authorization.nonce);
+        res.status(HTTP_STATUS.FORBIDDEN).json({ error: result.error || 'Payment failed' });
+        return;
+      }
+      await recordSettlement(authorization.from, authorization.nonce, {
+        resource: requirement.resource,
+        quoteId: quote.id,
+        amount: quote.amount,
+        transactionHash: result.transactionHash ?? '',
+        settledAt,
+      });
     }
 
+    const passSeconds = requirement.extra?.passSeconds as number | undefined;
+    if (passSeconds) {
+      // A pass runs from its settlement, so replaying the payment does not extend it
+      const allPages = Array.from({ length: metadata.totalPages }, (_, i) => i + 1);
+      const expiresAt = new Date(Date.parse(settledAt) + passSeconds * 1000).toISOString();
+      await grantEntitlements(authorization.from, bookId, allPages, result.transactionHash ?? '', expiresAt);
+    } else {
+      await grantEntitlements(authorization.from, bookId, paidPages, result.transactionHash ?? '');
+    }
+    res.locals.entitlement = await getEntitlement(authorization.from, bookId, pageNum);
+    if (claim.status === 'settled') {
+      // A replayed payment header proves nothing about who sends it: it only
+      // re-serves the resource it paid for (while that lasts) and mints no token
+      if (!res.locals.entitlement) {
+        res.status(HTTP_STATUS.PAYMENT_REQUIRED).json({ ...paymentRequired, error: 'Payment was already settled and its access has ended' });
+        return;
+      }
+    } else {
+      res.setHeader(HTTP_HEADERS.X_ACCESS_TOKEN, issueAccessToken(authorization.from));
+    }
+    res.setHeader(HTTP_HEADERS.X_PAYMENT_RESPONSE, encodePaymentResponse({
+      success: true,
+      transaction: result.transactionHash ?? null,
+      network: requirement.network,
+      payer: authorization.from,
+      errorReason: null,
+    }));
     res.locals.bookMetadata = metadata;
     res.locals.pageIndex = pageNum;
     res.locals.paymentResult = result;
     next();
   } catch (error) {
+    releaseNonce(authorization.from, authorization.nonce);
     const message = error instanceof Error ? error.message : 'Payment processing error';
     res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({ error: message });
   }
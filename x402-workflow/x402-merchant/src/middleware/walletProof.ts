@@ -0,0 +1,36 @@
+/**
+ * Request Proofs - an X-WALLET-PROOF that is valid for one request only
+ *
+ * On top of the checks in verifyWalletProof (domain, address, Issued At), the
+ * signed message must name the request path ("Request: GET /api/read/<book>/<page>")
+ * and carry a "Nonce" the address has not used before (persisted, see
+ * services/proofNonces.ts). A captured proof cannot be replayed or sent to
+ * another endpoint. Used for both readers (paywall.ts) and authors (authorAuth.ts).
+ */
+
+import type { Request } from 'express';
+import { verifyWalletProof, siweField } from '../utils/index.js';
+import { consumeProofNonce } from '../services/index.js';
+import type { WalletProofResult } from '../types/index.js';
+
+/**
+ * Verify a wallet proof for this request and consume its nonce
+ */
+export async function verifyRequestProof(req: Request, headerValue: string): Promise<WalletProofResult> {
+  const proof = await verifyWalletProof(headerValue);
+  if (!proof.valid || !proof.address || !proof.message) {
+    return { valid: false, error: proof.error ?? 'Invalid wallet proof' };
+  }
+
+  const request = `${req.method} ${req.originalUrl.split('?')[0]}`;
+  if (siweField(proof.message, 'Request') !== request) {
+    return { valid: false, error: `Wallet proof must be signed for "Request: ${request}"` };
+  }
+
+  const nonce = siweField(proof.message, 'Nonce');
+  if (!nonce) return { valid: false, error: 'Wallet proof is missing Nonce' };
+  if (!await consumeProofNonce(proof.address, nonce)) {
+    return { valid: false, error: 'Wallet proof was already used' };
+  }
+  return proof;
+}
@@ -1,10 +1,17 @@
 import { Router } from 'express';
 import multer from 'multer';
-import { uploadBook } from '../controllers/authorController.js';
+import { uploadBook, listAuthorBooks, updateBook, unpublishBook, reuploadBook } from '../controllers/authorController.js';
+import { requireAuthor, requireSignedFile } from '../middleware/index.js';
 
 const upload = multer({ storage: multer.memoryStorage() });
 const router = Router();
 
-router.post('/upload', upload.single('file'), uploadBook);
+// Every author endpoint requires an X-WALLET-PROOF signed for the exact request;
+// uploads are authenticated before multer buffers the file
+router.post('/upload', requireAuthor, upload.single('file'), requireSignedFile, uploadBook);
+router.get('/books', requireAuthor, listAuthorBooks);
+router.patch('/books/:bookId', requireAuthor, updateBook);
+router.delete('/books/:bookId', requireAuthor, unpublishBook);
+router.put('/books/:bookId/file', requireAuthor, upload.single('file'), requireSignedFile, reuploadBook);
 
 export default router;
@@ -2,12 +2,14 @@ import { Router } from 'express';
 import paymentRoutes from './paymentRoutes.js';
 import authorRoutes from './authorRoutes.js';
 import readRoutes from './readRoutes.js';
+import sessionRoutes from './sessionRoutes.js';
 
 const router = Router();
 
 router.use('/', paymentRoutes);
 router.use('/author', authorRoutes);
 router.use('/read', readRoutes);
+router.use('/sessions', sessionRoutes);
 
 export const apiRoutes = router;
 export default router;
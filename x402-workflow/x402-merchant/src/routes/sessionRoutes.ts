@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { openMeteredSession, readMeteredPage, closeMeteredSession } from '../controllers/sessionController.js';
+
+const router = Router();
+
+router.post('/:bookId', openMeteredSession);
+router.get('/:sessionId/:pageIndex', readMeteredPage);
+router.post('/:sessionId/close', closeMeteredSession);
+
+export default router;
@@ -0,0 +1,39 @@
+/**
+ * Seed Books - writes the demo "novel-1" book that the seed products unlock
+ *
+ * Usage: npm run seed (skips books that already exist under uploads/books)
+ */
+
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { getMetadata, processUpload } from '../services/contentService.js';
+
+const SEED_BOOKS = [
+  {
+    bookId: 'novel-1',
+    title: 'Novel One',
+    price: 0.01,
+    authorAddress: '0x1111111111111111111111111111111111111111',
+    pages: 5,
+    bundleDiscounts: [{ minPages: 5, percentOff: 10 }],
+    timePasses: [{ id: '24h', durationSeconds: 86_400, priceUSD: 0.03 }],
+  },
+];
+
+async function renderPdf(title: string, pages: number): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  for (let i = 1; i <= pages; i++) {
+    const page = doc.addPage();
+    page.drawText(`${title} - page ${i}`, { x: 72, y: page.getHeight() - 96, size: 24, font });
+  }
+  return Buffer.from(await doc.save());
+}
+
+for (const book of SEED_BOOKS) {
+  if (await getMetadata(book.bookId)) {
+    console.log(`[Seed] ${book.bookId} already exists, skipping`);
+    continue;
+  }
+  const meta = await processUpload(await renderPdf(book.title, book.pages), book);
+  console.log(`[Seed] Created ${meta.bookId} (${meta.totalPages} pages)`);
+}
@@ -4,10 +4,21 @@
 
 import app from './app.js';
 import { config } from './config/index.js';
+import { loadCatalog } from './data/index.js';
+import { loadSettlementNetworks, startSessionSweeper } from './services/index.js';
 
 const { port } = config.server;
 const { address, network, chainId } = config.merchant;
 
+// Rebuild the catalog from stored books before accepting requests
+await loadCatalog();
+
+// Take each network's payTo from the facilitator and refuse offers it cannot settle
+await loadSettlementNetworks();
+
+// Settle metered sessions whose reading time ran out
+if (config.metering.vaultAddress) startSessionSweeper();
+
 app.listen(port, () => {
   console.log(`
 ╔═══════════════════════════════════════════════════════════╗
@@ -20,6 +31,7 @@ app.listen(port, () => {
 ║  GET  /health          GET  /api/products                 ║
 ║  GET  /api/products/:id POST /api/buy/:id (x402)          ║
 ║  POST /api/author/upload  GET /api/read/:book/:page       ║
+║  POST /api/sessions/:book (x402 upto, metered reading)    ║
 ╚═══════════════════════════════════════════════════════════╝
 `);
 });
@@ -1,10 +1,28 @@
-import { mkdir, writeFile, readFile, stat } from 'fs/promises';
+import { mkdir, writeFile, readFile, readdir, stat, unlink } from 'fs/promises';
 import path from 'path';
 import { PDFDocument } from 'pdf-lib';
 import { USDC_DECIMALS } from '../constants/index.js';
+import type { BundleDiscount, PriceOverride, TimePass } from '../types/index.js';
+
+export type { BundleDiscount, PriceOverride, TimePass };
 
 const UPLOAD_ROOT = path.resolve(process.cwd(), 'uploads', 'books');
 
+/** Page or chapter price as entered by the author (converted to base units on save) */
+export interface PriceOverrideInput {
+  fromPage: number;
+  throughPage: number;
+  priceUSD: number;
+  label?: string;
+}
+
+/** Time pass as entered by the author (converted to base units on save) */
+export interface TimePassInput {
+  id: string;
+  durationSeconds: number;
+  priceUSD: number;
+}
+
 export interface BookMetadata {
   bookId: string;
   title: string;
@@ -12,7 +30,30 @@ export interface BookMetadata {
   pricePerPageUSD: number;
   pricePerPageBaseUnits: string;
   totalPages: number;
+  description?: string;
+  /** Pages 1..freePreviewPages are readable without payment */
+  freePreviewPages?: number;
+  /** Per-page or per-chapter prices replacing pricePerPageBaseUnits */
+  priceOverrides?: PriceOverride[];
+  bundleDiscounts?: BundleDiscount[];
+  /** Whole-book passes offered next to page purchases */
+  timePasses?: TimePass[];
+  /** Unpublished books are not sold; readers who bought pages can still open them */
+  published?: boolean;
   createdAt: string;
+  updatedAt?: string;
+}
+
+/** Fields an author can change after upload */
+export interface BookUpdate {
+  title?: string;
+  price?: number;
+  description?: string;
+  freePreviewPages?: number;
+  priceOverrides?: PriceOverrideInput[];
+  bundleDiscounts?: BundleDiscount[];
+  timePasses?: TimePassInput[];
+  published?: boolean;
 }
 
 function usdToBaseUnits(usd: number): string {
@@ -20,6 +61,16 @@ function usdToBaseUnits(usd: number): string {
   return baseUnits.toString();
 }
 
+function toPriceOverrides(inputs: PriceOverrideInput[]): PriceOverride[] | undefined {
+  if (!inputs.length) return undefined;
+  return inputs.map(input => ({ ...input, priceBaseUnits: usdToBaseUnits(input.priceUSD) }));
+}
+
+function toTimePasses(inputs: TimePassInput[]): TimePass[] | undefined {
+  if (!inputs.length) return undefined;
+  return inputs.map(input => ({ ...input, priceBaseUnits: usdToBaseUnits(input.priceUSD) }));
+}
+
 async function ensureDir(dirPath: string): Promise<void> {
   await mkdir(dirPath, { recursive: true });
 }
@@ -29,14 +80,8 @@ function makeBookId(title: string): string {
   return `${slug}-${Date.now()}`;
 }
 
-export async function processUpload(
-  fileBuffer: Buffer,
-  metadata: { title: string; price: number; authorAddress: string; bookId?: string }
-): Promise<BookMetadata> {
-  const bookId = metadata.bookId || makeBookId(metadata.title);
-  const bookDir = path.join(UPLOAD_ROOT, bookId);
-  await ensureDir(bookDir);
-
+/** Split a PDF into page_<n>.pdf files, removing pages left over from a previous upload */
+async function writePages(bookDir: string, fileBuffer: Buffer): Promise<number> {
   const pdfDoc = await PDFDocument.load(fileBuffer);
   const totalPages = pdfDoc.getPageCount();
 
@@ -49,6 +94,34 @@ export async function processUpload(
     await writeFile(pagePath, pdfBytes);
   }
 
+  const files = await readdir(bookDir);
+  const stale = files.filter(file => {
+    const match = file.match(/^page_(\d+)\.pdf$/);
+    return match !== null && Number(match[1]) > totalPages;
+  });
+  await Promise.all(stale.map(file => unlink(path.join(bookDir, file))));
+
+  return totalPages;
+}
+
+async function saveMetadata(meta: BookMetadata): Promise<void> {
+  await writeFile(path.join(UPLOAD_ROOT, meta.bookId, 'metadata.json'), JSON.stringify(meta, null, 2), 'utf-8');
+}
+
+export async function processUpload(
+  fileBuffer: Buffer,
+  metadata: {
+    title: string; price: number; authorAddress: string; bookId?: string; description?: string;
+    freePreviewPages?: number; priceOverrides?: PriceOverrideInput[]; bundleDiscounts?: BundleDiscount[];
+    timePasses?: TimePassInput[];
+  }
+): Promise<BookMetadata> {
+  const bookId = metadata.bookId || makeBookId(metadata.title);
+  const bookDir = path.join(UPLOAD_ROOT, bookId);
+  await ensureDir(bookDir);
+
+  const totalPages = await writePages(bookDir, fileBuffer);
+
   const pricePerPageUSD = Number(metadata.price);
   const meta: BookMetadata = {
     bookId,
@@ -57,13 +130,54 @@ export async function processUpload(
     pricePerPageUSD,
     pricePerPageBaseUnits: usdToBaseUnits(pricePerPageUSD),
     totalPages,
+    description: metadata.description || undefined,
+    freePreviewPages: metadata.freePreviewPages || undefined,
+    priceOverrides: toPriceOverrides(metadata.priceOverrides ?? []),
+    bundleDiscounts: metadata.bundleDiscounts?.length ? metadata.bundleDiscounts : undefined,
+    timePasses: toTimePasses(metadata.timePasses ?? []),
+    published: true,
     createdAt: new Date().toISOString(),
   };
 
-  await writeFile(path.join(bookDir, 'metadata.json'), JSON.stringify(meta, null, 2), 'utf-8');
+  await saveMetadata(meta);
   return meta;
 }
 
+/** Apply author changes to a book's metadata (null if the book does not exist) */
+export async function updateBook(bookId: string, changes: BookUpdate): Promise<BookMetadata | null> {
+  const meta = await getMetadata(bookId);
+  if (!meta) return null;
+
+  const updated: BookMetadata = { ...meta, updatedAt: new Date().toISOString() };
+  if (changes.title !== undefined) updated.title = changes.title;
+  if (changes.description !== undefined) updated.description = changes.description || undefined;
+  if (changes.freePreviewPages !== undefined) updated.freePreviewPages = changes.freePreviewPages || undefined;
+  if (changes.priceOverrides !== undefined) updated.priceOverrides = toPriceOverrides(changes.priceOverrides);
+  if (changes.bundleDiscounts !== undefined) {
+    updated.bundleDiscounts = changes.bundleDiscounts.length ? changes.bundleDiscounts : undefined;
+  }
+  if (changes.timePasses !== undefined) updated.timePasses = toTimePasses(changes.timePasses);
+  if (changes.published !== undefined) updated.published = changes.published;
+  if (changes.price !== undefined) {
+    updated.pricePerPageUSD = changes.price;
+    updated.pricePerPageBaseUnits = usdToBaseUnits(changes.price);
+  }
+
+  await saveMetadata(updated);
+  return updated;
+}
+
+/** Replace a book's pages with a new PDF, keeping its metadata (null if the book does not exist) */
+export async function replaceBookContent(bookId: string, fileBuffer: Buffer): Promise<BookMetadata | null> {
+  const meta = await getMetadata(bookId);
+  if (!meta) return null;
+
+  const totalPages = await writePages(path.join(UPLOAD_ROOT, bookId), fileBuffer);
+  const updated: BookMetadata = { ...meta, totalPages, updatedAt: new Date().toISOString() };
+  await saveMetadata(updated);
+  return updated;
+}
+
 export async function getMetadata(bookId: string): Promise<BookMetadata | null> {
   try {
     const bookDir = path.join(UPLOAD_ROOT, bookId);
@@ -76,6 +190,18 @@ export async function getMetadata(bookId: string): Promise<BookMetadata | null>
   }
 }
 
+/** Metadata of every stored book (directories without valid metadata are skipped) */
+export async function listBooks(): Promise<BookMetadata[]> {
+  let entries;
+  try {
+    entries = await readdir(UPLOAD_ROOT, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const books = await Promise.all(entries.filter(entry => entry.isDirectory()).map(entry => getMetadata(entry.name)));
+  return books.filter((meta): meta is BookMetadata => meta !== null);
+}
+
 export async function getPage(bookId: string, pageIndex: number): Promise<Buffer | null> {
   try {
     const bookDir = path.join(UPLOAD_ROOT, bookId);
@@ -0,0 +1,69 @@
+/**
+ * Entitlement Store - pages each wallet has paid for
+ *
+ * Keyed by payer, then bookId, then page number. Readers who prove ownership
+ * of a wallet (access token or wallet proof) can re-open entitled pages
+ * without paying again. Time passes grant every page with an expiry; expired
+ * entitlements are ignored. Persisted to uploads/state/entitlements.json.
+ */
+
+import { createStateFile } from './stateFile.js';
+
+export interface Entitlement {
+  /** Settlement transaction that paid for the page */
+  transactionHash: string;
+  grantedAt: string;
+  /** Set for time-pass entitlements */
+  expiresAt?: string;
+}
+
+type EntitlementDocument = Record<string, Record<string, Record<string, Entitlement>>>;
+
+const entitlements = createStateFile<EntitlementDocument>('entitlements.json', () => ({}));
+
+function isActive(entitlement: Entitlement | undefined): entitlement is Entitlement {
+  return entitlement !== undefined && (!entitlement.expiresAt || Date.parse(entitlement.expiresAt) > Date.now());
+}
+
+/** Whether a new grant outlasts the existing one (permanent grants are never replaced) */
+function outlasts(existing: Entitlement | undefined, expiresAt?: string): boolean {
+  if (!isActive(existing)) return true;
+  if (!existing.expiresAt) return false;
+  return !expiresAt || Date.parse(expiresAt) > Date.parse(existing.expiresAt);
+}
+
+/**
+ * Record that a payer owns pages of a book, permanently or until `expiresAt`
+ * (pages already owned keep their original grant unless the new one lasts longer)
+ */
+export async function grantEntitlements(
+  payer: string,
+  bookId: string,
+  pages: number[],
+  transactionHash: string,
+  expiresAt?: string
+): Promise<void> {
+  const doc = await entitlements.load();
+  const books = doc[payer.toLowerCase()] ??= {};
+  const owned = books[bookId] ??= {};
+  const grantedAt = new Date().toISOString();
+  for (const page of pages) {
+    if (outlasts(owned[page], expiresAt)) {
+      owned[page] = expiresAt ? { transactionHash, grantedAt, expiresAt } : { transactionHash, grantedAt };
+    }
+  }
+  await entitlements.save();
+}
+
+/** Look up a payer's entitlement to a page */
+export async function getEntitlement(payer: string, bookId: string, page: number): Promise<Entitlement | null> {
+  const doc = await entitlements.load();
+  const entitlement = doc[payer.toLowerCase()]?.[bookId]?.[page];
+  return isActive(entitlement) ? entitlement : null;
+}
+
+/** The subset of `pages` a payer currently owns */
+export async function getOwnedPages(payer: string, bookId: string, pages: number[]): Promise<number[]> {
+  const owned = (await entitlements.load())[payer.toLowerCase()]?.[bookId] ?? {};
+  return pages.filter(page => isActive(owned[page]));
+}
@@ -230,22 +230,18 @@ export class PaymentFacilitator {
   }
 
   /**
-   * Execute the payment on-chain using transferWithAuthorization
+   * Run every off-chain check (signature, validity window, balance, nonce)
+   * without submitting anything
    */
-  async executePayment(payload: PaymentPayload): Promise<FacilitatorResult> {
-    const { authorization, signature } = payload.payload;
-    
-    console.log('\n[Facilitator] 🔄 Processing payment...');
-    console.log(`[Facilitator]    From: ${authorization.from}`);
-    console.log(`[Facilitator]    To: ${authorization.to}`);
-    console.log(`[Facilitator]    Amount: ${authorization.value} (${Number(authorization.value) / 1_000_000} USDC)`);
+  async verifyPayment(payload: PaymentPayload): Promise<VerificationResult> {
+    const { authorization } = payload.payload;
 
     // Step 1: Verify signature
     console.log('[Facilitator] 🔐 Verifying signature...');
     const verification = await this.verifySignature(payload);
     if (!verification.valid) {
       console.log(`[Facilitator] ❌ Signature invalid: ${verification.error}`);
-      return { success: false, error: verification.error };
+      return verification;
     }
     console.log('[Facilitator] ✅ Signature verified');
 
@@ -255,10 +251,10 @@ export class PaymentFacilitator {
     const validBefore = BigInt(authorization.validBefore);
     
     if (now < validAfter) {
-      return { success: false, error: `Authorization not yet valid. Valid after: ${validAfter}` };
+      return { valid: false, error: `Authorization not yet valid. Valid after: ${validAfter}` };
     }
     if (now > validBefore) {
-      return { success: false, error: `Authorization expired. Valid before: ${validBefore}` };
+      return { valid: false, error: `Authorization expired. Valid before: ${validBefore}` };
     }
     console.log('[Facilitator] ✅ Validity window OK');
 
@@ -269,7 +265,7 @@ export class PaymentFacilitator {
     if (!balanceCheck.sufficient) {
       console.log(`[Facilitator] ❌ Insufficient balance: ${balanceCheck.balance} < ${amount}`);
       return { 
-        success: false, 
+        valid: false, 
         error: `Insufficient USDC balance. Required: ${amount}, Available: ${balanceCheck.balance}` 
       };
     }
@@ -282,10 +278,34 @@ export class PaymentFacilitator {
       authorization.nonce as Hex
     );
     if (nonceUsed) {
-      return { success: false, error: 'Authorization nonce already used' };
+      return { valid: false, error: 'Authorization nonce already used' };
     }
     console.log('[Facilitator] ✅ Nonce available');
 
+    return verification;
+  }
+
+  /**
+   * Execute the payment on-chain using transferWithAuthorization
+   */
+  async executePayment(payload: PaymentPayload): Promise<FacilitatorResult> {
+    const { authorization, signature } = payload.payload;
+    
+    console.log('\n[Facilitator] 🔄 Processing payment...');
+    console.log(`[Facilitator]    From: ${authorization.from}`);
+    console.log(`[Facilitator]    To: ${authorization.to}`);
+    console.log(`[Facilitator]    Amount: ${authorization.value} (${Number(authorization.value) / 1_000_000} USDC)`);
+
+    // Steps 1-4: Off-chain checks
+    const verification = await this.verifyPayment(payload);
+    if (!verification.valid) {
+      return { success: false, error: verification.error };
+    }
+
+    const amount = BigInt(authorization.value);
+    const validAfter = BigInt(authorization.validAfter);
+    const validBefore = BigInt(authorization.validBefore);
+
     // Step 5: Split signature into v, r, s
     const sig = signature as Hex;
     const r = `0x${sig.slice(2, 66)}` as Hex;
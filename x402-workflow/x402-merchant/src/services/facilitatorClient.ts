@@ -0,0 +1,285 @@
+/**
+ * Facilitator Client
+ *
+ * Verifies and settles x402 payments either by delegating to the facilitator
+ * service over HTTP (remote mode, revenue is settled through PayPerieVault)
+ * or with the in-process PaymentFacilitator (embedded fallback mode).
+ */
+
+import type { Address, Hex } from 'viem';
+import { config } from '../config/index.js';
+import type { FacilitatorMode } from '../config/index.js';
+import { APPROVAL_REQUIRED_REASON, FACILITATOR_ENDPOINTS, NETWORKS, PAYMENT_SCHEMES, X402_VERSION } from '../constants/index.js';
+import type { PaymentPayload, PaymentRequirement } from '../types/x402.js';
+import { getFacilitator } from './facilitator.js';
+import type { FacilitatorResult, VerificationResult } from './facilitator.js';
+
+// =============================================================================
+// CLIENT INTERFACE
+// =============================================================================
+
+/**
+ * Where a network's payments go and the one asset the facilitator settles there
+ */
+export interface SettlementNetwork {
+  network: string;
+  /** Schemes the facilitator verifies and settles on this network */
+  schemes: string[];
+  /** Recipient of "exact" authorizations (the facilitator's signer on this network) */
+  payTo: string;
+  /** Permit spender for "upto" sessions (unset when the facilitator has no vault) */
+  vault?: string;
+  asset: string;
+}
+
+export interface FacilitatorClient {
+  readonly mode: FacilitatorMode;
+
+  /** The networks this facilitator settles on */
+  supported(): Promise<SettlementNetwork[]>;
+
+  /** Check a payment against the requirements without settling it */
+  verify(payload: PaymentPayload, requirement: PaymentRequirement): Promise<VerificationResult>;
+
+  /** Settle a payment on-chain ("upto" payments capture only `settleAmount`) */
+  settle(payload: PaymentPayload, requirement: PaymentRequirement, settleAmount?: string): Promise<FacilitatorResult>;
+}
+
+// =============================================================================
+// REMOTE FACILITATOR (x402 /verify and /settle)
+// =============================================================================
+
+interface VerifyResponse {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: Address;
+}
+
+interface SupportedResponse {
+  kinds: { x402Version: number; scheme: string; network: string; extra?: { payTo?: string; vault?: string; asset?: string } }[];
+}
+
+interface SettleResponse {
+  success: boolean;
+  errorReason?: string;
+  transaction: string;
+  network: string;
+  payer?: Address;
+}
+
+export class RemoteFacilitatorClient implements FacilitatorClient {
+  readonly mode = 'remote' as const;
+
+  constructor(private readonly baseUrl: string, private readonly timeoutMs: number) {
+    console.log(`[Facilitator] Remote facilitator: ${baseUrl}`);
+  }
+
+  private async post<T>(path: string, payload: PaymentPayload, requirement: PaymentRequirement, settleAmount?: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ x402Version: X402_VERSION, paymentPayload: payload, paymentRequirements: requirement, settleAmount }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Facilitator ${path} returned HTTP ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  async supported(): Promise<SettlementNetwork[]> {
+    const response = await fetch(`${this.baseUrl}${FACILITATOR_ENDPOINTS.SUPPORTED}`, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`Facilitator ${FACILITATOR_ENDPOINTS.SUPPORTED} returned HTTP ${response.status}`);
+    }
+    const { kinds } = await response.json() as SupportedResponse;
+    const networks = new Map<string, SettlementNetwork>();
+    for (const kind of kinds) {
+      if (kind.x402Version !== X402_VERSION || !kind.extra?.payTo || !kind.extra.asset) continue;
+      const entry = networks.get(kind.network)
+        ?? { network: kind.network, schemes: [], payTo: kind.extra.payTo, vault: kind.extra.vault, asset: kind.extra.asset };
+      entry.schemes.push(kind.scheme);
+      networks.set(kind.network, entry);
+    }
+    return [...networks.values()];
+  }
+
+  async verify(payload: PaymentPayload, requirement: PaymentRequirement): Promise<VerificationResult> {
+    const result = await this.post<VerifyResponse>(FACILITATOR_ENDPOINTS.VERIFY, payload, requirement);
+    return result.isValid
+      ? { valid: true, recoveredAddress: result.payer }
+      : { valid: false, error: result.invalidReason ?? 'Payment verification failed' };
+  }
+
+  async settle(payload: PaymentPayload, requirement: PaymentRequirement, settleAmount?: string): Promise<FacilitatorResult> {
+    const { authorization } = payload.payload;
+    const result = await this.post<SettleResponse>(FACILITATOR_ENDPOINTS.SETTLE, payload, requirement, settleAmount);
+    if (!result.success) {
+      return { success: false, error: result.errorReason ?? 'Settlement failed', transactionHash: (result.transaction || undefined) as Hex | undefined };
+    }
+    return {
+      success: true,
+      transactionHash: result.transaction as Hex,
+      details: {
+        from: authorization.from as Address,
+        to: authorization.to as Address,
+        amount: settleAmount ?? authorization.value,
+        network: result.network,
+      },
+    };
+  }
+}
+
+// =============================================================================
+// EMBEDDED FACILITATOR (fallback)
+// =============================================================================
+
+export class EmbeddedFacilitatorClient implements FacilitatorClient {
+  readonly mode = 'embedded' as const;
+
+  private get facilitator() {
+    return getFacilitator(config.merchant.privateKey as Hex);
+  }
+
+  /**
+   * Metered payments settle through the vault, which only the facilitator service can do;
+   * the in-process facilitator also only transfers USDC on avalanche-fuji
+   */
+  private unsupported(payload: PaymentPayload, requirement: PaymentRequirement): string | null {
+    if (payload.scheme === PAYMENT_SCHEMES.UPTO) return 'upto payments need FACILITATOR_MODE=remote';
+    if (payload.network !== NETWORKS.AVALANCHE_FUJI || requirement.asset.toLowerCase() !== config.merchant.acceptedToken.toLowerCase()) {
+      return `Embedded mode only settles ${config.merchant.acceptedToken} on ${NETWORKS.AVALANCHE_FUJI}`;
+    }
+    return null;
+  }
+
+  async supported(): Promise<SettlementNetwork[]> {
+    return [{
+      network: NETWORKS.AVALANCHE_FUJI,
+      schemes: [PAYMENT_SCHEMES.EXACT],
+      payTo: config.merchant.facilitatorAddress,
+      asset: config.merchant.acceptedToken,
+    }];
+  }
+
+  async verify(payload: PaymentPayload, requirement: PaymentRequirement): Promise<VerificationResult> {
+    const error = this.unsupported(payload, requirement);
+    if (error) return { valid: false, error };
+    return this.facilitator.verifyPayment(payload);
+  }
+
+  async settle(payload: PaymentPayload, requirement: PaymentRequirement): Promise<FacilitatorResult> {
+    const error = this.unsupported(payload, requirement);
+    if (error) return { success: false, error };
+    return this.facilitator.executePayment(payload);
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+let clientInstance: FacilitatorClient | null = null;
+
+/**
+ * Get the facilitator client for the configured FACILITATOR_MODE
+ */
+export function getFacilitatorClient(): FacilitatorClient {
+  if (!clientInstance) {
+    clientInstance = config.facilitator.mode === 'remote'
+      ? new RemoteFacilitatorClient(config.facilitator.url, config.facilitator.timeoutMs)
+      : new EmbeddedFacilitatorClient();
+  }
+  return clientInstance;
+}
+
+// =============================================================================
+// SETTLEMENT NETWORKS
+// =============================================================================
+
+const settlementNetworks = new Map<string, SettlementNetwork>();
+
+/** Tries at reaching the facilitator at startup, waiting 1s, 2s, 4s... (at most 30s) in between */
+const SUPPORTED_MAX_ATTEMPTS = 8;
+const SUPPORTED_MAX_DELAY_MS = 30_000;
+
+/**
+ * Fetch the facilitator's networks, retrying while it is unreachable (it may
+ * still be starting, e.g. under start-all.js)
+ */
+async function fetchSupported(client: FacilitatorClient): Promise<SettlementNetwork[]> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await client.supported();
+    } catch (error) {
+      if (attempt >= SUPPORTED_MAX_ATTEMPTS) throw error;
+      const delayMs = Math.min(1000 * 2 ** (attempt - 1), SUPPORTED_MAX_DELAY_MS);
+      const message = error instanceof Error ? error.message : 'unknown error';
+      console.warn(`[Facilitator] ${client.mode} facilitator not reachable (${message}); retrying in ${delayMs / 1000}s`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Load the facilitator's settlement networks and check every offer against
+ * them: the offer's network must be served for "exact" with the offer's
+ * asset (and a vault with RECEIVE_WITH_AUTHORIZATION set), and with
+ * VAULT_ADDRESS set the primary network must serve "upto" through that vault
+ * @throws Error naming the first offer the facilitator cannot settle, or when
+ *   the facilitator is still unreachable after SUPPORTED_MAX_ATTEMPTS tries
+ */
+export async function loadSettlementNetworks(): Promise<void> {
+  const client = getFacilitatorClient();
+  const networks = await fetchSupported(client);
+  const offers = config.merchant.offers;
+
+  for (const offer of offers) {
+    const served = networks.find(network => network.network === offer.network);
+    if (!served?.schemes.includes(PAYMENT_SCHEMES.EXACT)) {
+      throw new Error(`The ${client.mode} facilitator does not settle on ${offer.network}; remove it from ACCEPTED_PAYMENT_OPTIONS`);
+    }
+    if (served.asset.toLowerCase() !== offer.asset.toLowerCase()) {
+      throw new Error(`The ${client.mode} facilitator settles only ${served.asset} on ${offer.network}, not ${offer.asset}`);
+    }
+    if (config.facilitator.receiveWithAuthorization && !served.vault) {
+      throw new Error(`RECEIVE_WITH_AUTHORIZATION needs a facilitator vault on ${offer.network}`);
+    }
+    settlementNetworks.set(offer.network, served);
+  }
+
+  const { vaultAddress } = config.metering;
+  if (vaultAddress) {
+    const primary = settlementNetworks.get(offers[0].network)!;
+    if (!primary.schemes.includes(PAYMENT_SCHEMES.UPTO) || primary.vault?.toLowerCase() !== vaultAddress.toLowerCase()) {
+      throw new Error(`VAULT_ADDRESS ${vaultAddress} is not the facilitator's vault on ${primary.network} (${primary.vault ?? 'none'})`);
+    }
+  }
+
+  for (const network of settlementNetworks.values()) {
+    console.log(`[Facilitator] ${network.network}: payTo ${network.payTo}, asset ${network.asset}`);
+  }
+}
+
+/**
+ * The settlement network for an accepted offer (after loadSettlementNetworks)
+ */
+export function getSettlementNetwork(network: string): SettlementNetwork {
+  const served = settlementNetworks.get(network);
+  if (!served) throw new Error(`No settlement network loaded for ${network}`);
+  return served;
+}
+
+/**
+ * Verify a payment, then settle it (a payment awaiting the payer's approval
+ * goes on to settle, which holds it)
+ */
+export async function verifyAndSettle(payload: PaymentPayload, requirement: PaymentRequirement): Promise<FacilitatorResult> {
+  const client = getFacilitatorClient();
+  const verification = await client.verify(payload, requirement);
+  if (!verification.valid && verification.error !== APPROVAL_REQUIRED_REASON) {
+    console.log(`[Facilitator] Verification failed (${client.mode}): ${verification.error}`);
+    return { success: false, error: verification.error };
+  }
+  return client.settle(payload, requirement);
+}
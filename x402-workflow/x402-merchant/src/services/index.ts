@@ -6,4 +6,22 @@
 
 export { PaymentFacilitator, getFacilitator } from './facilitator.js';
 export type { FacilitatorResult, VerificationResult } from './facilitator.js';
+export {
+  RemoteFacilitatorClient,
+  EmbeddedFacilitatorClient,
+  getFacilitatorClient,
+  verifyAndSettle,
+  loadSettlementNetworks,
+  getSettlementNetwork,
+} from './facilitatorClient.js';
+export type { FacilitatorClient, SettlementNetwork } from './facilitatorClient.js';
 export * as contentService from './contentService.js';
+export { claimNonce, releaseNonce, recordSettlement } from './settlementRegistry.js';
+export type { SettlementEntry, NonceClaim } from './settlementRegistry.js';
+export { grantEntitlements, getEntitlement, getOwnedPages } from './entitlementStore.js';
+export type { Entitlement } from './entitlementStore.js';
+export {
+  openSession, getSession, chargePage, closeSession, closeExpiredSessions, startSessionSweeper, isSessionOpen,
+} from './meteringService.js';
+export type { MeteredSession, MeteredSessionStatus, ChargeResult } from './meteringService.js';
+export { consumeProofNonce } from './proofNonces.js';
@@ -0,0 +1,249 @@
+/**
+ * Metering Service - metered ("upto") reading sessions
+ *
+ * A reader opens a session by permitting up to a maximum amount. Each page
+ * read in the session adds its price to the consumed total (pages the reader
+ * owns, free pages and pages already read in the session are not charged).
+ * Closing the session settles only the consumed amount through the
+ * facilitator; the rest of the permit is never captured. Sessions still open
+ * when they expire are closed by the session sweeper.
+ *
+ * Permit nonces are sequential per payer and token, so any later permit the
+ * payer signs invalidates the session's permit. A page is only charged (and
+ * served) while the permit can still be redeemed, which limits a payer to one
+ * open session per token.
+ *
+ * Charges and closes of one session run one at a time, so parallel page reads
+ * are each charged. A settlement that fails, or is interrupted by a restart,
+ * is retried by the sweeper (the facilitator settles a permit only once).
+ * Persisted to uploads/state/sessions.json.
+ */
+
+import { randomUUID } from 'crypto';
+import { createPublicClient, http, type Address } from 'viem';
+import type { PaymentPayload, PaymentRequirement } from '../types/index.js';
+import { createStateFile } from './stateFile.js';
+import { getFacilitatorClient } from './facilitatorClient.js';
+import { grantEntitlements } from './entitlementStore.js';
+import { RPC_URLS } from '../constants/index.js';
+
+export type MeteredSessionStatus = 'open' | 'settling' | 'settled' | 'failed';
+
+export interface MeteredSession {
+  id: string;
+  bookId: string;
+  payer: string;
+  /** Permitted maximum in base units */
+  maxAmount: string;
+  /** Amount consumed so far in base units */
+  consumed: string;
+  /** Pages charged in this session */
+  pages: number[];
+  status: MeteredSessionStatus;
+  /** Signed permit and the requirement it was quoted against, kept for settlement */
+  payload: PaymentPayload;
+  requirement: PaymentRequirement;
+  openedAt: string;
+  /** Reading stops (and the session is settled) at this time */
+  expiresAt: string;
+  /** Settlement attempts made so far */
+  settleAttempts?: number;
+  transactionHash?: string;
+  error?: string;
+}
+
+export type ChargeResult =
+  | { charged: boolean; session: MeteredSession }
+  | { error: string; session: MeteredSession };
+
+const PERMIT_STATE_ABI = [
+  { name: 'nonces', type: 'function', stateMutability: 'view', inputs: [{ name: 'owner', type: 'address' }], outputs: [{ name: '', type: 'uint256' }] },
+  { name: 'allowance', type: 'function', stateMutability: 'view', inputs: [{ name: 'owner', type: 'address' }, { name: 'spender', type: 'address' }], outputs: [{ name: '', type: 'uint256' }] },
+] as const;
+
+/** Settlement attempts before a failed session is left for manual follow-up */
+const SESSION_SETTLE_MAX_ATTEMPTS = 5;
+
+const sessions = createStateFile<Record<string, MeteredSession>>('sessions.json', () => ({}));
+
+/** Tail of each session's queue of charges and closes */
+const sessionQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `task` once every earlier charge or close of the session has finished
+ */
+function queueForSession<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+  const run = (sessionQueues.get(sessionId) ?? Promise.resolve()).then(task);
+  const tail = run.catch(() => undefined);
+  sessionQueues.set(sessionId, tail);
+  void tail.then(() => {
+    if (sessionQueues.get(sessionId) === tail) sessionQueues.delete(sessionId);
+  });
+  return run;
+}
+
+/** Whether a session still accepts page reads */
+export function isSessionOpen(session: MeteredSession): boolean {
+  return session.status === 'open' && Date.parse(session.expiresAt) > Date.now();
+}
+
+/**
+ * Open a session for a verified permit, readable until `expiresAt` (ms)
+ * @returns The session, or an error message when the permit already opened one
+ */
+export async function openSession(
+  bookId: string,
+  payload: PaymentPayload,
+  requirement: PaymentRequirement,
+  expiresAt: number
+): Promise<MeteredSession | string> {
+  const doc = await sessions.load();
+  const { from, nonce } = payload.payload.authorization;
+  const reused = Object.values(doc).find(session =>
+    session.payer === from.toLowerCase() && session.payload.payload.authorization.nonce.toLowerCase() === nonce.toLowerCase()
+  );
+  if (reused) return `Permit already opened session ${reused.id}`;
+
+  const session: MeteredSession = {
+    id: randomUUID(),
+    bookId,
+    payer: from.toLowerCase(),
+    maxAmount: payload.payload.authorization.value,
+    consumed: '0',
+    pages: [],
+    status: 'open',
+    payload,
+    requirement,
+    openedAt: new Date().toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+  doc[session.id] = session;
+  await sessions.save();
+  return session;
+}
+
+/**
+ * Whether the session's permit can still settle `amount`: the payer's token
+ * nonce is still the permit's, or the permit was submitted early by someone
+ * else (nonce just past it) and the vault's allowance covers the amount
+ */
+async function isPermitRedeemable(session: MeteredSession, amount: bigint): Promise<boolean> {
+  const { network, asset } = session.requirement;
+  const { from, to, nonce } = session.payload.payload.authorization;
+  const client = createPublicClient({ transport: http(RPC_URLS[network as keyof typeof RPC_URLS]) });
+  const current = await client.readContract({ address: asset as Address, abi: PERMIT_STATE_ABI, functionName: 'nonces', args: [from as Address] });
+  if (current === BigInt(nonce)) return true;
+  if (current !== BigInt(nonce) + 1n) return false;
+  const allowance = await client.readContract({
+    address: asset as Address, abi: PERMIT_STATE_ABI, functionName: 'allowance', args: [from as Address, to as Address],
+  });
+  return allowance >= amount;
+}
+
+export async function getSession(sessionId: string): Promise<MeteredSession | null> {
+  return (await sessions.load())[sessionId] ?? null;
+}
+
+/**
+ * Add a page to the session's usage (pages already charged are free)
+ * Fails without charging when the session is no longer open, when the page
+ * would exceed the permitted maximum, or when the permit can no longer be
+ * redeemed for the new total
+ */
+export function chargePage(session: MeteredSession, page: number, price: bigint): Promise<ChargeResult> {
+  return queueForSession(session.id, () => chargeQueuedPage(session, page, price));
+}
+
+async function chargeQueuedPage(session: MeteredSession, page: number, price: bigint): Promise<ChargeResult> {
+  if (!isSessionOpen(session)) return { error: `Session is ${session.status === 'open' ? 'expired' : session.status}`, session };
+  if (price === 0n || session.pages.includes(page)) return { charged: false, session };
+
+  const consumed = BigInt(session.consumed) + price;
+  if (consumed > BigInt(session.maxAmount)) {
+    return { error: `Page ${page} would exceed the session limit of ${session.maxAmount}`, session };
+  }
+
+  try {
+    if (!await isPermitRedeemable(session, consumed)) {
+      return { error: 'Session permit was superseded by a later permit; close the session and open a new one', session };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'unknown error';
+    return { error: `Could not check the session permit: ${message}`, session };
+  }
+
+  session.consumed = consumed.toString();
+  session.pages.push(page);
+  await sessions.save();
+  return { charged: true, session };
+}
+
+/**
+ * Settle the consumed amount and grant the pages read; closing a settled
+ * session returns its outcome. A session whose settlement failed, or was
+ * interrupted while settling, is settled again (up to SESSION_SETTLE_MAX_ATTEMPTS).
+ */
+export function closeSession(session: MeteredSession): Promise<MeteredSession> {
+  return queueForSession(session.id, () => closeQueuedSession(session));
+}
+
+/** Whether a session still has a settlement to make */
+function needsSettlement(session: MeteredSession): boolean {
+  if (session.status === 'open' || session.status === 'settling') return true;
+  return session.status === 'failed' && (session.settleAttempts ?? 1) < SESSION_SETTLE_MAX_ATTEMPTS;
+}
+
+async function closeQueuedSession(session: MeteredSession): Promise<MeteredSession> {
+  if (!needsSettlement(session)) return session;
+
+  session.status = 'settling';
+  session.settleAttempts = (session.settleAttempts ?? 0) + 1;
+  await sessions.save();
+
+  try {
+    if (session.consumed === '0') {
+      // Nothing was read, so nothing is captured
+      session.status = 'settled';
+    } else {
+      const result = await getFacilitatorClient().settle(session.payload, session.requirement, session.consumed);
+      session.status = result.success ? 'settled' : 'failed';
+      session.transactionHash = result.transactionHash;
+      session.error = result.error;
+      if (result.success) {
+        await grantEntitlements(session.payer, session.bookId, session.pages, result.transactionHash ?? '');
+      }
+    }
+  } catch (error) {
+    session.status = 'failed';
+    session.error = error instanceof Error ? error.message : 'Settlement failed';
+  }
+
+  console.log(`[Metering] Session ${session.id} ${session.status}: ${session.consumed} of ${session.maxAmount}`);
+  await sessions.save();
+  return session;
+}
+
+/**
+ * Settle every open session whose reading time has run out, and retry
+ * settlements that failed or were interrupted by a restart
+ */
+export async function closeExpiredSessions(): Promise<void> {
+  const due = Object.values(await sessions.load())
+    .filter(session => session.status === 'open' ? !isSessionOpen(session) : needsSettlement(session));
+  for (const session of due) {
+    await closeSession(session);
+  }
+}
+
+let sweeper: NodeJS.Timeout | null = null;
+
+/**
+ * Settle expired sessions now (recovering settlements a restart interrupted) and periodically
+ */
+export function startSessionSweeper(intervalMs: number = 60_000): void {
+  if (sweeper) return;
+  const sweep = () => closeExpiredSessions().catch(error => console.error('[Metering] Sweep failed:', error));
+  void sweep();
+  sweeper = setInterval(sweep, intervalMs);
+  sweeper.unref();
+}
@@ -0,0 +1,34 @@
+/**
+ * Proof Nonces - nonces of wallet proofs that were already used
+ *
+ * Keyed by "<address>:<nonce>". An entry is kept until the proof carrying it
+ * is too old to be accepted anyway. Persisted to uploads/state/proof-nonces.json,
+ * so a proof cannot be replayed after a restart.
+ */
+
+import { config } from '../config/index.js';
+import { createStateFile } from './stateFile.js';
+
+/** Extra time a nonce is kept beyond the proof max age, covering clock skew */
+const NONCE_RETENTION_MARGIN_SECONDS = 120;
+
+/** "<address>:<nonce>" -> time (ms) after which the entry can be dropped */
+const usedNonces = createStateFile<Record<string, number>>('proof-nonces.json', () => ({}));
+
+/**
+ * Mark a proof nonce as used
+ * @returns false when the address already used this nonce
+ */
+export async function consumeProofNonce(address: string, nonce: string): Promise<boolean> {
+  const doc = await usedNonces.load();
+  const now = Date.now();
+  for (const [key, expiresAt] of Object.entries(doc)) {
+    if (expiresAt <= now) delete doc[key];
+  }
+
+  const key = `${address.toLowerCase()}:${nonce}`;
+  if (doc[key] !== undefined) return false;
+  doc[key] = now + (config.access.proofMaxAgeSeconds + NONCE_RETENTION_MARGIN_SECONDS) * 1000;
+  await usedNonces.save();
+  return true;
+}
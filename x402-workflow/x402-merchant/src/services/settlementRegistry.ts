@@ -0,0 +1,64 @@
+/**
+ * Settlement Registry - records which resource each payment authorization paid for
+ *
+ * Keyed by "<from>:<nonce>". A nonce is claimed for a resource before it is
+ * settled, so the same authorization can never be redeemed for a second page
+ * or product (the facilitator replays settled authorizations idempotently).
+ * Settled entries are persisted to uploads/state/settlements.json.
+ */
+
+import { createStateFile } from './stateFile.js';
+
+export interface SettlementEntry {
+  resource: string;
+  quoteId: string;
+  amount: string;
+  transactionHash: string;
+  settledAt: string;
+}
+
+export type NonceClaim =
+  | { status: 'claimed' }
+  | { status: 'settled'; entry: SettlementEntry }
+  | { status: 'conflict'; resource: string };
+
+const settled = createStateFile<Record<string, SettlementEntry>>('settlements.json', () => ({}));
+const pending = new Map<string, string>();
+
+function keyOf(from: string, nonce: string): string {
+  return `${from.toLowerCase()}:${nonce.toLowerCase()}`;
+}
+
+/**
+ * Reserve an authorization for a resource before settling it
+ * - claimed: free, now reserved for this resource
+ * - settled: already paid for this same resource (safe to serve again)
+ * - conflict: used, or being settled, for another resource
+ */
+export async function claimNonce(from: string, nonce: string, resource: string): Promise<NonceClaim> {
+  const key = keyOf(from, nonce);
+  const entry = (await settled.load())[key];
+  if (entry) {
+    return entry.resource === resource ? { status: 'settled', entry } : { status: 'conflict', resource: entry.resource };
+  }
+
+  const reservedFor = pending.get(key);
+  if (reservedFor !== undefined && reservedFor !== resource) {
+    return { status: 'conflict', resource: reservedFor };
+  }
+  pending.set(key, resource);
+  return { status: 'claimed' };
+}
+
+/** Drop a reservation after a failed settlement */
+export function releaseNonce(from: string, nonce: string): void {
+  pending.delete(keyOf(from, nonce));
+}
+
+/** Record a settled authorization against its resource */
+export async function recordSettlement(from: string, nonce: string, entry: SettlementEntry): Promise<void> {
+  const key = keyOf(from, nonce);
+  (await settled.load())[key] = entry;
+  pending.delete(key);
+  await settled.save();
+}
@@ -0,0 +1,44 @@
+/**
+ * State Files - small JSON documents the merchant persists under uploads/state
+ *
+ * Each file is loaded once, kept in memory by the caller and rewritten
+ * atomically (temp file + rename); writes to the same file are serialized.
+ */
+
+import { mkdir, readFile, writeFile, rename } from 'fs/promises';
+import path from 'path';
+
+const STATE_DIR = path.resolve(process.cwd(), 'uploads', 'state');
+
+export interface StateFile<T> {
+  /** Load the document (once; later calls return the same object) */
+  load(): Promise<T>;
+  /** Persist the loaded document */
+  save(): Promise<void>;
+}
+
+export function createStateFile<T>(fileName: string, empty: () => T): StateFile<T> {
+  const filePath = path.join(STATE_DIR, fileName);
+  let loaded: Promise<T> | null = null;
+  let writeChain: Promise<void> = Promise.resolve();
+
+  function load(): Promise<T> {
+    loaded ??= readFile(filePath, 'utf-8')
+      .then(raw => JSON.parse(raw) as T)
+      .catch(() => empty());
+    return loaded;
+  }
+
+  function save(): Promise<void> {
+    writeChain = writeChain.then(async () => {
+      const data = await load();
+      await mkdir(STATE_DIR, { recursive: true });
+      const tmp = `${filePath}.tmp`;
+      await writeFile(tmp, JSON.stringify(data, null, 2));
+      await rename(tmp, filePath);
+    }).catch(error => console.error(`[State] Failed to persist ${fileName}:`, error));
+    return writeChain;
+  }
+
+  return { load, save };
+}
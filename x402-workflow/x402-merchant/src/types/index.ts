@@ -11,7 +11,16 @@ export type {
   EIP3009Authorization,
   PaymentPayload,
   PaymentResponse,
+  PaymentQuote,
   ValidationResult,
+  QuoteValidationResult,
+  AccessTokenClaims,
+  ReaderAuthResult,
+  WalletProofResult,
+  BundleDiscount,
+  PriceOverride,
+  PricingTable,
+  TimePass,
   Product,
   PurchaseReceipt,
 } from './x402.js';
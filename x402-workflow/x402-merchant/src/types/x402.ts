@@ -32,7 +32,7 @@ export type NetworkId = typeof NETWORKS[keyof typeof NETWORKS];
  * Client can choose any one to complete payment.
  */
 export interface PaymentRequirement {
-  /** Payment scheme, currently "exact" */
+  /** Payment scheme: "exact", or "upto" for metered sessions (maxAmountRequired is the cap) */
   scheme: PaymentScheme;
   
   /** Blockchain network, e.g., "avalanche-fuji" */
@@ -65,6 +65,10 @@ export interface PaymentRequirement {
     productName?: string;
     orderId?: string;
     authorAddress?: string;
+    /** "receiveWithAuthorization": sign a ReceiveWithAuthorization paying the vault (payTo) */
+    authorizationType?: string;
+    /** Signed quote binding this price to the resource; echo it in the payment payload */
+    quote?: string;
     [key: string]: unknown;
   };
 }
@@ -93,6 +97,10 @@ export interface PaymentRequiredResponse {
  * 
  * This is the "gasless transfer" standard used by USDC and other tokens.
  * User signs authorization, then anyone can submit the transaction on-chain.
+ *
+ * For "upto" payments the same fields carry an EIP-2612 permit: `to` is the
+ * spender (the vault), `value` the permitted maximum, `validBefore` the
+ * deadline and `nonce` the token's permit nonce (32-byte hex).
  */
 export interface EIP3009Authorization {
   /** Payer wallet address */
@@ -136,6 +144,43 @@ export interface PaymentPayload {
     /** EIP-3009 authorization data */
     authorization: EIP3009Authorization;
   };
+
+  /** Quote token copied from the requirement's extra.quote */
+  quote?: string;
+}
+
+// =============================================================================
+// PAYMENT QUOTE
+// =============================================================================
+
+/**
+ * Price quote signed by the merchant and carried in each 402 response
+ *
+ * Binds an amount, recipient and network to one resource until it expires, so a
+ * payment made for one page or product cannot be spent on another, and a price
+ * change does not invalidate payments signed against the old price.
+ */
+export interface PaymentQuote {
+  /** Unique quote identifier */
+  id: string;
+
+  /** Resource path the quote was issued for */
+  resource: string;
+
+  /** Quoted amount in base units */
+  amount: string;
+
+  /** Required authorization recipient */
+  payTo: string;
+
+  /** Token contract address */
+  asset: string;
+
+  /** Blockchain network */
+  network: NetworkId;
+
+  /** Expiry as a Unix timestamp (seconds) */
+  expiresAt: number;
 }
 
 // =============================================================================
@@ -178,6 +223,110 @@ export interface ValidationResult {
   error?: string;
 }
 
+/**
+ * Result of checking a payment against its quote
+ */
+export interface QuoteValidationResult extends ValidationResult {
+  /** The verified quote (set when valid) */
+  quote?: PaymentQuote;
+
+  /** The quote was genuine but has expired; the client should pay against a fresh one */
+  expired?: boolean;
+}
+
+// =============================================================================
+// READER ACCESS TYPES
+// =============================================================================
+
+/**
+ * Claims of a reader access token
+ */
+export interface AccessTokenClaims {
+  /** Reader wallet address (lowercase) */
+  sub: string;
+
+  /** Expiry as a Unix timestamp (seconds) */
+  exp: number;
+}
+
+/**
+ * Result of authenticating a reader by access token or wallet proof
+ */
+export interface ReaderAuthResult extends ValidationResult {
+  /** Proven wallet address (set when valid) */
+  address?: string;
+}
+
+/**
+ * Result of verifying an X-WALLET-PROOF header
+ */
+export interface WalletProofResult extends ReaderAuthResult {
+  /** The signed message (set when valid) */
+  message?: string;
+}
+
+// =============================================================================
+// PRICING TYPES
+// =============================================================================
+
+/**
+ * Discount applied when buying at least `minPages` pages in one payment
+ */
+export interface BundleDiscount {
+  minPages: number;
+  percentOff: number;
+}
+
+/**
+ * Price for a single page or a chapter (page range) that replaces the book's per-page price
+ */
+export interface PriceOverride {
+  fromPage: number;
+  throughPage: number;
+
+  /** Price per page in USD */
+  priceUSD: number;
+
+  /** Price per page in base units */
+  priceBaseUnits: string;
+
+  /** Optional chapter name */
+  label?: string;
+}
+
+/**
+ * Unlimited reading of a whole book for a period (e.g. 24h or 7d), sold as an alternative 402 option
+ */
+export interface TimePass {
+  /** Duration as entered by the author, e.g. "24h" or "7d" */
+  id: string;
+
+  durationSeconds: number;
+
+  /** Pass price in USD */
+  priceUSD: number;
+
+  /** Pass price in base units */
+  priceBaseUnits: string;
+}
+
+/**
+ * Full pricing of a book, as shown in the catalog
+ */
+export interface PricingTable {
+  /** Default price per page in base units */
+  pricePerPageBaseUnits: string;
+
+  /** Pages 1..freePreviewPages are free */
+  freePreviewPages: number;
+
+  priceOverrides: PriceOverride[];
+
+  bundleDiscounts: BundleDiscount[];
+
+  timePasses: TimePass[];
+}
+
 // =============================================================================
 // PRODUCT TYPES
 // =============================================================================
@@ -203,6 +352,16 @@ export interface Product {
 
   /** Author wallet address to receive settlement in vault */
   authorAddress: string;
+
+  /** Per-page pricing, for products that are uploaded books */
+  pricing?: PricingTable;
+
+  /** Book pages this product unlocks on the read route (granted as entitlements on purchase) */
+  book?: {
+    bookId: string;
+    fromPage: number;
+    throughPage: number;
+  };
 }
 
 /**
@@ -4,6 +4,7 @@
  */
 
 export {
+  buildPaymentRequirements,
   buildPaymentRequired,
   decodePaymentHeader,
   encodePaymentHeader,
@@ -11,4 +12,23 @@ export {
   decodePaymentResponse,
   validatePaymentPayload,
   validatePaymentAmount,
+  validatePaymentQuote,
+  quotedRequirement,
+  matchPaymentRequirement,
+  findOffer,
+  priceInAsset,
 } from './x402.js';
+export { signToken, verifyToken } from './signedToken.js';
+export { issueAccessToken, verifyAccessToken, verifyWalletProof, siweField } from './readerAuth.js';
+export {
+  isFreePage,
+  pagePrice,
+  bundleDiscountFor,
+  priceForPages,
+  pricingTable,
+  parseBundleDiscounts,
+  parsePriceOverrides,
+  parseFreePreviewPages,
+  parseTimePasses,
+} from './pricing.js';
+export type { PagePrice } from './pricing.js';
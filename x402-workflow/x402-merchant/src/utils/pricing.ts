@@ -0,0 +1,183 @@
+/**
+ * Pricing Utilities - page, chapter and bundle prices for uploaded books
+ *
+ * A page is free when it falls within the free preview, costs its override
+ * price when a page or chapter override covers it, and the book's
+ * pricePerPageBaseUnits otherwise. Bundle discounts apply to the number of
+ * charged (non-free) pages bought in one payment. Time passes sell the whole
+ * book for a period instead.
+ */
+
+import type { BookMetadata, PriceOverrideInput, TimePassInput } from '../services/contentService.js';
+import type { BundleDiscount, PricingTable } from '../types/index.js';
+
+export interface PagePrice {
+  /** Number of pages charged (free pages excluded) */
+  pages: number;
+  /** Total in base units after discount */
+  amount: string;
+  /** Bundle discount applied (0 when none) */
+  percentOff: number;
+}
+
+/** Whether a page is part of the free preview */
+export function isFreePage(metadata: BookMetadata, page: number): boolean {
+  return page <= (metadata.freePreviewPages ?? 0);
+}
+
+/** Price of one page in base units */
+export function pagePrice(metadata: BookMetadata, page: number): bigint {
+  if (isFreePage(metadata, page)) return 0n;
+  const override = metadata.priceOverrides?.find(entry => page >= entry.fromPage && page <= entry.throughPage);
+  return BigInt(override?.priceBaseUnits ?? metadata.pricePerPageBaseUnits);
+}
+
+/** Best discount the book offers for buying `pageCount` pages at once */
+export function bundleDiscountFor(discounts: BundleDiscount[] | undefined, pageCount: number): number {
+  return (discounts ?? [])
+    .filter(discount => pageCount >= discount.minPages)
+    .reduce((best, discount) => Math.max(best, discount.percentOff), 0);
+}
+
+/** Price of buying `pages` of a book in one payment */
+export function priceForPages(metadata: BookMetadata, pages: number[]): PagePrice {
+  const charged = pages.filter(page => pagePrice(metadata, page) > 0n);
+  const percentOff = bundleDiscountFor(metadata.bundleDiscounts, charged.length);
+  const fullPrice = charged.reduce((total, page) => total + pagePrice(metadata, page), 0n);
+  // Basis points keep fractional percentages exact in integer math
+  const discountBps = BigInt(Math.round(percentOff * 100));
+  return {
+    pages: charged.length,
+    amount: (fullPrice * (10_000n - discountBps) / 10_000n).toString(),
+    percentOff,
+  };
+}
+
+/** Pricing table of a book for the catalog */
+export function pricingTable(metadata: BookMetadata): PricingTable {
+  return {
+    pricePerPageBaseUnits: metadata.pricePerPageBaseUnits,
+    freePreviewPages: metadata.freePreviewPages ?? 0,
+    priceOverrides: metadata.priceOverrides ?? [],
+    bundleDiscounts: metadata.bundleDiscounts ?? [],
+    timePasses: metadata.timePasses ?? [],
+  };
+}
+
+/** Accept a form field (JSON string) or an already parsed JSON body value */
+function parseJsonField(raw: unknown, field: string): unknown[] | string {
+  if (raw === undefined || raw === '') return [];
+  let parsed = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return `${field} must be JSON`;
+    }
+  }
+  return Array.isArray(parsed) ? parsed : `${field} must be an array`;
+}
+
+/**
+ * Parse and validate bundle discount tiers
+ * Expects a JSON array of { minPages, percentOff }
+ * @returns Tiers sorted by minPages, or an error message
+ */
+export function parseBundleDiscounts(raw: unknown): BundleDiscount[] | string {
+  const parsed = parseJsonField(raw, 'bundleDiscounts');
+  if (typeof parsed === 'string') return parsed;
+
+  const tiers: BundleDiscount[] = [];
+  for (const tier of parsed as Array<Partial<BundleDiscount>>) {
+    const { minPages, percentOff } = tier ?? {};
+    if (!Number.isInteger(minPages) || (minPages as number) < 2) {
+      return 'bundleDiscounts minPages must be an integer of at least 2';
+    }
+    if (typeof percentOff !== 'number' || percentOff <= 0 || percentOff >= 100) {
+      return 'bundleDiscounts percentOff must be between 0 and 100';
+    }
+    tiers.push({ minPages: minPages as number, percentOff });
+  }
+  return tiers.sort((a, b) => a.minPages - b.minPages);
+}
+
+/**
+ * Parse and validate page or chapter price overrides
+ * Expects a JSON array of { fromPage, throughPage?, price, label? } (price in USD per page)
+ * @returns Non-overlapping overrides sorted by page, or an error message
+ */
+export function parsePriceOverrides(raw: unknown): PriceOverrideInput[] | string {
+  const parsed = parseJsonField(raw, 'priceOverrides');
+  if (typeof parsed === 'string') return parsed;
+
+  const overrides: PriceOverrideInput[] = [];
+  for (const entry of parsed as Array<{ fromPage?: unknown; throughPage?: unknown; price?: unknown; label?: unknown }>) {
+    const fromPage = entry?.fromPage;
+    const throughPage = entry?.throughPage ?? fromPage;
+    if (!Number.isInteger(fromPage) || (fromPage as number) < 1 || !Number.isInteger(throughPage) || (throughPage as number) < (fromPage as number)) {
+      return 'priceOverrides need integer fromPage >= 1 and throughPage >= fromPage';
+    }
+    if (typeof entry.price !== 'number' || entry.price < 0) {
+      return 'priceOverrides price must be a non-negative USD amount';
+    }
+    if (entry.label !== undefined && typeof entry.label !== 'string') {
+      return 'priceOverrides label must be a string';
+    }
+    overrides.push({
+      fromPage: fromPage as number,
+      throughPage: throughPage as number,
+      priceUSD: entry.price,
+      ...(entry.label ? { label: entry.label } : {}),
+    });
+  }
+
+  overrides.sort((a, b) => a.fromPage - b.fromPage);
+  for (let i = 1; i < overrides.length; i++) {
+    if (overrides[i].fromPage <= overrides[i - 1].throughPage) {
+      return `priceOverrides overlap at page ${overrides[i].fromPage}`;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Parse the number of free preview pages
+ * @returns Page count, or an error message
+ */
+export function parseFreePreviewPages(raw: unknown): number | string {
+  if (raw === undefined || raw === '') return 0;
+  const pages = Number(raw);
+  return Number.isInteger(pages) && pages >= 0 ? pages : 'freePreviewPages must be a non-negative integer';
+}
+
+const PASS_UNIT_SECONDS: Record<string, number> = { h: 3600, d: 86_400 };
+
+/**
+ * Parse and validate time passes
+ * Expects a JSON array of { duration, price } where duration is hours or days ("24h", "7d") and price is in USD
+ * @returns Passes sorted by duration, or an error message
+ */
+export function parseTimePasses(raw: unknown): TimePassInput[] | string {
+  const parsed = parseJsonField(raw, 'timePasses');
+  if (typeof parsed === 'string') return parsed;
+
+  const passes: TimePassInput[] = [];
+  for (const entry of parsed as Array<{ duration?: unknown; price?: unknown }>) {
+    const match = typeof entry?.duration === 'string' ? entry.duration.match(/^(\d+)([hd])$/) : null;
+    if (!match || Number(match[1]) < 1) {
+      return 'timePasses duration must be a number of hours or days, e.g. "24h" or "7d"';
+    }
+    if (typeof entry.price !== 'number' || entry.price <= 0) {
+      return 'timePasses price must be a positive USD amount';
+    }
+    if (passes.some(pass => pass.id === entry.duration)) {
+      return `timePasses duration ${entry.duration} is listed twice`;
+    }
+    passes.push({
+      id: entry.duration as string,
+      durationSeconds: Number(match[1]) * PASS_UNIT_SECONDS[match[2]],
+      priceUSD: entry.price,
+    });
+  }
+  return passes.sort((a, b) => a.durationSeconds - b.durationSeconds);
+}
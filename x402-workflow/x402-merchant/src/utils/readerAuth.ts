@@ -0,0 +1,95 @@
+/**
+ * Reader Authentication - access tokens and wallet ownership proofs
+ *
+ * Readers prove which wallet they are in one of two ways:
+ * - Authorization: Bearer <access token>, issued after a paid read
+ * - X-WALLET-PROOF: Base64 JSON { message, signature }, where message is a
+ *   Sign-In-With-Ethereum (EIP-4361) style message signed with personal_sign
+ *
+ * Proofs sent to the merchant must also be bound to one request and carry a
+ * single-use nonce (see middleware/walletProof.ts).
+ */
+
+import { verifyMessage } from 'viem';
+import type { AccessTokenClaims, ReaderAuthResult, WalletProofResult } from '../types/index.js';
+import { config } from '../config/index.js';
+import { signToken, verifyToken } from './signedToken.js';
+
+/** Allowed clock skew for a proof's "Issued At" in seconds */
+const PROOF_CLOCK_SKEW_SECONDS = 60;
+
+/** Issue an access token for a wallet */
+export function issueAccessToken(address: string): string {
+  const claims: AccessTokenClaims = {
+    sub: address.toLowerCase(),
+    exp: Math.floor(Date.now() / 1000) + config.access.tokenTtlSeconds,
+  };
+  return signToken(claims, config.access.tokenSecret);
+}
+
+/** Verify a Bearer access token */
+export function verifyAccessToken(token: string): ReaderAuthResult {
+  const claims = verifyToken<AccessTokenClaims>(token, config.access.tokenSecret);
+  if (!claims) return { valid: false, error: 'Invalid access token' };
+  if (Math.floor(Date.now() / 1000) > claims.exp) return { valid: false, error: 'Access token expired' };
+  return { valid: true, address: claims.sub };
+}
+
+/** Read a "Field: value" line from a SIWE message */
+export function siweField(message: string, field: string): string | undefined {
+  return message.match(new RegExp(`^${field}: (.+)$`, 'm'))?.[1]?.trim();
+}
+
+/**
+ * Verify an X-WALLET-PROOF header
+ *
+ * The message must be for this merchant's domain, name the signing address on
+ * its second line, and carry a recent "Issued At" (plus optional "Chain ID"
+ * and "Expiration Time").
+ */
+export async function verifyWalletProof(headerValue: string): Promise<WalletProofResult> {
+  let proof: { message?: unknown; signature?: unknown };
+  try {
+    proof = JSON.parse(Buffer.from(headerValue, 'base64').toString('utf-8'));
+  } catch {
+    return { valid: false, error: 'Invalid X-WALLET-PROOF header format' };
+  }
+  if (typeof proof.message !== 'string' || typeof proof.signature !== 'string') {
+    return { valid: false, error: 'Wallet proof requires message and signature' };
+  }
+
+  const { message, signature } = proof;
+  const [header, address] = message.split('\n');
+  if (header !== `${config.access.domain} wants you to sign in with your Ethereum account:`) {
+    return { valid: false, error: `Wallet proof must be signed for ${config.access.domain}` };
+  }
+  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return { valid: false, error: 'Wallet proof is missing the account address' };
+  }
+
+  const chainId = siweField(message, 'Chain ID');
+  if (chainId !== undefined && Number(chainId) !== config.merchant.chainId) {
+    return { valid: false, error: `Wallet proof is for chain ${chainId}` };
+  }
+
+  const now = Date.now();
+  const issuedAt = Date.parse(siweField(message, 'Issued At') ?? '');
+  if (Number.isNaN(issuedAt)) return { valid: false, error: 'Wallet proof is missing Issued At' };
+  if (issuedAt > now + PROOF_CLOCK_SKEW_SECONDS * 1000 || now - issuedAt > config.access.proofMaxAgeSeconds * 1000) {
+    return { valid: false, error: 'Wallet proof is too old or not yet valid' };
+  }
+
+  const expiration = siweField(message, 'Expiration Time');
+  if (expiration !== undefined && !(Date.parse(expiration) > now)) {
+    return { valid: false, error: 'Wallet proof expired' };
+  }
+
+  const verified = await verifyMessage({
+    address: address as `0x${string}`,
+    message,
+    signature: signature as `0x${string}`,
+  }).catch(() => false);
+  if (!verified) return { valid: false, error: 'Invalid wallet proof signature' };
+
+  return { valid: true, address: address.toLowerCase(), message };
+}
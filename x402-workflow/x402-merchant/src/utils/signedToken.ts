@@ -0,0 +1,33 @@
+/**
+ * Signed Tokens - compact HMAC-SHA256 tokens issued and checked by the merchant
+ *
+ * Format: base64url(JSON payload) + "." + base64url(HMAC of the encoded payload)
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+function hmac(data: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+/** Sign a JSON payload */
+export function signToken(payload: object, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${hmac(body, secret).toString('base64url')}`;
+}
+
+/** Verify a token's signature and decode its payload (null if malformed or tampered with) */
+export function verifyToken<T>(token: string, secret: string): T | null {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return null;
+
+  const expected = hmac(body, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    return JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
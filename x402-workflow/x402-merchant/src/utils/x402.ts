@@ -2,36 +2,129 @@
  * x402 Protocol Utilities
  */
 
-import type { PaymentRequirement, PaymentRequiredResponse, PaymentPayload, PaymentResponse, ValidationResult, NetworkId } from '../types/index.js';
+import { randomUUID } from 'crypto';
+import type {
+  PaymentRequirement, PaymentRequiredResponse, PaymentPayload, PaymentResponse, PaymentQuote, PaymentScheme,
+  ValidationResult, QuoteValidationResult, NetworkId,
+} from '../types/index.js';
 import { config } from '../config/index.js';
-import { X402_VERSION, PAYMENT_SCHEMES, DEFAULT_PAYMENT_TIMEOUT_SECONDS, NETWORKS } from '../constants/index.js';
+import type { PaymentOffer } from '../config/index.js';
+import {
+  X402_VERSION, PAYMENT_SCHEMES, AUTHORIZATION_TYPES, DEFAULT_PAYMENT_TIMEOUT_SECONDS, METERED_SETTLEMENT_GRACE_SECONDS,
+} from '../constants/index.js';
+import { signToken, verifyToken } from './signedToken.js';
+import { getSettlementNetwork } from '../services/facilitatorClient.js';
+
+/** Sign a quote for a requirement, valid for QUOTE_TTL_SECONDS */
+function issueQuote(requirement: PaymentRequirement): string {
+  const quote: PaymentQuote = {
+    id: randomUUID(),
+    resource: requirement.resource,
+    amount: requirement.maxAmountRequired,
+    payTo: requirement.payTo,
+    asset: requirement.asset,
+    network: requirement.network,
+    expiresAt: Math.floor(Date.now() / 1000) + config.quote.ttlSeconds,
+  };
+  return signToken(quote, config.quote.secret);
+}
 
-/** Build 402 Payment Required response */
-export function buildPaymentRequired(
+/**
+ * Where a payment on a network goes: the facilitator's signer there for
+ * "exact", its vault for "upto" (permit spender) and for ReceiveWithAuthorization
+ */
+function payToFor(scheme: PaymentScheme, network: string, receive: boolean): string {
+  const settlement = getSettlementNetwork(network);
+  return scheme === PAYMENT_SCHEMES.UPTO || receive ? settlement.vault! : settlement.payTo;
+}
+
+/** Convert a USDC base-unit price into an offer's asset base units (rounded up) */
+export function priceInAsset(amountInBaseUnits: string, offer: PaymentOffer): string {
+  const usdMicros = BigInt(Math.round(offer.usdPerToken * 1_000_000));
+  const scaled = BigInt(amountInBaseUnits) * 10n ** BigInt(offer.decimals);
+  return ((scaled + usdMicros - 1n) / usdMicros).toString();
+}
+
+/** The configured offer for a network and asset (undefined if not accepted) */
+export function findOffer(network: string, asset: string): PaymentOffer | undefined {
+  return config.merchant.offers.find(offer => offer.network === network && offer.asset.toLowerCase() === asset.toLowerCase());
+}
+
+/**
+ * Build the payment options for a resource, one per accepted (network, asset)
+ * pair, each with its signed quote in extra.quote. `amountInBaseUnits` is the
+ * USDC price; each option converts it to its asset. "upto" options cap a
+ * metered session and are offered on the primary network only, where the
+ * vault is; their permit must outlive the session.
+ */
+export function buildPaymentRequirements(
   resource: string,
   amountInBaseUnits: string,
   description: string,
-  extra?: Record<string, unknown>
-): PaymentRequiredResponse {
+  extra?: Record<string, unknown>,
+  scheme: PaymentScheme = PAYMENT_SCHEMES.EXACT
+): PaymentRequirement[] {
+  const offers = scheme === PAYMENT_SCHEMES.UPTO ? config.merchant.offers.slice(0, 1) : config.merchant.offers;
+  return offers.map(offer => buildOfferRequirement(offer, resource, priceInAsset(amountInBaseUnits, offer), description, extra, scheme));
+}
+
+function buildOfferRequirement(
+  offer: PaymentOffer,
+  resource: string,
+  amountInBaseUnits: string,
+  description: string,
+  extra: Record<string, unknown> | undefined,
+  scheme: PaymentScheme
+): PaymentRequirement {
+  // A credited purchase can pay the vault directly, which settles it in one transaction
+  const receive = scheme === PAYMENT_SCHEMES.EXACT && config.facilitator.receiveWithAuthorization && !!extra?.authorAddress;
+  if (receive) extra = { ...extra, authorizationType: AUTHORIZATION_TYPES.RECEIVE };
   const paymentRequirement: PaymentRequirement = {
-    scheme: PAYMENT_SCHEMES.EXACT,
-    network: config.merchant.network as NetworkId,
+    scheme,
+    network: offer.network as NetworkId,
     maxAmountRequired: amountInBaseUnits,
     resource,
     description,
-    payTo: config.merchant.facilitatorAddress,
-    asset: config.merchant.acceptedToken,
-    maxTimeoutSeconds: DEFAULT_PAYMENT_TIMEOUT_SECONDS,
+    payTo: payToFor(scheme, offer.network, receive),
+    asset: offer.asset,
+    maxTimeoutSeconds: scheme === PAYMENT_SCHEMES.UPTO
+      ? config.metering.sessionTtlSeconds + METERED_SETTLEMENT_GRACE_SECONDS
+      : DEFAULT_PAYMENT_TIMEOUT_SECONDS,
     extra,
   };
+  paymentRequirement.extra = { ...extra, quote: issueQuote(paymentRequirement) };
+  return paymentRequirement;
+}
 
+/** Build 402 Payment Required response offering every accepted (network, asset) pair */
+export function buildPaymentRequired(
+  resource: string,
+  amountInBaseUnits: string,
+  description: string,
+  extra?: Record<string, unknown>,
+  scheme: PaymentScheme = PAYMENT_SCHEMES.EXACT
+): PaymentRequiredResponse {
   return {
     x402Version: X402_VERSION,
-    accepts: [paymentRequirement],
+    accepts: buildPaymentRequirements(resource, amountInBaseUnits, description, extra, scheme),
     error: 'X-PAYMENT header is required',
   };
 }
 
+/**
+ * The offered option a payment was made against: the one its quote was issued
+ * for, else the first option for the payment's scheme and network (null if none)
+ */
+export function matchPaymentRequirement(payload: PaymentPayload, accepts: PaymentRequirement[]): PaymentRequirement | null {
+  const quote = payload.quote ? verifyToken<PaymentQuote>(payload.quote, config.quote.secret) : null;
+  const quoted = quote && accepts.find(requirement =>
+    requirement.resource === quote.resource &&
+    requirement.network === quote.network &&
+    requirement.asset.toLowerCase() === quote.asset.toLowerCase()
+  );
+  return quoted || accepts.find(requirement => requirement.scheme === payload.scheme && requirement.network === payload.network) || null;
+}
+
 /** Decode X-PAYMENT header from Base64 */
 export function decodePaymentHeader(headerValue: string): PaymentPayload | null {
   try {
@@ -64,18 +157,17 @@ export function decodePaymentResponse(headerValue: string): PaymentResponse | nu
   }
 }
 
-/** Validate payment payload structure */
-export function validatePaymentPayload(payload: PaymentPayload): ValidationResult {
+/** Validate payment payload structure against the offered option it was matched to */
+export function validatePaymentPayload(payload: PaymentPayload, requirement: PaymentRequirement): ValidationResult {
   if (payload.x402Version !== X402_VERSION) {
     return { valid: false, error: `Unsupported x402 version: ${payload.x402Version}` };
   }
 
-  if (payload.scheme !== PAYMENT_SCHEMES.EXACT) {
+  if (payload.scheme !== requirement.scheme) {
     return { valid: false, error: `Unsupported scheme: ${payload.scheme}` };
   }
 
-  const supportedNetworks = Object.values(NETWORKS);
-  if (!supportedNetworks.includes(payload.network as typeof NETWORKS[keyof typeof NETWORKS])) {
+  if (payload.network !== requirement.network) {
     return { valid: false, error: `Unsupported network: ${payload.network}` };
   }
 
@@ -89,7 +181,7 @@ export function validatePaymentPayload(payload: PaymentPayload): ValidationResul
     }
   }
 
-  if (auth.to.toLowerCase() !== config.merchant.facilitatorAddress.toLowerCase()) {
+  if (auth.to.toLowerCase() !== requirement.payTo.toLowerCase()) {
     return { valid: false, error: 'Recipient mismatch' };
   }
 
@@ -113,3 +205,39 @@ export function validatePaymentAmount(paidAmount: string, requiredAmount: string
   return { valid: true };
 }
 
+
+/** Check that a payment was made against a genuine, unexpired quote for this option's resource and asset */
+export function validatePaymentQuote(payload: PaymentPayload, requirement: PaymentRequirement): QuoteValidationResult {
+  const { resource } = requirement;
+  if (!payload.quote) return { valid: false, error: 'Missing payment quote' };
+
+  const quote = verifyToken<PaymentQuote>(payload.quote, config.quote.secret);
+  if (!quote) return { valid: false, error: 'Invalid payment quote' };
+
+  if (quote.resource !== resource) {
+    return { valid: false, error: `Payment was quoted for a different resource: ${quote.resource}` };
+  }
+
+  if (Math.floor(Date.now() / 1000) > quote.expiresAt) {
+    return { valid: false, error: 'Payment quote expired', expired: true };
+  }
+
+  const auth = payload.payload.authorization;
+  if (payload.network !== quote.network) return { valid: false, error: 'Network does not match quote' };
+  if (requirement.asset.toLowerCase() !== quote.asset.toLowerCase()) return { valid: false, error: 'Asset does not match quote' };
+  if (auth.to.toLowerCase() !== quote.payTo.toLowerCase()) return { valid: false, error: 'Recipient does not match quote' };
+  if (BigInt(auth.value) !== BigInt(quote.amount)) {
+    return { valid: false, error: `Amount does not match quote: ${auth.value} != ${quote.amount}` };
+  }
+
+  return { valid: true, quote };
+}
+
+/** Requirement to settle against: the quoted price (even if it changed since) and the client's quote */
+export function quotedRequirement(requirement: PaymentRequirement, quote: PaymentQuote, quoteToken: string): PaymentRequirement {
+  return {
+    ...requirement,
+    maxAmountRequired: quote.amount,
+    extra: { ...requirement.extra, quote: quoteToken },
+  };
+}